@@ -4,23 +4,25 @@ import path from 'path';
 // Plugin to replace Node builtins with empty modules (same as webpack fallback: false)
 // Stub Node builtins that aren't needed in browser
 // Keep 'buffer' — still used by bech32 encoding in nostr-crypto-utils nip-19
+// Matches `node:` specifiers and subpaths such as `fs/promises` too
 const emptyNodeBuiltins = {
   name: 'empty-node-builtins',
   setup(build) {
     const builtins = [
       'crypto', 'stream', 'os', 'fs', 'path', 'http', 'https',
       'util', 'zlib', 'vm', 'assert', 'constants',
-      'net', 'tls', 'child_process',
+      'net', 'tls', 'dns', 'child_process',
     ];
-    const filter = new RegExp(`^(${builtins.join('|')})$`);
+    const filter = new RegExp(`^(node:)?(${builtins.join('|')})(/.*)?$`);
 
     build.onResolve({ filter }, (args) => ({
       path: args.path,
       namespace: 'empty-node-builtin',
     }));
 
+    // CommonJS, so named imports (`import { createHash } from 'crypto'`) resolve to undefined instead of failing the build
     build.onLoad({ filter: /.*/, namespace: 'empty-node-builtin' }, () => ({
-      contents: 'export default {};',
+      contents: 'module.exports = {};',
       loader: 'js',
     }));
   },
@@ -36,7 +38,7 @@ const result = await build({
   outfile: 'dist/browser/nostr-auth-middleware.min.js',
   target: ['es2020'],
   platform: 'browser',
-  external: ['express', 'winston', 'jsonwebtoken'],
+  external: ['express', 'express-rate-limit', 'winston', 'jsonwebtoken', 'better-sqlite3'],
   alias: {
     '@': path.resolve('src'),
     'nostr-crypto-utils/nip46': path.resolve('node_modules/nostr-crypto-utils/dist/cjs/nips/nip-46.js'),
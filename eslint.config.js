@@ -20,6 +20,16 @@ export default [
         window: 'readonly',
         jest: 'readonly',
         fetch: 'readonly',
+        URL: 'readonly',
+        WebSocket: 'readonly',
+        AbortController: 'readonly',
+        Response: 'readonly',
+        TextEncoder: 'readonly',
+        crypto: 'readonly',
+        Blob: 'readonly',
+        Worker: 'readonly',
+        MessageEvent: 'readonly',
+        ErrorEvent: 'readonly',
         setInterval: 'readonly',
         clearInterval: 'readonly',
         Buffer: 'readonly',
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ApiKeyService } from '../services/api-key.service.js';
+import { MemoryApiKeyStore } from '../stores/memory-api-key.store.js';
+import { hashApiKey } from '../utils/api-key.utils.js';
+
+describe('ApiKeyService', () => {
+  let store: MemoryApiKeyStore;
+  let service: ApiKeyService;
+  let now: number;
+
+  const advance = (seconds: number) => {
+    now += seconds * 1000;
+    vi.mocked(Date.now).mockReturnValue(now);
+  };
+
+  beforeEach(() => {
+    now = Date.now();
+    vi.spyOn(Date, 'now').mockReturnValue(now);
+    store = new MemoryApiKeyStore();
+    service = new ApiKeyService(store);
+  });
+
+  afterEach(() => {
+    vi.mocked(Date.now).mockRestore();
+  });
+
+  it('should store only the hash of a new key', async () => {
+    const result = await service.create({ owner: 'billing', scopes: ['reports:read'], expiresIn: '30d' });
+
+    expect(result.success).toBe(true);
+    expect(result.record).toMatchObject({ owner: 'billing', scopes: ['reports:read'], key_hash: hashApiKey(result.key!) });
+    expect(result.record!.expires_at).toBe(result.record!.created_at + 30 * 86400);
+    expect(JSON.stringify(await store.list())).not.toContain(result.key);
+  });
+
+  it('should refuse requests without an owner or with malformed options', async () => {
+    expect((await service.create({ scopes: ['a'] })).code).toBe('INVALID_API_KEY_REQUEST');
+    expect((await service.create({ owner: 'billing', scopes: 'a' as unknown as string[] })).code).toBe('INVALID_API_KEY_REQUEST');
+    expect((await service.create({ owner: 'billing', expiresIn: 'soon' as '1d' })).code).toBe('INVALID_API_KEY_REQUEST');
+  });
+
+  it('should authenticate valid keys and track when they were last used', async () => {
+    const { key, record } = await service.create({ owner: 'billing' });
+
+    expect((await service.authenticate(key!))?.id).toBe(record!.id);
+    expect((await store.get(record!.id))?.last_used_at).toBe(Math.floor(now / 1000));
+    expect(await service.authenticate('0'.repeat(64))).toBeNull();
+    expect(await service.authenticate('')).toBeNull();
+  });
+
+  it('should refuse keys once they expire', async () => {
+    const { key } = await service.create({ owner: 'billing', expiresIn: '1h' });
+
+    advance(3600);
+    expect(await service.authenticate(key!)).toBeNull();
+  });
+
+  it('should keep the old key working during the rotation grace period', async () => {
+    const old = await service.create({ owner: 'billing', scopes: ['reports:read'], expiresIn: '30d' });
+    advance(86400);
+
+    const rotated = await service.rotate(old.record!.id, { gracePeriodSeconds: 600 });
+    expect(rotated.success).toBe(true);
+    expect(rotated.record).toMatchObject({ owner: 'billing', scopes: ['reports:read'] });
+    expect(rotated.record!.expires_at).toBe(rotated.record!.created_at + 30 * 86400);
+    expect((await store.get(old.record!.id))?.rotated_to).toBe(rotated.record!.id);
+
+    expect(await service.authenticate(old.key!)).not.toBeNull();
+    advance(600);
+    expect(await service.authenticate(old.key!)).toBeNull();
+    expect(await service.authenticate(rotated.key!)).not.toBeNull();
+  });
+
+  it('should only rotate known, active keys', async () => {
+    const { record } = await service.create({ owner: 'billing' });
+    await service.rotate(record!.id);
+
+    expect((await service.rotate(record!.id)).code).toBe('API_KEY_INACTIVE');
+    expect((await service.rotate('missing')).code).toBe('API_KEY_NOT_FOUND');
+  });
+
+  it('should revoke keys immediately', async () => {
+    const { key, record } = await service.create({ owner: 'billing' });
+
+    expect(await service.revoke(record!.id)).toBe(true);
+    expect(await service.authenticate(key!)).toBeNull();
+    expect(await service.revoke(record!.id)).toBe(false);
+  });
+});
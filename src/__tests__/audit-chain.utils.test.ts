@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createHash } from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { HashChainAuditSink } from '../stores/hash-chain-audit-sink.store.js';
+import { AUDIT_CHECKPOINT_KIND, hashAuditEntry, verifyAuditLog } from '../utils/audit-chain.utils.js';
+import type { AuditEvent, ChainedAuditEntry, NostrEvent } from '../types.js';
+
+const serverKey = '1'.repeat(64);
+const serverPubkey = 's'.repeat(64);
+
+const eventId = (event: NostrEvent) => createHash('sha256')
+  .update(JSON.stringify([0, event.pubkey, event.created_at, event.kind, event.tags, event.content]))
+  .digest('hex');
+
+// Mock nostr-crypto-utils: NIP-01 ids are computed for real, signatures are accepted unless marked bad
+vi.mock('nostr-crypto-utils', () => ({
+  finalizeEvent: vi.fn(async (event: NostrEvent) => {
+    const signed = { ...event, pubkey: serverPubkey };
+    return { ...signed, id: eventId(signed), sig: 'f'.repeat(128) };
+  }),
+  verifySignature: vi.fn(async (event: NostrEvent) => event.sig !== '0'.repeat(128)),
+  calculateEventId: vi.fn((event: NostrEvent) => eventId(event))
+}));
+
+describe('hash-chained audit log', () => {
+  let dir: string;
+  let file: string;
+  let sink: HashChainAuditSink | undefined;
+
+  const event = (pubkey: string): AuditEvent => ({ type: 'verify.succeeded', pubkey, ip: '203.0.113.7', created_at: 1700000000 });
+
+  const readEntries = (): ChainedAuditEntry[] => fs.readFileSync(file, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+  const writeEntries = (entries: ChainedAuditEntry[]) => fs.writeFileSync(file, entries.map(entry => `${JSON.stringify(entry)}\n`).join(''));
+
+  const writeLog = async (count: number, checkpointEvery = 2) => {
+    sink = new HashChainAuditSink(file, { privateKey: serverKey, checkpointEvery });
+    for (let i = 0; i < count; i++) {
+      await sink.write(event(String(i).repeat(64)));
+    }
+    await sink.close();
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-chain-'));
+    file = path.join(dir, 'audit.jsonl');
+  });
+
+  afterEach(async () => {
+    await sink?.close();
+    sink = undefined;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should chain entries and sign a checkpoint every checkpointEvery events and on close', async () => {
+    const onCheckpoint = vi.fn();
+    sink = new HashChainAuditSink(file, { privateKey: serverKey, checkpointEvery: 2, onCheckpoint });
+    for (const pubkey of ['a', 'b', 'c']) {
+      await sink.write(event(pubkey.repeat(64)));
+    }
+    await sink.close();
+
+    const entries = readEntries();
+    expect(entries.map(entry => (entry.event ? 'event' : 'checkpoint'))).toEqual(['event', 'event', 'checkpoint', 'event', 'checkpoint']);
+    expect(entries[1].prev_hash).toBe(entries[0].hash);
+    expect(entries[2].checkpoint).toMatchObject({
+      kind: AUDIT_CHECKPOINT_KIND,
+      pubkey: serverPubkey,
+      tags: expect.arrayContaining([['seq', '2'], ['hash', entries[1].hash]])
+    });
+    expect(onCheckpoint).toHaveBeenCalledTimes(2);
+
+    expect(await verifyAuditLog(file, { publicKey: serverPubkey })).toEqual({
+      valid: true,
+      entries: 5,
+      checkpoints: 2,
+      lastCheckpointSeq: 4
+    });
+  });
+
+  it('should continue an existing log where it ended', async () => {
+    await writeLog(2);
+    await writeLog(1);
+
+    expect(readEntries().map(entry => entry.seq)).toEqual([1, 2, 3, 4, 5]);
+    expect((await verifyAuditLog(file)).valid).toBe(true);
+  });
+
+  it('should report an edited entry', async () => {
+    await writeLog(3);
+    const entries = readEntries();
+    entries[1].event = { ...entries[1].event!, ip: '198.51.100.1' };
+    writeEntries(entries);
+
+    expect(await verifyAuditLog(file)).toMatchObject({
+      valid: false,
+      entries: 1,
+      brokenAt: { line: 2, seq: 2, reason: 'Entry hash does not match its contents' }
+    });
+  });
+
+  it('should report a removed entry', async () => {
+    await writeLog(3);
+    writeEntries(readEntries().filter(entry => entry.seq !== 2));
+
+    expect((await verifyAuditLog(file)).brokenAt).toEqual({ line: 2, seq: 3, reason: 'Expected seq 2' });
+  });
+
+  it('should catch a chain rewritten without the server key', async () => {
+    await writeLog(2);
+    const entries = readEntries();
+    entries[0].event = { ...entries[0].event!, type: 'verify.failed', code: 'PUBKEY_FORBIDDEN', reason: 'Pubkey is not allowed' } as AuditEvent;
+    for (let i = 0; i < entries.length; i++) {
+      entries[i].prev_hash = i ? entries[i - 1].hash : entries[i].prev_hash;
+      entries[i].hash = hashAuditEntry(entries[i]);
+    }
+    writeEntries(entries);
+
+    expect((await verifyAuditLog(file)).brokenAt).toEqual({ line: 3, seq: 3, reason: 'Checkpoint does not cover the previous entry' });
+  });
+
+  it('should reject checkpoints with a bad signature or from another key', async () => {
+    await writeLog(2);
+    expect((await verifyAuditLog(file, { publicKey: 'e'.repeat(64) })).brokenAt?.reason).toBe('Checkpoint signed by another key');
+
+    const entries = readEntries();
+    entries[2].checkpoint = { ...entries[2].checkpoint!, sig: '0'.repeat(128) };
+    entries[2].hash = hashAuditEntry(entries[2]);
+    writeEntries(entries);
+    expect((await verifyAuditLog(file)).brokenAt?.reason).toBe('Invalid checkpoint signature');
+  });
+
+  it('should refuse to open a log whose last line is not a chained entry', async () => {
+    fs.writeFileSync(file, '{"type":"verify.succeeded"}\n');
+    sink = new HashChainAuditSink(file, { privateKey: serverKey });
+
+    await expect(sink.open()).rejects.toThrow(`Last entry of ${file} is not a chained audit entry`);
+  });
+
+  it('should require a hex private key', () => {
+    expect(() => new HashChainAuditSink(file, { privateKey: '' })).toThrow('Audit checkpoints require a hex private key');
+  });
+});
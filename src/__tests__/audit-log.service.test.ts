@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AuditLog } from '../services/audit-log.service.js';
+import { MemoryAuditSink } from '../stores/memory-audit-sink.store.js';
+import { JsonLinesAuditSink } from '../stores/jsonl-audit-sink.store.js';
+
+describe('AuditLog', () => {
+  const pubkey = 'a'.repeat(64);
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should stamp events and hand them to every sink', () => {
+    const first = new MemoryAuditSink();
+    const second = new MemoryAuditSink();
+    const auditLog = new AuditLog([first]);
+    auditLog.addSink(second);
+
+    const event = auditLog.record({ type: 'challenge.issued', pubkey, ip: '203.0.113.7' });
+
+    expect(event.created_at).toBe(Math.floor(Date.now() / 1000));
+    expect(first.list()).toEqual([event]);
+    expect(second.list()).toEqual([event]);
+  });
+
+  it('should keep recording when a sink fails', async () => {
+    const audit = new MemoryAuditSink();
+    const auditLog = new AuditLog([
+      { write: () => { throw new Error('disk full'); } },
+      { write: vi.fn().mockRejectedValue(new Error('disk full')) },
+      audit
+    ]);
+
+    expect(() => auditLog.record({ type: 'ip.blocked', ip: '203.0.113.7' })).not.toThrow();
+    await auditLog.close();
+    expect(audit.list('ip.blocked')).toHaveLength(1);
+  });
+
+  it('should keep only the most recent events in memory', () => {
+    const audit = new MemoryAuditSink(2);
+    const auditLog = new AuditLog([audit]);
+    auditLog.record({ type: 'challenge.issued', pubkey });
+    auditLog.record({ type: 'verify.succeeded', pubkey });
+    auditLog.record({ type: 'token.refreshed', pubkey });
+
+    expect(audit.list().map(event => event.type)).toEqual(['verify.succeeded', 'token.refreshed']);
+    audit.clear();
+    expect(audit.list()).toEqual([]);
+  });
+
+  it('should append one JSON line per event in order', async () => {
+    const file = path.join(dir, 'audit.jsonl');
+    const auditLog = new AuditLog([new JsonLinesAuditSink(file)]);
+    auditLog.record({ type: 'verify.failed', code: 'CHALLENGE_EXPIRED', reason: 'Challenge expired', pubkey });
+    auditLog.record({ type: 'api_key.rejected', reason: 'missing' });
+    await auditLog.close();
+
+    const lines = fs.readFileSync(file, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+    expect(lines.map(event => event.type)).toEqual(['verify.failed', 'api_key.rejected']);
+    expect(lines[0]).toMatchObject({ code: 'CHALLENGE_EXPIRED', reason: 'Challenge expired', pubkey });
+  });
+});
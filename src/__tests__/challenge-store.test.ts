@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MemoryChallengeStore } from '../stores/memory-challenge.store.js';
+import type { StoredChallenge } from '../stores/challenge.store.js';
+
+describe('MemoryChallengeStore', () => {
+  let store: MemoryChallengeStore;
+  const now = Math.floor(Date.now() / 1000);
+
+  const makeChallenge = (overrides: Partial<StoredChallenge> = {}): StoredChallenge => ({
+    id: 'challenge-id',
+    pubkey: 'a'.repeat(64),
+    challenge: 'nostr:auth: abc',
+    created_at: now,
+    expires_at: now + 300,
+    ...overrides
+  });
+
+  beforeEach(() => {
+    store = new MemoryChallengeStore();
+  });
+
+  it('should consume a stored challenge exactly once', async () => {
+    const challenge = makeChallenge();
+    await store.put(challenge);
+
+    expect(await store.consume(challenge.pubkey, challenge.challenge)).toEqual(challenge);
+    expect(await store.consume(challenge.pubkey, challenge.challenge)).toBeNull();
+  });
+
+  it('should not return a challenge issued to another pubkey', async () => {
+    const challenge = makeChallenge();
+    await store.put(challenge);
+
+    expect(await store.consume('b'.repeat(64), challenge.challenge)).toBeNull();
+  });
+
+  it('should only let one of several concurrent consumers win', async () => {
+    const challenge = makeChallenge();
+    await store.put(challenge);
+
+    const results = await Promise.all([
+      store.consume(challenge.pubkey, challenge.challenge),
+      store.consume(challenge.pubkey, challenge.challenge),
+      store.consume(challenge.pubkey, challenge.challenge)
+    ]);
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+  });
+
+  it('should expire challenges past their expiry', async () => {
+    await store.put(makeChallenge({ id: 'old', challenge: 'old', expires_at: now - 1 }));
+    await store.put(makeChallenge({ id: 'fresh', challenge: 'fresh' }));
+
+    expect(await store.expire(now)).toBe(1);
+    expect(await store.consume('a'.repeat(64), 'old')).toBeNull();
+    expect(await store.consume('a'.repeat(64), 'fresh')).not.toBeNull();
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { generateKeyPairSync } from 'crypto';
+import { generateJWT, verifyJWT, getPublicJWK } from '../utils/jwt.utils.js';
+import type { JWTAsymmetricAlgorithm, JWTSigningKey } from '../types.js';
+
+const makeKey = (algorithm: JWTAsymmetricAlgorithm): JWTSigningKey => {
+  const { privateKey } = algorithm === 'EdDSA'
+    ? generateKeyPairSync('ed25519')
+    : generateKeyPairSync('ec', { namedCurve: algorithm === 'ES256K' ? 'secp256k1' : 'P-256' });
+  return { algorithm, privateKey: privateKey.export({ format: 'pem', type: 'pkcs8' }) as string };
+};
+
+const decodeHeader = (token: string) =>
+  JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString('utf8'));
+
+describe('JWT utilities', () => {
+  const pubkey = 'a'.repeat(64);
+
+  describe.each(['ES256K', 'EdDSA', 'ES256'] as const)('%s tokens', (algorithm) => {
+    const key = makeKey(algorithm);
+    const jwk = getPublicJWK(key);
+
+    it('should round-trip with the public JWK only', () => {
+      const token = generateJWT(pubkey, key, '1h', { jwtid: 'token-1' });
+
+      expect(decodeHeader(token)).toEqual({ alg: algorithm, typ: 'JWT', kid: jwk.kid });
+      const claims = verifyJWT(token, [jwk]);
+      expect(claims.pubkey).toBe(pubkey);
+      expect(claims.jti).toBe('token-1');
+      expect(claims.exp! - claims.iat!).toBe(3600);
+    });
+
+    it('should not publish private key material', () => {
+      expect(jwk).not.toHaveProperty('d');
+      expect(jwk).toMatchObject({ alg: algorithm, use: 'sig' });
+    });
+
+    it('should reject a token signed by a different key', () => {
+      const token = generateJWT(pubkey, { ...makeKey(algorithm), kid: jwk.kid }, '1h');
+      expect(() => verifyJWT(token, [jwk])).toThrow('Invalid JWT');
+    });
+  });
+
+  it('should honour a configured kid', () => {
+    const key = { ...makeKey('ES256K'), kid: 'primary' };
+    const token = generateJWT(pubkey, key, '1h');
+
+    expect(decodeHeader(token).kid).toBe('primary');
+    expect(verifyJWT(token, [getPublicJWK(key)]).pubkey).toBe(pubkey);
+  });
+
+  it('should reject a key whose curve does not match the algorithm', () => {
+    const { privateKey } = makeKey('ES256');
+    expect(() => getPublicJWK({ algorithm: 'ES256K', privateKey })).toThrow('does not match algorithm');
+  });
+
+  it('should not accept an asymmetric token relabelled with another algorithm', () => {
+    const key = makeKey('ES256K');
+    const jwk = getPublicJWK(key);
+    const [, payload, signature] = generateJWT(pubkey, key, '1h').split('.');
+    const header = Buffer.from(JSON.stringify({ alg: 'ES256', typ: 'JWT', kid: jwk.kid })).toString('base64url');
+
+    expect(() => verifyJWT(`${header}.${payload}.${signature}`, [jwk])).toThrow('Invalid JWT');
+  });
+
+  it('should still issue and verify HS256 tokens with a secret', () => {
+    const token = generateJWT(pubkey, 'secret', '1h');
+
+    expect(decodeHeader(token).alg).toBe('HS256');
+    expect(verifyJWT(token, 'secret').pubkey).toBe(pubkey);
+    expect(() => verifyJWT(token, [getPublicJWK(makeKey('EdDSA'))])).toThrow('Invalid JWT');
+  });
+});
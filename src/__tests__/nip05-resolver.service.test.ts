@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Nip05Resolver, parseNip05Identifier } from '../services/nip05-resolver.service.js';
+
+describe('Nip05Resolver', () => {
+  const pubkey = 'a'.repeat(64);
+  let fetchMock: ReturnType<typeof vi.fn<typeof fetch>>;
+  let lookupHost: ReturnType<typeof vi.fn<(hostname: string) => Promise<string[]>>>;
+
+  const respond = (body: unknown, status = 200) => fetchMock.mockResolvedValue(new Response(JSON.stringify(body), { status }));
+
+  beforeEach(() => {
+    fetchMock = vi.fn();
+    lookupHost = vi.fn(async () => ['93.184.215.14']);
+    respond({ names: { Alice: pubkey }, relays: { [pubkey]: ['wss://relay.example.com', 42] } });
+  });
+
+  it('should resolve a name through the domain nostr.json', async () => {
+    const resolver = new Nip05Resolver({ fetch: fetchMock, lookupHost });
+
+    expect(await resolver.resolve('alice@example.com')).toEqual({
+      identifier: 'alice@example.com',
+      pubkey,
+      relays: ['wss://relay.example.com']
+    });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://example.com/.well-known/nostr.json?name=alice');
+    expect(init?.redirect).toBe('error');
+  });
+
+  it('should match names case-insensitively', async () => {
+    expect((await new Nip05Resolver({ fetch: fetchMock, lookupHost }).resolve('ALICE@Example.com'))?.pubkey).toBe(pubkey);
+  });
+
+  it('should only verify identifiers that map to the pubkey', async () => {
+    const resolver = new Nip05Resolver({ fetch: fetchMock, lookupHost });
+
+    expect(await resolver.verify('alice@example.com', pubkey)).not.toBeNull();
+    expect(await resolver.verify('alice@example.com', 'b'.repeat(64))).toBeNull();
+  });
+
+  it('should return null for unknown names, error responses and failed requests', async () => {
+    expect(await new Nip05Resolver({ fetch: fetchMock, lookupHost }).resolve('bob@example.com')).toBeNull();
+
+    respond({ names: { alice: pubkey } }, 404);
+    expect(await new Nip05Resolver({ fetch: fetchMock, lookupHost }).resolve('alice@example.com')).toBeNull();
+
+    respond({ names: { alice: 'not-a-pubkey' } });
+    expect(await new Nip05Resolver({ fetch: fetchMock, lookupHost }).resolve('alice@example.com')).toBeNull();
+
+    fetchMock.mockRejectedValue(new TypeError('redirect mode is set to error'));
+    expect(await new Nip05Resolver({ fetch: fetchMock, lookupHost }).resolve('alice@example.com')).toBeNull();
+  });
+
+  it('should cache resolutions until the TTL expires', async () => {
+    const resolver = new Nip05Resolver({ fetch: fetchMock, lookupHost, cacheTtlMs: 1000 });
+    await resolver.resolve('alice@example.com');
+    await resolver.resolve('alice@example.com');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    const now = Date.now();
+    vi.spyOn(Date, 'now').mockReturnValue(now + 1001);
+    respond({ names: { alice: pubkey } });
+    await resolver.resolve('alice@example.com');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    vi.mocked(Date.now).mockRestore();
+  });
+
+  it('should drop the oldest resolution once the cache is full', async () => {
+    const resolver = new Nip05Resolver({ fetch: fetchMock, lookupHost, maxCacheEntries: 2 });
+    fetchMock.mockImplementation(async () => new Response(JSON.stringify({ names: {} })));
+
+    for (const identifier of ['alice@example.com', 'bob@example.com', 'carol@example.com', 'bob@example.com']) {
+      await resolver.resolve(identifier);
+    }
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+
+    await resolver.resolve('alice@example.com');
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it('should not look up malformed, loopback or IP-literal identifiers', async () => {
+    const resolver = new Nip05Resolver({ fetch: fetchMock, lookupHost });
+
+    for (const identifier of ['alice@', 'a@b@example.com', 'al ice@example.com', 'alice@localhost', 'alice@127.0.0.1:8080']) {
+      expect(await resolver.resolve(identifier)).toBeNull();
+    }
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(parseNip05Identifier('example.com')).toEqual({ name: '_', domain: 'example.com' });
+  });
+
+  it('should not fetch domains that resolve to internal addresses', async () => {
+    const resolver = new Nip05Resolver({ fetch: fetchMock, lookupHost, cacheTtlMs: 0 });
+
+    for (const addresses of [['127.0.0.1'], ['93.184.215.14', '10.0.0.5'], ['169.254.169.254'], ['198.18.0.1'], ['224.0.0.251'], ['255.255.255.255'], ['::1'], ['fd00::1'], ['ff02::1'], ['::ffff:192.168.1.1'], []]) {
+      lookupHost.mockResolvedValueOnce(addresses);
+      expect(await resolver.resolve('alice@internal.example.com')).toBeNull();
+    }
+    expect(lookupHost).toHaveBeenLastCalledWith('internal.example.com');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should return null when the domain does not resolve', async () => {
+    lookupHost.mockRejectedValue(new Error('getaddrinfo ENOTFOUND example.com'));
+
+    expect(await new Nip05Resolver({ fetch: fetchMock, lookupHost }).resolve('alice@example.com')).toBeNull();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { countLeadingZeroBits, getCommittedTarget, hasProofOfWork } from '../utils/nip13.utils.js';
+import type { NostrEvent } from '../types.js';
+
+describe('NIP-13 utilities', () => {
+  const event = (id: string, tags: string[][]): NostrEvent => ({
+    id,
+    pubkey: 'a'.repeat(64),
+    created_at: 1651794653,
+    kind: 1,
+    tags,
+    content: 'It\'s just me mining my own business',
+    sig: 'f'.repeat(128)
+  });
+
+  it('should count leading zero bits', () => {
+    // Example id from NIP-13
+    expect(countLeadingZeroBits('000000000e9d97a1ab09fc381030b346cdd7a142ad57e6df0b46dc9bef6c7e2d')).toBe(36);
+    expect(countLeadingZeroBits('002f' + 'f'.repeat(60))).toBe(10);
+    expect(countLeadingZeroBits('f'.repeat(64))).toBe(0);
+    expect(countLeadingZeroBits('0'.repeat(64))).toBe(256);
+  });
+
+  it('should read the committed target from the nonce tag', () => {
+    expect(getCommittedTarget(event('0'.repeat(64), [['nonce', '776797', '20']]))).toBe(20);
+    expect(getCommittedTarget(event('0'.repeat(64), [['nonce', '776797']]))).toBeNull();
+    expect(getCommittedTarget(event('0'.repeat(64), []))).toBeNull();
+  });
+
+  it('should require both the difficulty and a matching commitment', () => {
+    const id = '000000000e9d97a1ab09fc381030b346cdd7a142ad57e6df0b46dc9bef6c7e2d';
+
+    expect(hasProofOfWork(event(id, [['nonce', '776797', '20']]), 20)).toBe(true);
+    expect(hasProofOfWork(event(id, [['nonce', '776797', '16']]), 20)).toBe(false);
+    expect(hasProofOfWork(event('00ff' + 'f'.repeat(60), [['nonce', '1', '20']]), 20)).toBe(false);
+    expect(hasProofOfWork(event('f'.repeat(64), []), 0)).toBe(true);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { decodeNip19, normalizePubkey, nprofileEncode, npubEncode } from '../utils/nip19.utils.js';
+
+// Test vectors from NIP-19
+const pubkey = '7e7e9c42a91bfef19fa929e5fda1b72e0ebc1a4c1141673e2794234d86addf4e';
+const npub = 'npub10elfcs4fr0l0r8af98jlmgdh9c8tcxjvz9qkw038js35mp4dma8qzvjptg';
+const nprofile = 'nprofile1qqsrhuxx8l9ex335q7he0f09aej04zpazpl0ne2cgukyawd24mayt8gpp4mhxue69uhhytnc9e3k7mgpz4mhxue69uhkg6nzv9ejuumpv34kytnrdaksjlyr9p';
+const profile = {
+  pubkey: '3bf0c63fcb93463407af97a5e5ee64fa883d107ef9e558472c4eb9aaaefa459d',
+  relays: ['wss://r.x.com', 'wss://djbas.sadkb.com']
+};
+
+describe('NIP-19 utils', () => {
+  it('should encode and decode npub', () => {
+    expect(npubEncode(pubkey)).toBe(npub);
+    expect(decodeNip19(npub)).toEqual({ type: 'npub', pubkey });
+  });
+
+  it('should encode and decode nprofile with relay hints', () => {
+    expect(nprofileEncode(profile)).toBe(nprofile);
+    expect(decodeNip19(nprofile)).toEqual({ type: 'nprofile', ...profile });
+  });
+
+  it('should reject bad checksums, other prefixes and invalid pubkeys', () => {
+    expect(() => decodeNip19(npub.slice(0, -1) + 'q')).toThrow('Invalid bech32 checksum');
+    expect(() => decodeNip19('nsec1vl029mgpspedva04g90vltkh6fvh240zqtv9k0t9af8935ke9laqsnlfe5')).toThrow('Unsupported NIP-19 prefix: nsec');
+    expect(() => npubEncode('xyz')).toThrow('Invalid pubkey');
+  });
+
+  it('should normalise hex, npub and nprofile input to lowercase hex', () => {
+    expect(normalizePubkey(pubkey.toUpperCase())).toBe(pubkey);
+    expect(normalizePubkey(npub)).toBe(pubkey);
+    expect(normalizePubkey(nprofile)).toBe(profile.pubkey);
+    expect(normalizePubkey('npub1notreal')).toBeNull();
+    expect(normalizePubkey('123abc')).toBeNull();
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createHash } from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Nip51MembershipPolicy } from '../services/nip51-membership.service.js';
+import type { RelayWebSocket } from '../services/relay-pool.service.js';
+import type { NostrEvent } from '../types.js';
+
+// Mock nostr-crypto-utils: NIP-01 ids are computed for real, signatures are accepted unless marked bad
+vi.mock('nostr-crypto-utils', () => ({
+  verifySignature: vi.fn(async (event: NostrEvent) => event.sig !== '0'.repeat(128)),
+  calculateEventId: vi.fn((event: NostrEvent) => createHash('sha256')
+    .update(JSON.stringify([0, event.pubkey, event.created_at, event.kind, event.tags, event.content]))
+    .digest('hex'))
+}));
+
+/**
+ * Local relay stand-in: answers every REQ with its stored events, then EOSE
+ */
+class FakeRelay {
+  requests = 0;
+
+  constructor(public events: NostrEvent[] = []) {}
+
+  connect(): RelayWebSocket {
+    const socket: RelayWebSocket = {
+      onopen: null,
+      onmessage: null,
+      onerror: null,
+      onclose: null,
+      send: (data: string) => {
+        const [type, subscriptionId] = JSON.parse(data);
+        if (type !== 'REQ') {
+          return;
+        }
+        this.requests++;
+        setTimeout(() => {
+          for (const event of this.events) {
+            socket.onmessage?.({ data: JSON.stringify(['EVENT', subscriptionId, event]) });
+          }
+          socket.onmessage?.({ data: JSON.stringify(['EOSE', subscriptionId]) });
+        });
+      },
+      close: vi.fn()
+    };
+    setTimeout(() => socket.onopen?.({}));
+    return socket;
+  }
+}
+
+describe('Nip51MembershipPolicy', () => {
+  const admin = 'e'.repeat(64);
+  const alice = 'a'.repeat(64);
+  const bob = 'b'.repeat(64);
+  let relay: FakeRelay;
+  let dir: string;
+  let policy: Nip51MembershipPolicy | undefined;
+
+  const followSet = (members: string[], createdAt: number, overrides: Partial<NostrEvent> = {}): NostrEvent => {
+    const event: NostrEvent = {
+      pubkey: admin,
+      created_at: createdAt,
+      kind: 30000,
+      tags: [['d', 'members'], ...members.map(member => ['p', member])],
+      content: '',
+      sig: 'f'.repeat(128),
+      ...overrides
+    };
+    event.id = createHash('sha256')
+      .update(JSON.stringify([0, event.pubkey, event.created_at, event.kind, event.tags, event.content]))
+      .digest('hex');
+    return event;
+  };
+
+  const createPolicy = (options: { relays?: string[]; snapshotPath?: string; cacheTtlMs?: number } = {}) => {
+    policy = new Nip51MembershipPolicy({
+      adminPubkey: admin,
+      listId: 'members',
+      relays: ['wss://relay.example.com'],
+      createWebSocket: () => relay.connect(),
+      ...options
+    });
+    return policy;
+  };
+
+  beforeEach(() => {
+    relay = new FakeRelay([followSet([alice], 1000)]);
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'nip51-'));
+  });
+
+  afterEach(() => {
+    policy?.destroy();
+    policy = undefined;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should only admit pubkeys on the newest list version', async () => {
+    relay.events.push(followSet([bob], 2000), followSet([alice, bob], 1500));
+    const membership = createPolicy();
+
+    expect(await membership.isMember(bob)).toBe(true);
+    expect(await membership.isMember(alice)).toBe(false);
+  });
+
+  it('should ignore lists with a bad signature, another author or another d tag', async () => {
+    relay.events.push(
+      followSet([bob], 3000, { sig: '0'.repeat(128) }),
+      followSet([bob], 3000, { pubkey: 'c'.repeat(64) }),
+      followSet([bob], 3000, { tags: [['d', 'other'], ['p', bob]] })
+    );
+
+    expect(await createPolicy().getMembers()).toEqual([alice]);
+  });
+
+  it('should cache the list and never roll back to an older version', async () => {
+    const membership = createPolicy({ cacheTtlMs: 1000 });
+    await membership.isMember(alice);
+    await membership.isMember(alice);
+    expect(relay.requests).toBe(1);
+
+    relay.events = [followSet([bob], 500)];
+    await membership.refresh();
+    expect(relay.requests).toBe(2);
+    expect(await membership.isMember(alice)).toBe(true);
+  });
+
+  it('should save the newest list and use the snapshot when relays are unavailable', async () => {
+    const snapshotPath = path.join(dir, 'members.json');
+    await createPolicy({ snapshotPath }).isMember(alice);
+    policy!.destroy();
+
+    const offline = createPolicy({ relays: [], snapshotPath });
+    expect(await offline.isMember(alice)).toBe(true);
+    expect(JSON.parse(fs.readFileSync(snapshotPath, 'utf8')).created_at).toBe(1000);
+  });
+
+  it('should let nobody in without any list version', async () => {
+    const membership = createPolicy({ relays: [], snapshotPath: path.join(dir, 'missing.json') });
+
+    expect(await membership.asAccessPolicy()(alice)).toBe(false);
+  });
+});
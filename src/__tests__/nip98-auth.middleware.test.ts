@@ -0,0 +1,191 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { requireNip98Auth } from '../middleware/nip98-auth.middleware.js';
+import { validateEvent } from '../validators/event.validator.js';
+import type { NostrEvent } from '../types.js';
+
+// Signature checks are covered by nostr-crypto-utils; here we only exercise the NIP-98 rules
+vi.mock('../validators/event.validator.js', () => ({
+  validateEvent: vi.fn(async (event: NostrEvent) => ({ success: true, pubkey: event.pubkey }))
+}));
+
+vi.mock('../utils/crypto.utils.js', async () => {
+  const { createHash } = await import('crypto');
+  return {
+    generateEventHash: (event: NostrEvent) => createHash('sha256')
+      .update(JSON.stringify([0, event.pubkey, event.created_at, event.kind, event.tags, event.content]))
+      .digest('hex')
+  };
+});
+
+describe('NIP-98 auth middleware', () => {
+  const pubkey = 'a'.repeat(64);
+  const url = 'https://api.example.com/v1/upload?draft=1';
+  let mockReq: Partial<Request>;
+  let mockRes: Partial<Response>;
+  let mockNext: NextFunction;
+
+  const sha256 = (data: string) => crypto.createHash('sha256').update(data).digest('hex');
+
+  const makeEvent = (tags: string[][], overrides: Partial<NostrEvent> = {}): NostrEvent => {
+    const event: NostrEvent = {
+      pubkey,
+      created_at: Math.floor(Date.now() / 1000),
+      kind: 27235,
+      tags,
+      content: '',
+      sig: 'f'.repeat(128),
+      ...overrides
+    };
+    event.id = sha256(JSON.stringify([0, event.pubkey, event.created_at, event.kind, event.tags, event.content]));
+    return event;
+  };
+
+  const authorize = (event: NostrEvent) => {
+    mockReq.headers = {
+      ...mockReq.headers,
+      authorization: `Nostr ${Buffer.from(JSON.stringify(event)).toString('base64')}`
+    };
+  };
+
+  beforeEach(() => {
+    mockReq = {
+      method: 'POST',
+      protocol: 'https',
+      originalUrl: '/v1/upload?draft=1',
+      headers: {},
+      get: vi.fn().mockReturnValue('api.example.com') as unknown as Request['get']
+    };
+    mockRes = {
+      json: vi.fn(),
+      status: vi.fn().mockReturnThis(),
+      setHeader: vi.fn()
+    };
+    mockNext = vi.fn();
+  });
+
+  const run = (handler = requireNip98Auth()) =>
+    handler(mockReq as Request, mockRes as Response, mockNext);
+
+  const expectRejected = (code: string) => {
+    expect(mockRes.status).toHaveBeenCalledWith(401);
+    expect(mockRes.json).toHaveBeenCalledWith(expect.objectContaining({ code }));
+    expect(mockNext).not.toHaveBeenCalled();
+  };
+
+  it('should authenticate a request whose u and method tags match', async () => {
+    const event = makeEvent([['u', url], ['method', 'POST']]);
+    authorize(event);
+
+    await run();
+
+    expect(mockNext).toHaveBeenCalledWith();
+    expect(mockReq.nostr).toMatchObject({ pubkey, claims: { pubkey, jti: event.id }, event });
+  });
+
+  it('should reject a request without a Nostr authorization header', async () => {
+    mockReq.headers = { authorization: 'Bearer abc' };
+
+    await run();
+
+    expectRejected('NIP98_MISSING');
+  });
+
+  it('should reject an event of another kind', async () => {
+    authorize(makeEvent([['u', url], ['method', 'POST']], { kind: 22242 }));
+
+    await run();
+
+    expectRejected('NIP98_INVALID');
+  });
+
+  it('should reject an event whose id is not its hash', async () => {
+    authorize({ ...makeEvent([['u', url], ['method', 'POST']]), id: 'e'.repeat(64) });
+
+    await run();
+
+    expectRejected('NIP98_INVALID');
+  });
+
+  it('should reject an event signed for another url', async () => {
+    authorize(makeEvent([['u', 'https://api.example.com/v1/upload'], ['method', 'POST']]));
+
+    await run();
+
+    expectRejected('NIP98_URL_MISMATCH');
+  });
+
+  it('should reject an event signed for another method', async () => {
+    authorize(makeEvent([['u', url], ['method', 'GET']]));
+
+    await run();
+
+    expectRejected('NIP98_METHOD_MISMATCH');
+  });
+
+  it('should pass the time window to validateEvent and report stale events', async () => {
+    vi.mocked(validateEvent).mockResolvedValueOnce({ success: false, error: 'Event timestamp too old', code: 'INVALID_TIMESTAMP' });
+    authorize(makeEvent([['u', url], ['method', 'POST']]));
+
+    await run(requireNip98Auth({ maxAgeSeconds: 30 }));
+
+    expect(validateEvent).toHaveBeenLastCalledWith(expect.anything(), { maxAgeSeconds: 30, maxFutureSeconds: 60 });
+    expectRejected('NIP98_EXPIRED');
+  });
+
+  it('should reject a replayed event', async () => {
+    const handler = requireNip98Auth();
+    authorize(makeEvent([['u', url], ['method', 'POST']]));
+
+    await run(handler);
+    expect(mockNext).toHaveBeenCalledWith();
+
+    mockNext = vi.fn();
+    await run(handler);
+    expectRejected('NIP98_REPLAYED');
+  });
+
+  describe('payload tag', () => {
+    const body = '{"name":"file.txt"}';
+
+    beforeEach(() => {
+      mockReq.headers = { 'content-length': String(body.length) };
+      (mockReq as Request & { rawBody?: Buffer }).rawBody = Buffer.from(body);
+    });
+
+    it('should accept a payload hash matching the raw body', async () => {
+      authorize(makeEvent([['u', url], ['method', 'POST'], ['payload', sha256(body)]]));
+
+      await run();
+
+      expect(mockNext).toHaveBeenCalledWith();
+    });
+
+    it('should reject a payload hash for another body', async () => {
+      authorize(makeEvent([['u', url], ['method', 'POST'], ['payload', sha256('{}')]]));
+
+      await run();
+
+      expectRejected('NIP98_PAYLOAD_MISMATCH');
+    });
+
+    it('should require a payload tag when configured', async () => {
+      authorize(makeEvent([['u', url], ['method', 'POST']]));
+
+      await run(requireNip98Auth({ requirePayload: true }));
+
+      expectRejected('NIP98_PAYLOAD_MISMATCH');
+    });
+
+    it('should not skip the check when the raw body is unavailable', async () => {
+      delete (mockReq as Request & { rawBody?: Buffer }).rawBody;
+      mockReq.body = JSON.parse(body);
+      authorize(makeEvent([['u', url], ['method', 'POST'], ['payload', sha256(body)]]));
+
+      await run();
+
+      expectRejected('NIP98_PAYLOAD_MISMATCH');
+    });
+  });
+});
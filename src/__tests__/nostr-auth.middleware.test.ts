@@ -1,8 +1,11 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { Request, Response, NextFunction } from 'express';
+import type { Store } from 'express-rate-limit';
 import { NostrAuthMiddleware } from '../middleware/nostr-auth.middleware.js';
 import { NostrService } from '../services/nostr.service.js';
-import type { NostrEvent, NostrChallenge, VerificationResult, NostrAuthConfig, JWTExpiresIn } from '../types.js';
+import { AuditLog } from '../services/audit-log.service.js';
+import { MemoryAuditSink } from '../stores/memory-audit-sink.store.js';
+import type { NostrEvent, IssuedChallenge, VerificationResult, NostrAuthConfig, JWTExpiresIn, EnrollmentResult, NostrEnrollment, ApiKeyRecord } from '../types.js';
 
 // Mock NostrService
 vi.mock('../services/nostr.service.js');
@@ -31,11 +34,14 @@ describe('NostrAuthMiddleware', () => {
     mockReq = {
       params: {},
       body: {},
-      headers: {}
+      headers: {},
+      ip: '203.0.113.7'
     };
     mockRes = {
       json: vi.fn(),
-      status: vi.fn().mockReturnThis()
+      status: vi.fn().mockReturnThis(),
+      setHeader: vi.fn(),
+      end: vi.fn()
     };
     mockNext = vi.fn();
 
@@ -43,42 +49,117 @@ describe('NostrAuthMiddleware', () => {
     vi.clearAllMocks();
     mockNostrService = {
       createChallenge: vi.fn(),
+      issueChallenge: vi.fn(),
       verifyChallenge: vi.fn(),
       generateToken: vi.fn(),
+      generateRefreshToken: vi.fn().mockResolvedValue(null),
+      refreshTokens: vi.fn(),
+      revokeToken: vi.fn(),
+      revokeRefreshToken: vi.fn(),
+      revokeAllForPubkey: vi.fn(),
+      enroll: vi.fn(),
+      getEnrollment: vi.fn(),
+      setEnrollmentStatus: vi.fn(),
+      resolveNip05: vi.fn(),
+      reserveNip05Name: vi.fn(),
+      releaseNip05Name: vi.fn(),
+      getNip05Document: vi.fn(),
+      setAccessLists: vi.fn(),
+      getAccessLists: vi.fn().mockReturnValue({ deniedPubkeys: [] }),
     } as unknown as NostrService;
 
     middleware = new NostrAuthMiddleware(testConfig, mockNostrService);
   });
 
   describe('handleChallenge', () => {
-    const mockPubkey = '123abc';
-    const mockChallenge: NostrChallenge = {
-      id: '123',
+    const mockPubkey = '7e7e9c42a91bfef19fa929e5fda1b72e0ebc1a4c1141673e2794234d86addf4e';
+    const mockNpub = 'npub10elfcs4fr0l0r8af98jlmgdh9c8tcxjvz9qkw038js35mp4dma8qzvjptg';
+    const mockChallenge: IssuedChallenge = {
       pubkey: mockPubkey,
-      challenge: 'test-challenge',
-      event: {} as NostrEvent,
-      created_at: 1738971465433,
-      expires_at: 1738971765433
+      challenge: 'nostr-auth: app.example.com abc',
+      nonce: 'abc',
+      domain: 'app.example.com',
+      origin: 'https://app.example.com',
+      issuedAt: 1738971465,
+      expiresAt: 1738971765
     };
 
     beforeEach(() => {
       mockReq.params = { pubkey: mockPubkey };
-      (mockNostrService.createChallenge as any).mockResolvedValue(mockChallenge);
+      mockReq.get = vi.fn().mockReturnValue('https://app.example.com') as unknown as Request['get'];
+      vi.mocked(mockNostrService.issueChallenge).mockResolvedValue(mockChallenge);
     });
 
-    it('should create and return a challenge', async () => {
+    it('should create and return a challenge bound to the request origin', async () => {
       await middleware.handleChallenge(
         mockReq as Request,
         mockRes as Response,
         mockNext
       );
 
-      expect(mockRes.json).toHaveBeenCalledWith({ challenge: mockChallenge });
+      expect(mockNostrService.issueChallenge).toHaveBeenCalledWith(mockPubkey, { origin: 'https://app.example.com', ip: '203.0.113.7' });
+      expect(mockRes.json).toHaveBeenCalledWith(mockChallenge);
+    });
+
+    it('should resolve a NIP-05 identifier to its pubkey', async () => {
+      mockReq.params = { pubkey: 'alice@example.com' };
+      vi.mocked(mockNostrService.resolveNip05).mockResolvedValue({ identifier: 'alice@example.com', pubkey: mockPubkey, relays: [] });
+
+      await middleware.handleChallenge(
+        mockReq as Request,
+        mockRes as Response,
+        mockNext
+      );
+
+      expect(mockNostrService.resolveNip05).toHaveBeenCalledWith('alice@example.com');
+      expect(mockNostrService.issueChallenge).toHaveBeenCalledWith(mockPubkey, { origin: 'https://app.example.com', ip: '203.0.113.7' });
+    });
+
+    it('should accept an npub and include it in the response when enabled', async () => {
+      mockReq.params = { pubkey: mockNpub };
+      middleware = new NostrAuthMiddleware({ ...testConfig, includeNpub: true }, mockNostrService);
+
+      await middleware.handleChallenge(
+        mockReq as Request,
+        mockRes as Response,
+        mockNext
+      );
+
+      expect(mockNostrService.issueChallenge).toHaveBeenCalledWith(mockPubkey, { origin: 'https://app.example.com', ip: '203.0.113.7' });
+      expect(mockRes.json).toHaveBeenCalledWith({ ...mockChallenge, npub: mockNpub });
+    });
+
+    it('should return 400 for a value that is not a pubkey', async () => {
+      mockReq.params = { pubkey: 'npub1notreal' };
+
+      await middleware.handleChallenge(
+        mockReq as Request,
+        mockRes as Response,
+        mockNext
+      );
+
+      expect(mockRes.status).toHaveBeenCalledWith(400);
+      expect(mockNostrService.issueChallenge).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for an unknown NIP-05 identifier', async () => {
+      mockReq.params = { pubkey: 'nobody@example.com' };
+      vi.mocked(mockNostrService.resolveNip05).mockResolvedValue(null);
+
+      await middleware.handleChallenge(
+        mockReq as Request,
+        mockRes as Response,
+        mockNext
+      );
+
+      expect(mockRes.status).toHaveBeenCalledWith(404);
+      expect(mockRes.json).toHaveBeenCalledWith({ error: 'NIP-05 identifier not found' });
+      expect(mockNostrService.issueChallenge).not.toHaveBeenCalled();
     });
 
     it('should handle errors', async () => {
       const error = new Error('Test error');
-      (mockNostrService.createChallenge as any).mockRejectedValue(error);
+      vi.mocked(mockNostrService.issueChallenge).mockRejectedValue(error);
 
       await middleware.handleChallenge(
         mockReq as Request,
@@ -108,8 +189,8 @@ describe('NostrAuthMiddleware', () => {
       };
 
       mockReq.body = { event: mockEvent };
-      (mockNostrService.verifyChallenge as any).mockResolvedValue(mockResult);
-      (mockNostrService.generateToken as any).mockResolvedValue('test-token');
+      vi.mocked(mockNostrService.verifyChallenge).mockResolvedValue(mockResult);
+      vi.mocked(mockNostrService.generateToken).mockResolvedValue('test-token');
 
       await middleware.handleVerification(
         mockReq as Request,
@@ -127,7 +208,7 @@ describe('NostrAuthMiddleware', () => {
       };
 
       mockReq.body = { event: mockEvent };
-      (mockNostrService.verifyChallenge as any).mockResolvedValue(mockResult);
+      vi.mocked(mockNostrService.verifyChallenge).mockResolvedValue(mockResult);
 
       await middleware.handleVerification(
         mockReq as Request,
@@ -138,10 +219,41 @@ describe('NostrAuthMiddleware', () => {
       expect(mockRes.json).toHaveBeenCalledWith(mockResult);
     });
 
+    it('should respond 403 without a token for a forbidden pubkey', async () => {
+      mockReq.body = { event: mockEvent };
+      vi.mocked(mockNostrService.verifyChallenge).mockResolvedValue({ success: false, error: 'Pubkey is not allowed', code: 'PUBKEY_FORBIDDEN' });
+
+      await middleware.handleVerification(
+        mockReq as Request,
+        mockRes as Response,
+        mockNext
+      );
+
+      expect(mockRes.status).toHaveBeenCalledWith(403);
+      expect(mockNostrService.generateToken).not.toHaveBeenCalled();
+    });
+
+    it('should pass the client IP on and audit requests without an event', async () => {
+      const audit = new MemoryAuditSink();
+      middleware = new NostrAuthMiddleware({ ...testConfig, auditLog: new AuditLog([audit]) }, mockNostrService);
+      mockReq.body = { event: mockEvent };
+      vi.mocked(mockNostrService.verifyChallenge).mockResolvedValue({ success: false, error: 'Invalid challenge', code: 'CHALLENGE_MISMATCH' });
+
+      await middleware.handleVerification(mockReq as Request, mockRes as Response, mockNext);
+      expect(mockNostrService.verifyChallenge).toHaveBeenCalledWith(mockEvent, { ip: '203.0.113.7' });
+
+      mockReq.body = {};
+      await middleware.handleVerification(mockReq as Request, mockRes as Response, mockNext);
+      expect(mockRes.status).toHaveBeenLastCalledWith(400);
+      expect(audit.list()).toEqual([
+        expect.objectContaining({ type: 'verify.failed', code: 'INVALID_EVENT', reason: 'Missing event', ip: '203.0.113.7' })
+      ]);
+    });
+
     it('should handle errors', async () => {
       const error = new Error('Test error');
       mockReq.body = { event: mockEvent };
-      (mockNostrService.verifyChallenge as any).mockRejectedValue(error);
+      vi.mocked(mockNostrService.verifyChallenge).mockRejectedValue(error);
 
       await middleware.handleVerification(
         mockReq as Request,
@@ -152,4 +264,331 @@ describe('NostrAuthMiddleware', () => {
       expect(mockNext).toHaveBeenCalledWith(error);
     });
   });
+
+  describe('handleRefresh', () => {
+    it('should reject a request without a refresh token', async () => {
+      await middleware.handleRefresh(
+        mockReq as Request,
+        mockRes as Response,
+        mockNext
+      );
+
+      expect(mockRes.status).toHaveBeenCalledWith(400);
+      expect(mockNostrService.refreshTokens).not.toHaveBeenCalled();
+    });
+
+    it('should return the rotated token pair', async () => {
+      const mockResult = { success: true, pubkey: '123abc', token: 'new-token', refreshToken: 'new-refresh' };
+      mockReq.body = { refreshToken: 'old-refresh' };
+      vi.mocked(mockNostrService.refreshTokens).mockResolvedValue(mockResult);
+
+      await middleware.handleRefresh(
+        mockReq as Request,
+        mockRes as Response,
+        mockNext
+      );
+
+      expect(mockNostrService.refreshTokens).toHaveBeenCalledWith('old-refresh', { ip: '203.0.113.7' });
+      expect(mockRes.json).toHaveBeenCalledWith(mockResult);
+    });
+
+    it('should respond 401 when rotation is refused', async () => {
+      const mockResult = { success: false, error: 'Refresh token reuse detected' };
+      mockReq.body = { refreshToken: 'reused' };
+      vi.mocked(mockNostrService.refreshTokens).mockResolvedValue(mockResult);
+
+      await middleware.handleRefresh(
+        mockReq as Request,
+        mockRes as Response,
+        mockNext
+      );
+
+      expect(mockRes.status).toHaveBeenCalledWith(401);
+      expect(mockRes.json).toHaveBeenCalledWith(mockResult);
+    });
+  });
+
+  describe('handleLogout', () => {
+    it('should revoke the access token and the refresh token family', async () => {
+      const claims = { pubkey: '123abc', jti: 'token-1' };
+      mockReq.nostr = { pubkey: '123abc', claims };
+      mockReq.body = { refreshToken: 'refresh' };
+
+      await middleware.handleLogout(
+        mockReq as Request,
+        mockRes as Response,
+        mockNext
+      );
+
+      expect(mockNostrService.revokeToken).toHaveBeenCalledWith(claims);
+      expect(mockNostrService.revokeRefreshToken).toHaveBeenCalledWith('refresh', '123abc');
+      expect(mockRes.json).toHaveBeenCalledWith({ success: true });
+    });
+  });
+
+  describe('handleRevokePubkey', () => {
+    it('should reject a malformed pubkey', async () => {
+      mockReq.params = { pubkey: 'not-hex' };
+
+      await middleware.handleRevokePubkey(
+        mockReq as Request,
+        mockRes as Response,
+        mockNext
+      );
+
+      expect(mockRes.status).toHaveBeenCalledWith(400);
+      expect(mockNostrService.revokeAllForPubkey).not.toHaveBeenCalled();
+    });
+
+    it('should revoke all tokens for the pubkey', async () => {
+      const pubkey = 'a'.repeat(64);
+      mockReq.params = { pubkey };
+
+      await middleware.handleRevokePubkey(
+        mockReq as Request,
+        mockRes as Response,
+        mockNext
+      );
+
+      expect(mockNostrService.revokeAllForPubkey).toHaveBeenCalledWith(pubkey);
+      expect(mockRes.json).toHaveBeenCalledWith({ success: true, pubkey });
+    });
+  });
+
+  describe('handleEnrollment', () => {
+    it('should reject a request without an event', async () => {
+      await middleware.handleEnrollment(
+        mockReq as Request,
+        mockRes as Response,
+        mockNext
+      );
+
+      expect(mockRes.status).toHaveBeenCalledWith(400);
+      expect(mockNostrService.enroll).not.toHaveBeenCalled();
+    });
+
+    it('should respond 202 while an enrollment awaits approval', async () => {
+      const enrollment: NostrEnrollment = {
+        id: 'enrollment-1',
+        pubkey: '123abc',
+        profile: { id: '123abc', pubkey: '123abc', name: 'alice', created_at: 1738971465, updated_at: 1738971465 },
+        status: 'pending',
+        created_at: 1738971465,
+        updated_at: 1738971465
+      };
+      const mockResult: EnrollmentResult = { success: true, enrollment };
+      mockReq.body = { event: { kind: 22243 } };
+      vi.mocked(mockNostrService.enroll).mockResolvedValue(mockResult);
+
+      await middleware.handleEnrollment(
+        mockReq as Request,
+        mockRes as Response,
+        mockNext
+      );
+
+      expect(mockRes.status).toHaveBeenCalledWith(202);
+      expect(mockRes.json).toHaveBeenCalledWith(mockResult);
+    });
+
+    it('should respond 403 for a rejected enrollment', async () => {
+      const mockResult: EnrollmentResult = { success: false, error: 'Enrollment was rejected', code: 'ENROLLMENT_REJECTED' };
+      mockReq.body = { event: { kind: 22243 } };
+      vi.mocked(mockNostrService.enroll).mockResolvedValue(mockResult);
+
+      await middleware.handleEnrollment(
+        mockReq as Request,
+        mockRes as Response,
+        mockNext
+      );
+
+      expect(mockRes.status).toHaveBeenCalledWith(403);
+    });
+  });
+
+  describe('handleEnrollmentDecision', () => {
+    it('should respond 404 for an unknown pubkey', async () => {
+      mockReq.params = { pubkey: 'a'.repeat(64) };
+      vi.mocked(mockNostrService.setEnrollmentStatus).mockResolvedValue(null);
+
+      await middleware.handleEnrollmentDecision(
+        mockReq as Request,
+        mockRes as Response,
+        mockNext,
+        'completed'
+      );
+
+      expect(mockNostrService.setEnrollmentStatus).toHaveBeenCalledWith('a'.repeat(64), 'completed');
+      expect(mockRes.status).toHaveBeenCalledWith(404);
+    });
+  });
+
+  describe('handleNip05Lookup', () => {
+    it('should serve the document for the requested name with open CORS', async () => {
+      const document = { names: { alice: 'a'.repeat(64) }, relays: {} };
+      mockReq.method = 'GET';
+      mockReq.query = { name: 'alice' };
+      vi.mocked(mockNostrService.getNip05Document).mockResolvedValue(document);
+
+      await middleware.handleNip05Lookup(
+        mockReq as Request,
+        mockRes as Response,
+        mockNext
+      );
+
+      expect(mockNostrService.getNip05Document).toHaveBeenCalledWith('alice');
+      expect(mockRes.setHeader).toHaveBeenCalledWith('Access-Control-Allow-Origin', '*');
+      expect(mockRes.json).toHaveBeenCalledWith(document);
+    });
+
+    it('should answer preflight requests without a body', async () => {
+      mockReq.method = 'OPTIONS';
+
+      await middleware.handleNip05Lookup(
+        mockReq as Request,
+        mockRes as Response,
+        mockNext
+      );
+
+      expect(mockRes.status).toHaveBeenCalledWith(204);
+      expect(mockNostrService.getNip05Document).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleNip05Reserve', () => {
+    it('should respond 409 when the name belongs to another pubkey', async () => {
+      mockReq.params = { name: 'alice' };
+      mockReq.body = { pubkey: 'b'.repeat(64), relays: ['wss://relay.example.com'] };
+      vi.mocked(mockNostrService.reserveNip05Name).mockResolvedValue({ success: false, error: 'Name is already taken', code: 'NAME_TAKEN' });
+
+      await middleware.handleNip05Reserve(
+        mockReq as Request,
+        mockRes as Response,
+        mockNext
+      );
+
+      expect(mockNostrService.reserveNip05Name).toHaveBeenCalledWith('alice', 'b'.repeat(64), ['wss://relay.example.com']);
+      expect(mockRes.status).toHaveBeenCalledWith(409);
+    });
+  });
+
+  describe('handleAccessListsUpdate', () => {
+    it('should replace the lists and return them', () => {
+      mockReq.body = { allowedPubkeys: ['a'.repeat(64)] };
+
+      middleware.handleAccessListsUpdate(mockReq as Request, mockRes as Response);
+
+      expect(mockNostrService.setAccessLists).toHaveBeenCalledWith({ allowedPubkeys: ['a'.repeat(64)], deniedPubkeys: undefined });
+      expect(mockRes.json).toHaveBeenCalledWith({ deniedPubkeys: [] });
+    });
+
+    it('should respond 400 when the service rejects an entry', () => {
+      mockReq.body = { deniedPubkeys: ['nope'] };
+      vi.mocked(mockNostrService.setAccessLists).mockImplementation(() => {
+        throw new Error('Invalid pubkey in access list: nope');
+      });
+
+      middleware.handleAccessListsUpdate(mockReq as Request, mockRes as Response);
+
+      expect(mockRes.status).toHaveBeenCalledWith(400);
+      expect(mockRes.json).toHaveBeenCalledWith({ error: 'Invalid pubkey in access list: nope' });
+    });
+  });
+
+  describe('API key admin routes', () => {
+    it('should return a new key once and never its hash', async () => {
+      mockReq.body = { owner: 'billing', scopes: ['reports:read'] };
+
+      await middleware.handleApiKeyCreate(mockReq as Request, mockRes as Response, mockNext);
+
+      expect(mockRes.status).toHaveBeenCalledWith(201);
+      const body = vi.mocked(mockRes.json!).mock.calls[0][0];
+      expect(body.key).toMatch(/^[0-9a-f]{64}$/);
+      expect(body.apiKey).toMatchObject({ owner: 'billing', scopes: ['reports:read'] });
+      expect(body.apiKey.key_hash).toBeUndefined();
+      expect((await middleware.getApiKeyService().authenticate(body.key))?.id).toBe(body.apiKey.id);
+    });
+
+    it('should respond 404 when rotating an unknown key and 409 when rotating it twice', async () => {
+      const { record } = await middleware.getApiKeyService().create({ owner: 'billing' });
+      mockReq.params = { id: record!.id };
+      mockReq.body = { gracePeriodSeconds: 60 };
+
+      await middleware.handleApiKeyRotate(mockReq as Request, mockRes as Response, mockNext);
+      expect(mockRes.status).toHaveBeenCalledWith(201);
+
+      await middleware.handleApiKeyRotate(mockReq as Request, mockRes as Response, mockNext);
+      expect(mockRes.status).toHaveBeenLastCalledWith(409);
+
+      mockReq.params = { id: 'missing' };
+      await middleware.handleApiKeyRotate(mockReq as Request, mockRes as Response, mockNext);
+      expect(mockRes.status).toHaveBeenLastCalledWith(404);
+    });
+  });
+
+  describe('rate limits', () => {
+    it('should count /challenge per IP even when clients share an app API key', async () => {
+      const counts = new Map<string, number>();
+      const store: Store = {
+        localKeys: true,
+        increment: vi.fn((key: string) => {
+          counts.set(key, (counts.get(key) ?? 0) + 1);
+          return { totalHits: counts.get(key)!, resetTime: new Date(Date.now() + 60000) };
+        }),
+        decrement: vi.fn(),
+        resetKey: vi.fn()
+      };
+      middleware = new NostrAuthMiddleware({
+        ...testConfig,
+        rateLimits: { challenge: { windowMs: 60000, limit: 1 } },
+        createRateLimitStore: () => store
+      }, mockNostrService);
+      const limiter = middleware.getRouter().stack.find(layer => layer.route?.path === '/challenge/:pubkey')!.route!.stack[0].handle;
+      const challenge = (ip: string) => limiter({
+        ...mockReq,
+        ip,
+        method: 'POST',
+        url: '/challenge/abc',
+        apiKey: { id: 'app-key', key_hash: 'f'.repeat(64), owner: 'app', scopes: [], created_at: 0 },
+        app: { get: vi.fn() }
+      } as unknown as Request, { ...mockRes, append: vi.fn(), headersSent: false } as unknown as Response, mockNext);
+
+      await challenge('203.0.113.7');
+      await challenge('203.0.113.7');
+      await challenge('198.51.100.2');
+
+      expect(vi.mocked(store.increment).mock.calls.map(([key]) => key)).toEqual(['ip:203.0.113.7', 'ip:203.0.113.7', 'ip:198.51.100.2']);
+      expect(mockNext).toHaveBeenCalledTimes(2);
+      expect(mockRes.status).toHaveBeenCalledWith(429);
+    });
+
+    it('should count /profile per API key across IPs', async () => {
+      const store: Store = {
+        localKeys: true,
+        increment: vi.fn(() => ({ totalHits: 1, resetTime: new Date(Date.now() + 60000) })),
+        decrement: vi.fn(),
+        resetKey: vi.fn()
+      };
+      middleware = new NostrAuthMiddleware({
+        ...testConfig,
+        rateLimits: { profile: { windowMs: 60000, limit: 10 } },
+        createRateLimitStore: () => store
+      }, mockNostrService);
+      const limiter = middleware.getRouter().stack.find(layer => layer.route?.path === '/profile/:pubkey')!.route!.stack[0].handle;
+      const fetchProfile = (ip: string, apiKey?: ApiKeyRecord) => limiter({
+        ...mockReq,
+        ip,
+        method: 'GET',
+        url: '/profile/abc',
+        apiKey,
+        app: { get: vi.fn() }
+      } as unknown as Request, { ...mockRes, append: vi.fn(), headersSent: false } as unknown as Response, mockNext);
+      const appKey: ApiKeyRecord = { id: 'app-key', key_hash: 'f'.repeat(64), owner: 'app', scopes: [], created_at: 0 };
+
+      await fetchProfile('203.0.113.7', appKey);
+      await fetchProfile('198.51.100.2', appKey);
+      await fetchProfile('198.51.100.2');
+
+      expect(vi.mocked(store.increment).mock.calls.map(([key]) => key)).toEqual(['apikey:app-key', 'apikey:app-key', 'ip:198.51.100.2']);
+    });
+  });
 });
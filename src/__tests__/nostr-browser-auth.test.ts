@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createHash } from 'crypto';
+import { NostrBrowserAuth, getOriginTags } from '../browser/nostr-browser-auth.js';
+import { countLeadingZeroBits } from '../utils/nip13.utils.js';
+import type { NostrEvent } from '../types.js';
+
+describe('NostrBrowserAuth', () => {
+  const pubkey = 'a'.repeat(64);
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should not add origin tags outside a browser', () => {
+    expect(getOriginTags()).toEqual([]);
+  });
+
+  it('should bind the signed challenge to the current page', async () => {
+    const signEvent = vi.fn(async (event: NostrEvent) => ({ ...event, id: 'e'.repeat(64), sig: 'f'.repeat(128) }));
+    vi.stubGlobal('window', {
+      location: { host: 'app.example.com', origin: 'https://app.example.com' },
+      nostr: { getPublicKey: vi.fn().mockResolvedValue(pubkey), signEvent }
+    });
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ challenge: 'nostr-auth: app.example.com abc' })
+    }));
+
+    const auth = new NostrBrowserAuth({ serverUrl: 'https://auth.example.com' });
+    const { signedEvent } = await auth.authenticate();
+
+    expect(signedEvent.tags).toEqual([
+      ['p', pubkey],
+      ['challenge', 'nostr-auth: app.example.com abc'],
+      ['domain', 'app.example.com'],
+      ['origin', 'https://app.example.com']
+    ]);
+  });
+
+  it('should mine a nonce that gives the event id the difficulty', async () => {
+    const event = {
+      pubkey,
+      created_at: 1700000000,
+      kind: 22242,
+      tags: [['challenge', 'nostr-auth: abc pow=8']],
+      content: 'Sign this message to authenticate: nostr-auth: abc pow=8'
+    } as NostrEvent;
+
+    const mined = await new NostrBrowserAuth().mineProofOfWork(event, 8);
+    const id = createHash('sha256')
+      .update(JSON.stringify([0, mined.pubkey, mined.created_at, mined.kind, mined.tags, mined.content]))
+      .digest('hex');
+
+    expect(mined.tags[0]).toEqual(['challenge', 'nostr-auth: abc pow=8']);
+    expect(mined.tags[1]).toEqual(['nonce', expect.stringMatching(/^\d+$/), '8']);
+    expect(countLeadingZeroBits(id)).toBeGreaterThanOrEqual(8);
+  });
+
+  it('should mine before signing when the server requires proof of work', async () => {
+    const signEvent = vi.fn(async (event: NostrEvent) => ({ ...event, id: 'e'.repeat(64), sig: 'f'.repeat(128) }));
+    vi.stubGlobal('window', { nostr: { getPublicKey: vi.fn().mockResolvedValue(pubkey), signEvent } });
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ challenge: 'nostr-auth: abc pow=4', powDifficulty: 4 })
+    }));
+
+    const { signedEvent } = await new NostrBrowserAuth({ serverUrl: 'https://auth.example.com' }).authenticate();
+
+    expect(signedEvent.tags.find(tag => tag[0] === 'nonce')?.[2]).toBe('4');
+  });
+});
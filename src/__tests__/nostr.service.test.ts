@@ -0,0 +1,705 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createHash, generateKeyPairSync } from 'crypto';
+import { NostrService } from '../services/nostr.service.js';
+import { AuditLog } from '../services/audit-log.service.js';
+import { MemoryRefreshTokenStore } from '../stores/memory-refresh-token.store.js';
+import { MemoryAuditSink } from '../stores/memory-audit-sink.store.js';
+import { countLeadingZeroBits } from '../utils/nip13.utils.js';
+import type { NostrAuthConfig, NostrEvent, NostrProfile } from '../types.js';
+
+// Mock nostr-crypto-utils: NIP-01 ids are computed for real, signatures are accepted unless marked bad
+vi.mock('nostr-crypto-utils', () => ({
+  verifySignature: vi.fn(async (event: NostrEvent) => event.sig !== '0'.repeat(128)),
+  calculateEventId: vi.fn((event: NostrEvent) => createHash('sha256')
+    .update(JSON.stringify([0, event.pubkey, event.created_at, event.kind, event.tags, event.content]))
+    .digest('hex'))
+}));
+
+describe('NostrService', () => {
+  let service: NostrService;
+  const pubkey = 'a'.repeat(64);
+
+  const config: NostrAuthConfig = {
+    jwtSecret: 'test-secret-key',
+    jwtExpiresIn: '1h',
+    eventTimeoutMs: 300000,
+    keyManagementMode: 'development'
+  };
+
+  const signedEvent = (challenge: string, overrides: Partial<NostrEvent> = {}): NostrEvent => {
+    const event: NostrEvent = {
+      pubkey,
+      created_at: Math.floor(Date.now() / 1000),
+      kind: 22242,
+      tags: [['challenge', challenge]],
+      content: `Sign this message to authenticate: ${challenge}`,
+      sig: 'f'.repeat(128),
+      ...overrides
+    };
+    event.id = createHash('sha256')
+      .update(JSON.stringify([0, event.pubkey, event.created_at, event.kind, event.tags, event.content]))
+      .digest('hex');
+    return event;
+  };
+
+  beforeEach(() => {
+    service = new NostrService(config);
+  });
+
+  afterEach(() => {
+    service.destroy();
+  });
+
+  describe('verifyChallenge', () => {
+    it('should accept the challenge carried in the challenge tag', async () => {
+      const challenge = await service.createChallenge(pubkey);
+
+      const result = await service.verifyChallenge(signedEvent(challenge));
+      expect(result).toEqual({ success: true, pubkey });
+    });
+
+    it('should reject a challenge carried only in the content', async () => {
+      const challenge = await service.createChallenge(pubkey);
+
+      const result = await service.verifyChallenge(signedEvent(challenge, { tags: [], content: challenge }));
+      expect(result).toEqual({ success: false, error: 'Missing challenge tag', code: 'MISSING_CHALLENGE_TAG' });
+    });
+
+    it('should reject a signed note of another kind', async () => {
+      const challenge = await service.createChallenge(pubkey);
+
+      const result = await service.verifyChallenge(signedEvent(challenge, { kind: 1 }));
+      expect(result).toEqual({ success: false, error: 'Invalid event kind', code: 'INVALID_KIND' });
+    });
+
+    it('should enforce the configured customKind', async () => {
+      const custom = new NostrService({ ...config, customKind: 27000 });
+      try {
+        const challenge = await custom.createChallenge(pubkey);
+
+        expect((await custom.verifyChallenge(signedEvent(challenge))).code).toBe('INVALID_KIND');
+        expect((await custom.verifyChallenge(signedEvent(challenge, { kind: 27000 }))).success).toBe(true);
+      } finally {
+        custom.destroy();
+      }
+    });
+
+    it('should reject an event whose id does not match its contents', async () => {
+      const challenge = await service.createChallenge(pubkey);
+
+      const result = await service.verifyChallenge({ ...signedEvent(challenge), content: 'tampered' });
+      expect(result.code).toBe('EVENT_ID_MISMATCH');
+    });
+
+    it('should reject an invalid signature', async () => {
+      const challenge = await service.createChallenge(pubkey);
+
+      const result = await service.verifyChallenge(signedEvent(challenge, { sig: '0'.repeat(128) }));
+      expect(result.code).toBe('INVALID_SIGNATURE');
+    });
+
+    it('should reject an event that does not answer an issued challenge', async () => {
+      await service.createChallenge(pubkey);
+
+      const result = await service.verifyChallenge(signedEvent('nostr:auth: forged'));
+      expect(result).toEqual({ success: false, error: 'Challenge not found', code: 'CHALLENGE_NOT_FOUND' });
+    });
+
+    it('should support several outstanding challenges per pubkey', async () => {
+      const first = await service.createChallenge(pubkey);
+      const second = await service.createChallenge(pubkey);
+
+      expect((await service.verifyChallenge(signedEvent(second))).success).toBe(true);
+      expect((await service.verifyChallenge(signedEvent(first))).success).toBe(true);
+    });
+
+    it('should only let one of two parallel verifications succeed', async () => {
+      const challenge = await service.createChallenge(pubkey);
+
+      const results = await Promise.all([
+        service.verifyChallenge(signedEvent(challenge)),
+        service.verifyChallenge(signedEvent(challenge))
+      ]);
+
+      expect(results.filter(r => r.success)).toHaveLength(1);
+    });
+
+    it('should not accept a challenge issued to another pubkey', async () => {
+      const challenge = await service.createChallenge('b'.repeat(64));
+
+      const result = await service.verifyChallenge(signedEvent(challenge));
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('asymmetric tokens', () => {
+    it('should sign with jwtSigningKey and publish its JWKS', async () => {
+      const { privateKey } = generateKeyPairSync('ed25519');
+      const asymmetric = new NostrService({
+        ...config,
+        jwtSecret: undefined,
+        jwtSigningKey: { algorithm: 'EdDSA', privateKey: privateKey.export({ format: 'pem', type: 'pkcs8' }) as string }
+      });
+
+      try {
+        const token = await asymmetric.generateToken(pubkey);
+        const { keys } = asymmetric.getJWKS();
+
+        expect(keys).toHaveLength(1);
+        expect(keys[0]).toMatchObject({ kty: 'OKP', crv: 'Ed25519', alg: 'EdDSA', use: 'sig' });
+        expect((await asymmetric.verifyToken(token)).pubkey).toBe(pubkey);
+      } finally {
+        asymmetric.destroy();
+      }
+    });
+
+    it('should publish no keys for HS256 tokens', () => {
+      expect(service.getJWKS()).toEqual({ keys: [] });
+    });
+  });
+
+  describe('refresh tokens', () => {
+    let refreshing: NostrService;
+
+    beforeEach(() => {
+      refreshing = new NostrService({ ...config, refreshTokenStore: new MemoryRefreshTokenStore() });
+    });
+
+    afterEach(() => {
+      refreshing.destroy();
+    });
+
+    it('should not issue refresh tokens without a store', async () => {
+      expect(await service.generateRefreshToken(pubkey)).toBeNull();
+      expect(await service.refreshTokens('anything')).toEqual({ success: false, error: 'Refresh tokens are not enabled' });
+    });
+
+    it('should rotate a refresh token into a new pair', async () => {
+      const refreshToken = (await refreshing.generateRefreshToken(pubkey))!;
+
+      const result = await refreshing.refreshTokens(refreshToken);
+      expect(result.success).toBe(true);
+      expect(result.refreshToken).toBeDefined();
+      expect(result.refreshToken).not.toBe(refreshToken);
+      expect((await refreshing.verifyToken(result.token!)).pubkey).toBe(pubkey);
+    });
+
+    it('should revoke the whole family when a rotated token is reused', async () => {
+      const original = (await refreshing.generateRefreshToken(pubkey))!;
+      const rotated = await refreshing.refreshTokens(original);
+
+      expect(await refreshing.refreshTokens(original)).toEqual({ success: false, error: 'Refresh token reuse detected' });
+      expect(await refreshing.refreshTokens(rotated.refreshToken!)).toEqual({ success: false, error: 'Invalid refresh token' });
+    });
+
+    it('should only let one of two parallel refreshes succeed', async () => {
+      const refreshToken = (await refreshing.generateRefreshToken(pubkey))!;
+
+      const results = await Promise.all([
+        refreshing.refreshTokens(refreshToken),
+        refreshing.refreshTokens(refreshToken)
+      ]);
+
+      expect(results.filter(r => r.success)).toHaveLength(1);
+    });
+
+    it('should reject an unknown refresh token', async () => {
+      expect(await refreshing.refreshTokens('not-issued')).toEqual({ success: false, error: 'Invalid refresh token' });
+    });
+  });
+
+  describe('revocation', () => {
+    it('should reject a token after it is revoked', async () => {
+      const token = await service.generateToken(pubkey);
+      const claims = await service.verifyToken(token);
+
+      await service.revokeToken(claims);
+      await expect(service.verifyToken(token)).rejects.toThrow('JWT revoked');
+    });
+
+    it('should revoke every token and refresh token for a pubkey', async () => {
+      const refreshing = new NostrService({ ...config, refreshTokenStore: new MemoryRefreshTokenStore() });
+      try {
+        const token = await refreshing.generateToken(pubkey);
+        const other = await refreshing.generateToken('b'.repeat(64));
+        const refreshToken = (await refreshing.generateRefreshToken(pubkey))!;
+
+        await refreshing.revokeAllForPubkey(pubkey);
+
+        await expect(refreshing.verifyToken(token)).rejects.toThrow('JWT revoked');
+        expect((await refreshing.verifyToken(other)).pubkey).toBe('b'.repeat(64));
+        expect((await refreshing.refreshTokens(refreshToken)).success).toBe(false);
+      } finally {
+        refreshing.destroy();
+      }
+    });
+
+    it('should revoke a token issued in the same second as a revoke-all', async () => {
+      vi.spyOn(Date, 'now').mockReturnValue(Date.now());
+      try {
+        const token = await service.generateToken(pubkey);
+        await service.revokeAllForPubkey(pubkey);
+
+        await expect(service.verifyToken(token)).rejects.toThrow('JWT revoked');
+      } finally {
+        vi.mocked(Date.now).mockRestore();
+      }
+    });
+
+    it('should only revoke refresh tokens owned by the caller', async () => {
+      const refreshing = new NostrService({ ...config, refreshTokenStore: new MemoryRefreshTokenStore() });
+      try {
+        const refreshToken = (await refreshing.generateRefreshToken(pubkey))!;
+
+        expect(await refreshing.revokeRefreshToken(refreshToken, 'b'.repeat(64))).toBe(false);
+        expect(await refreshing.revokeRefreshToken(refreshToken, pubkey)).toBe(true);
+        expect((await refreshing.refreshTokens(refreshToken)).error).toBe('Invalid refresh token');
+      } finally {
+        refreshing.destroy();
+      }
+    });
+  });
+
+  describe('claims resolver', () => {
+    it('should merge resolved claims into the token and pass the login event', async () => {
+      const claimsResolver = vi.fn(async () => ({ roles: ['admin'], scopes: ['posts:write'], tier: 'gold' }));
+      const resolving = new NostrService({ ...config, claimsResolver });
+      try {
+        const event = signedEvent('challenge');
+        const claims = await resolving.verifyToken(await resolving.generateToken(pubkey, event));
+
+        expect(claimsResolver).toHaveBeenCalledWith(pubkey, event);
+        expect(claims).toMatchObject({ pubkey, roles: ['admin'], scopes: ['posts:write'], tier: 'gold' });
+      } finally {
+        resolving.destroy();
+      }
+    });
+
+    it('should ignore reserved claims and malformed roles', async () => {
+      const resolving = new NostrService({
+        ...config,
+        claimsResolver: () => ({ pubkey: 'b'.repeat(64), exp: 1, jti: 'forged', roles: 'admin' as unknown as string[] })
+      });
+      try {
+        const claims = await resolving.verifyToken(await resolving.generateToken(pubkey));
+
+        expect(claims.pubkey).toBe(pubkey);
+        expect(claims.jti).not.toBe('forged');
+        expect(claims.exp).toBeGreaterThan(Math.floor(Date.now() / 1000));
+        expect(claims.roles).toBeUndefined();
+      } finally {
+        resolving.destroy();
+      }
+    });
+
+    it('should not issue a token when the resolver fails', async () => {
+      const resolving = new NostrService({ ...config, claimsResolver: async () => { throw new Error('directory down'); } });
+      try {
+        await expect(resolving.generateToken(pubkey)).rejects.toThrow('directory down');
+      } finally {
+        resolving.destroy();
+      }
+    });
+  });
+
+  describe('access policy', () => {
+    const other = 'b'.repeat(64);
+
+    const login = async (target: NostrService, key = pubkey) => {
+      const challenge = await target.createChallenge(key);
+      return target.verifyChallenge(signedEvent(challenge, { pubkey: key }));
+    };
+
+    it('should refuse denied pubkeys and pubkeys missing from the allow list', async () => {
+      const listed = new NostrService({ ...config, allowedPubkeys: [pubkey, other], deniedPubkeys: [other] });
+      try {
+        expect((await login(listed)).success).toBe(true);
+        expect(await login(listed, other)).toEqual({ success: false, error: 'Pubkey is not allowed', code: 'PUBKEY_FORBIDDEN' });
+        expect((await login(listed, 'c'.repeat(64))).code).toBe('PUBKEY_FORBIDDEN');
+      } finally {
+        listed.destroy();
+      }
+    });
+
+    it('should apply replaced lists without a restart', async () => {
+      service.setAccessLists({ deniedPubkeys: [pubkey] });
+      expect((await login(service)).code).toBe('PUBKEY_FORBIDDEN');
+
+      service.setAccessLists({ allowedPubkeys: [pubkey] });
+      expect((await login(service)).success).toBe(true);
+      expect(service.getAccessLists()).toEqual({ allowedPubkeys: [pubkey], deniedPubkeys: [] });
+    });
+
+    it('should keep the current lists when an entry is invalid', () => {
+      service.setAccessLists({ deniedPubkeys: [pubkey] });
+
+      expect(() => service.setAccessLists({ deniedPubkeys: ['not-a-pubkey'] })).toThrow('Invalid pubkey in access list: not-a-pubkey');
+      expect(service.getAccessLists().deniedPubkeys).toEqual([pubkey]);
+    });
+
+    it('should consult the async callback and refuse when it throws', async () => {
+      const accessPolicy = vi.fn(async (key: string) => {
+        if (key === other) {
+          throw new Error('lookup failed');
+        }
+        return key === pubkey;
+      });
+      const policed = new NostrService({ ...config, accessPolicy });
+      try {
+        expect((await login(policed)).success).toBe(true);
+        expect(accessPolicy).toHaveBeenCalledWith(pubkey, expect.objectContaining({ kind: 22242 }));
+        expect((await login(policed, other)).code).toBe('PUBKEY_FORBIDDEN');
+      } finally {
+        policed.destroy();
+      }
+    });
+
+    it('should refuse to refresh tokens of a pubkey denied after login', async () => {
+      const refreshing = new NostrService({ ...config, refreshTokenStore: new MemoryRefreshTokenStore() });
+      try {
+        const refreshToken = (await refreshing.generateRefreshToken(pubkey))!;
+        refreshing.setAccessLists({ deniedPubkeys: [pubkey] });
+
+        expect(await refreshing.refreshTokens(refreshToken)).toEqual({ success: false, error: 'Pubkey is not allowed' });
+      } finally {
+        refreshing.destroy();
+      }
+    });
+  });
+
+  describe('NIP-05', () => {
+    let verifying: NostrService;
+    const fetchMock = vi.fn();
+    const profile = { id: '1', pubkey, nip05: 'alice@example.com', created_at: 1000, updated_at: 1000 };
+    // getStoredProfile is private; stub it to skip the database
+    const storedProfile = () => vi.spyOn(verifying as unknown as { getStoredProfile: () => Promise<NostrProfile | null> }, 'getStoredProfile');
+
+    beforeEach(() => {
+      fetchMock.mockReset().mockImplementation(async () => new Response(JSON.stringify({
+        names: { alice: pubkey },
+        relays: { [pubkey]: ['wss://relay.example.com'] }
+      })));
+      verifying = new NostrService({ ...config, nip05Fetch: fetchMock, nip05LookupHost: async () => ['93.184.215.14'], nip05InToken: true, nip05Domains: ['example.com'] });
+      storedProfile().mockResolvedValue(profile);
+    });
+
+    afterEach(() => {
+      verifying.destroy();
+    });
+
+    it('should mark a profile nip05 as verified and add its relay hints', async () => {
+      expect(await verifying.getProfile(pubkey)).toEqual({ ...profile, nip05Verified: true, relays: ['wss://relay.example.com'] });
+    });
+
+    it('should not verify a nip05 that maps to another pubkey', async () => {
+      storedProfile().mockResolvedValue({ ...profile, pubkey: 'b'.repeat(64) });
+
+      expect((await verifying.getProfile('b'.repeat(64)))?.nip05Verified).toBe(false);
+    });
+
+    it('should add verified nip05 and relays claims to tokens', async () => {
+      const claims = await verifying.verifyToken(await verifying.generateToken(pubkey));
+
+      expect(claims.nip05).toBe('alice@example.com');
+      expect(claims.relays).toEqual(['wss://relay.example.com']);
+    });
+
+    it('should issue tokens without NIP-05 claims when the lookup is slow', async () => {
+      vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+      try {
+        storedProfile().mockReturnValue(new Promise(() => {}));
+        const token = verifying.generateToken(pubkey);
+        await vi.advanceTimersByTimeAsync(2000);
+
+        const claims = await verifying.verifyToken(await token);
+        expect(claims.pubkey).toBe(pubkey);
+        expect(claims.nip05).toBeUndefined();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should add the npub claim when includeNpub is set', async () => {
+      const npubService = new NostrService({ ...config, includeNpub: true });
+      try {
+        const claims = await npubService.verifyToken(await npubService.generateToken(pubkey));
+        expect(claims.npub).toMatch(/^npub1[02-9ac-hj-np-z]{58}$/);
+      } finally {
+        npubService.destroy();
+      }
+    });
+
+    it('should only resolve identifiers on allowed domains', async () => {
+      expect((await verifying.resolveNip05('alice@example.com'))?.pubkey).toBe(pubkey);
+      expect(await verifying.resolveNip05('alice@other.example.org')).toBeNull();
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not resolve identifiers without nip05Domains unless nip05AnyDomain is set', async () => {
+      const unrestricted = (nip05AnyDomain?: boolean) => new NostrService({ ...config, nip05Fetch: fetchMock, nip05LookupHost: async () => ['93.184.215.14'], nip05AnyDomain });
+      const closed = unrestricted();
+      const open = unrestricted(true);
+      try {
+        expect(await closed.resolveNip05('alice@example.com')).toBeNull();
+        expect(fetchMock).not.toHaveBeenCalled();
+        expect((await open.resolveNip05('alice@example.com'))?.pubkey).toBe(pubkey);
+      } finally {
+        closed.destroy();
+        open.destroy();
+      }
+    });
+  });
+
+  describe('NIP-05 names', () => {
+    const enroll = () => service.enroll(signedEvent('', { kind: 22243, tags: [['action', 'enroll']], content: '{}' }));
+
+    it('should publish a reserved name once its pubkey is enrolled', async () => {
+      const result = await service.reserveNip05Name('Alice', pubkey, ['wss://relay.example.com']);
+      expect(result.name).toMatchObject({ name: 'alice', pubkey, relays: ['wss://relay.example.com'] });
+      expect(await service.getNip05Document('alice')).toEqual({ names: {}, relays: {} });
+
+      await enroll();
+      expect(await service.getNip05Document('ALICE')).toEqual({
+        names: { alice: pubkey },
+        relays: { [pubkey]: ['wss://relay.example.com'] }
+      });
+    });
+
+    it('should not hand a taken name to another pubkey', async () => {
+      await service.reserveNip05Name('alice', pubkey);
+
+      expect((await service.reserveNip05Name('alice', 'b'.repeat(64))).code).toBe('NAME_TAKEN');
+      expect((await service.reserveNip05Name('alice', pubkey, ['wss://relay.example.com'])).success).toBe(true);
+    });
+
+    it('should reject invalid names, pubkeys and relay URLs', async () => {
+      expect((await service.reserveNip05Name('al ice', pubkey)).code).toBe('INVALID_NAME');
+      expect((await service.reserveNip05Name('alice', 'xyz')).code).toBe('INVALID_NAME');
+      expect((await service.reserveNip05Name('alice', pubkey, ['https://example.com'])).code).toBe('INVALID_NAME');
+    });
+
+    it('should stop publishing a released name', async () => {
+      await enroll();
+      await service.reserveNip05Name('alice', pubkey);
+
+      expect(await service.releaseNip05Name('alice')).toBe(true);
+      expect(await service.releaseNip05Name('alice')).toBe(false);
+      expect((await service.getNip05Document('alice')).names).toEqual({});
+    });
+  });
+
+  describe('proof of work', () => {
+    let mining: NostrService;
+
+    const mine = (challenge: string, difficulty: number, target: number = difficulty): NostrEvent => {
+      for (let nonce = 0; ; nonce++) {
+        const event = signedEvent(challenge, { tags: [['challenge', challenge], ['nonce', String(nonce), String(target)]] });
+        if (countLeadingZeroBits(event.id!) >= difficulty) {
+          return event;
+        }
+      }
+    };
+
+    beforeEach(() => {
+      mining = new NostrService({ ...config, proofOfWork: { difficulty: 4, challengesPerStep: 2, maxDifficulty: 6 } });
+    });
+
+    afterEach(() => {
+      mining.destroy();
+    });
+
+    it('should announce the difficulty and only accept events that meet it', async () => {
+      const issued = await mining.issueChallenge(pubkey);
+      expect(issued.powDifficulty).toBe(4);
+      expect(issued.challenge).toMatch(/ pow=4$/);
+
+      const unmined = signedEvent(issued.challenge);
+      expect(await mining.verifyChallenge(unmined)).toMatchObject({ success: false, code: 'POW_INSUFFICIENT', data: { difficulty: 4 } });
+
+      expect(await mining.verifyChallenge(mine(issued.challenge, 4))).toEqual({ success: true, pubkey });
+    });
+
+    it('should require the nonce tag to commit to the difficulty', async () => {
+      const issued = await mining.issueChallenge(pubkey);
+
+      expect((await mining.verifyChallenge(mine(issued.challenge, 4, 1))).code).toBe('POW_INSUFFICIENT');
+    });
+
+    it('should raise the difficulty under load up to maxDifficulty', async () => {
+      const difficulties: number[] = [];
+      for (let i = 0; i < 8; i++) {
+        difficulties.push((await mining.issueChallenge(pubkey)).powDifficulty!);
+      }
+
+      expect(difficulties).toEqual([4, 5, 5, 6, 6, 6, 6, 6]);
+    });
+
+    it('should reject a misconfigured difficulty', () => {
+      expect(() => new NostrService({ ...config, proofOfWork: { difficulty: -1 } })).toThrow('Proof-of-work difficulty');
+    });
+  });
+
+  describe('audit log', () => {
+    let audit: MemoryAuditSink;
+    let audited: NostrService;
+
+    beforeEach(() => {
+      audit = new MemoryAuditSink();
+      audited = new NostrService({ ...config, refreshTokenStore: new MemoryRefreshTokenStore(), auditLog: new AuditLog([audit]) });
+    });
+
+    afterEach(() => {
+      audited.destroy();
+    });
+
+    it('should record issued challenges and verification results with the client IP', async () => {
+      const issued = await audited.issueChallenge(pubkey, { ip: '203.0.113.7' });
+      await audited.verifyChallenge(signedEvent(issued.challenge, { kind: 1 }), { ip: '203.0.113.7' });
+      await audited.verifyChallenge(signedEvent(issued.challenge), { ip: '203.0.113.7' });
+
+      expect(audit.list().map(({ created_at: _createdAt, ...event }) => event)).toEqual([
+        { type: 'challenge.issued', pubkey, ip: '203.0.113.7' },
+        { type: 'verify.failed', pubkey, code: 'INVALID_KIND', reason: 'Invalid event kind', ip: '203.0.113.7' },
+        { type: 'verify.succeeded', pubkey, ip: '203.0.113.7' }
+      ]);
+    });
+
+    it('should leave out a malformed claimed pubkey', async () => {
+      await audited.verifyChallenge(signedEvent('nostr-auth: abc', { pubkey: 'not-a-pubkey' }));
+
+      const [event] = audit.list('verify.failed');
+      expect(event).toMatchObject({ type: 'verify.failed' });
+      expect(event).not.toHaveProperty('pubkey', 'not-a-pubkey');
+    });
+
+    it('should record refreshed tokens but not refused refreshes', async () => {
+      const refreshToken = (await audited.generateRefreshToken(pubkey))!;
+      await audited.refreshTokens(refreshToken, { ip: '203.0.113.7' });
+      await audited.refreshTokens('not-issued');
+
+      expect(audit.list()).toEqual([expect.objectContaining({ type: 'token.refreshed', pubkey, ip: '203.0.113.7' })]);
+    });
+  });
+
+  describe('domain binding', () => {
+    let bound: NostrService;
+    const origin = 'https://app.example.com';
+    const bindingTags = (challenge: string, domain: string, tagOrigin: string) =>
+      [['challenge', challenge], ['domain', domain], ['origin', tagOrigin]];
+
+    beforeEach(() => {
+      bound = new NostrService({ ...config, allowedDomains: ['app.example.com'], allowedOrigins: [origin] });
+    });
+
+    afterEach(() => {
+      bound.destroy();
+    });
+
+    it('should issue a structured challenge for an allowed origin', async () => {
+      const issued = await bound.issueChallenge(pubkey, { origin });
+
+      expect(issued).toMatchObject({ domain: 'app.example.com', origin });
+      expect(issued.challenge).toBe(`nostr-auth: app.example.com ${issued.nonce}`);
+      expect(issued.expiresAt - issued.issuedAt).toBe(300);
+    });
+
+    it('should not echo an origin that is not allowed', async () => {
+      const issued = await bound.issueChallenge(pubkey, { origin: 'https://evil.example.com' });
+
+      expect(issued.origin).toBeUndefined();
+      expect(issued.domain).toBe('app.example.com');
+    });
+
+    it('should accept an event signed on an allowed origin', async () => {
+      const { challenge } = await bound.issueChallenge(pubkey, { origin });
+
+      const result = await bound.verifyChallenge(signedEvent(challenge, { tags: bindingTags(challenge, 'app.example.com', origin) }));
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject a challenge relayed through another site', async () => {
+      const { challenge } = await bound.issueChallenge(pubkey, { origin });
+
+      const result = await bound.verifyChallenge(signedEvent(challenge, {
+        tags: bindingTags(challenge, 'evil.example.com', 'https://evil.example.com')
+      }));
+      expect(result.code).toBe('DOMAIN_NOT_ALLOWED');
+    });
+
+    it('should require the tags when allow-lists are configured', async () => {
+      const { challenge } = await bound.issueChallenge(pubkey, { origin });
+
+      expect((await bound.verifyChallenge(signedEvent(challenge))).code).toBe('DOMAIN_NOT_ALLOWED');
+      expect((await bound.verifyChallenge(signedEvent(challenge, {
+        tags: [['challenge', challenge], ['domain', 'app.example.com']]
+      }))).code).toBe('ORIGIN_NOT_ALLOWED');
+    });
+  });
+
+  describe('enroll', () => {
+    const enrollmentEvent = (content = '{"name":"alice","about":"hi","picture":42}', createdAt = Math.floor(Date.now() / 1000)) =>
+      signedEvent('', { kind: 22243, tags: [['action', 'enroll']], content, created_at: createdAt });
+
+    it('should complete a valid enrollment and keep its profile', async () => {
+      const result = await service.enroll(enrollmentEvent());
+
+      expect(result.success).toBe(true);
+      expect(result.enrollment).toMatchObject({ pubkey, status: 'completed', profile: { pubkey, name: 'alice', about: 'hi' } });
+      expect(result.enrollment!.profile.picture).toBeUndefined();
+      expect(await service.getEnrollment(pubkey)).toEqual(result.enrollment);
+    });
+
+    it('should reject an event without the enroll action', async () => {
+      const result = await service.enroll(signedEvent('', { kind: 22243, tags: [] }));
+
+      expect(result).toEqual({ success: false, error: 'Invalid enrollment event', code: 'INVALID_ENROLLMENT' });
+      expect(await service.getEnrollment(pubkey)).toBeNull();
+    });
+
+    it('should not roll the profile back to an older event', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      await service.enroll(enrollmentEvent('{"name":"new"}', now));
+
+      const result = await service.enroll(enrollmentEvent('{"name":"old"}', now - 10));
+      expect(result.enrollment!.profile.name).toBe('new');
+    });
+
+    describe('with manual approval and required enrollment', () => {
+      let gated: NostrService;
+
+      beforeEach(() => {
+        gated = new NostrService({ ...config, enrollmentApproval: 'manual', requireEnrollment: true, refreshTokenStore: new MemoryRefreshTokenStore() });
+      });
+
+      afterEach(() => {
+        gated.destroy();
+      });
+
+      it('should only issue tokens once the enrollment is approved', async () => {
+        expect((await gated.enroll(enrollmentEvent())).enrollment!.status).toBe('pending');
+        const pending = await gated.createChallenge(pubkey);
+        expect(await gated.verifyChallenge(signedEvent(pending))).toEqual({ success: false, error: 'Pubkey is not enrolled', code: 'NOT_ENROLLED' });
+
+        await gated.setEnrollmentStatus(pubkey, 'completed');
+        const approved = await gated.createChallenge(pubkey);
+        expect((await gated.verifyChallenge(signedEvent(approved))).success).toBe(true);
+      });
+
+      it('should not let a rejected pubkey enroll again', async () => {
+        await gated.enroll(enrollmentEvent());
+        await gated.setEnrollmentStatus(pubkey, 'failed');
+
+        expect((await gated.enroll(enrollmentEvent())).code).toBe('ENROLLMENT_REJECTED');
+      });
+
+      it('should refuse to refresh tokens once the enrollment is rejected', async () => {
+        await gated.enroll(enrollmentEvent());
+        await gated.setEnrollmentStatus(pubkey, 'completed');
+        const refreshToken = (await gated.generateRefreshToken(pubkey))!;
+        await gated.setEnrollmentStatus(pubkey, 'failed');
+
+        expect(await gated.refreshTokens(refreshToken)).toEqual({ success: false, error: 'Pubkey is not enrolled' });
+      });
+    });
+  });
+});
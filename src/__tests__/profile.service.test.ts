@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createHash } from 'crypto';
+import { ProfileService } from '../services/profile.service.js';
+import type { RelayWebSocket } from '../services/relay-pool.service.js';
+import type { NostrFilter } from '../interfaces/nostr.interface.js';
+import type { NostrEvent } from '../types.js';
+
+// Mock nostr-crypto-utils: NIP-01 ids are computed for real, signatures are accepted unless marked bad
+vi.mock('nostr-crypto-utils', () => ({
+  verifySignature: vi.fn(async (event: NostrEvent) => event.sig !== '0'.repeat(128)),
+  calculateEventId: vi.fn((event: NostrEvent) => createHash('sha256')
+    .update(JSON.stringify([0, event.pubkey, event.created_at, event.kind, event.tags, event.content]))
+    .digest('hex'))
+}));
+
+/**
+ * Local relay stand-in: answers REQ with its stored events matching kind and author, then EOSE
+ */
+class FakeRelay {
+  readonly requests: NostrFilter[] = [];
+
+  constructor(public events: NostrEvent[] = [], private readonly silent = false) {}
+
+  connect(): RelayWebSocket {
+    const socket: RelayWebSocket = {
+      onopen: null,
+      onmessage: null,
+      onerror: null,
+      onclose: null,
+      send: (data: string) => {
+        const [type, subscriptionId, filter] = JSON.parse(data);
+        if (type !== 'REQ' || this.silent) {
+          return;
+        }
+        this.requests.push(filter);
+        const matches = this.events.filter(e => filter.kinds.includes(e.kind) && filter.authors.includes(e.pubkey));
+        setTimeout(() => {
+          for (const event of matches) {
+            socket.onmessage?.({ data: JSON.stringify(['EVENT', subscriptionId, event]) });
+          }
+          socket.onmessage?.({ data: JSON.stringify(['EOSE', subscriptionId]) });
+        });
+      },
+      close: vi.fn()
+    };
+    setTimeout(() => socket.onopen?.({}));
+    return socket;
+  }
+}
+
+describe('ProfileService', () => {
+  const pubkey = 'a'.repeat(64);
+  let relays: Record<string, FakeRelay>;
+
+  const metadata = (content: Record<string, unknown>, createdAt: number, overrides: Partial<NostrEvent> = {}): NostrEvent => {
+    const event: NostrEvent = {
+      pubkey,
+      created_at: createdAt,
+      kind: 0,
+      tags: [],
+      content: JSON.stringify(content),
+      sig: 'f'.repeat(128),
+      ...overrides
+    };
+    event.id = createHash('sha256')
+      .update(JSON.stringify([0, event.pubkey, event.created_at, event.kind, event.tags, event.content]))
+      .digest('hex');
+    return event;
+  };
+
+  const createService = (options: { cacheTtlMs?: number; timeoutMs?: number } = {}) => new ProfileService({
+    relays: Object.keys(relays),
+    createWebSocket: (url) => relays[url].connect(),
+    ...options
+  });
+
+  beforeEach(() => {
+    relays = {
+      'wss://one.example.com': new FakeRelay([metadata({ name: 'old' }, 1000)]),
+      'wss://two.example.com': new FakeRelay([
+        metadata({ name: 'alice', about: 'hi', picture: 'https://example.com/a.png', nip05: 'alice@example.com', lud16: 'x' }, 2000)
+      ])
+    };
+  });
+
+  it('should return the newest kind 0 profile across relays', async () => {
+    const profile = await createService().getProfile(pubkey);
+
+    expect(profile).toEqual({
+      id: relays['wss://two.example.com'].events[0].id,
+      pubkey,
+      name: 'alice',
+      about: 'hi',
+      picture: 'https://example.com/a.png',
+      nip05: 'alice@example.com',
+      created_at: 2000,
+      updated_at: 2000
+    });
+    expect(relays['wss://one.example.com'].requests).toEqual([{ kinds: [0], authors: [pubkey], limit: 1 }]);
+  });
+
+  it('should ignore events with a bad signature, id or author', async () => {
+    const forged = metadata({ name: 'mallory' }, 3000, { sig: '0'.repeat(128) });
+    const tampered = { ...metadata({ name: 'mallory' }, 3000), content: '{"name":"eve"}' };
+    const impostor = metadata({ name: 'bob' }, 3000, { pubkey: 'b'.repeat(64) });
+    relays['wss://two.example.com'].events.push(forged, tampered, impostor);
+
+    expect((await createService().getProfile(pubkey))?.name).toBe('alice');
+  });
+
+  it('should serve cached profiles until the TTL expires', async () => {
+    const service = createService({ cacheTtlMs: 1000 });
+    await service.getProfile(pubkey);
+    relays['wss://two.example.com'].events.push(metadata({ name: 'renamed' }, 3000));
+
+    expect((await service.getProfile(pubkey))?.name).toBe('alice');
+    expect(relays['wss://two.example.com'].requests).toHaveLength(1);
+
+    const now = Date.now();
+    vi.spyOn(Date, 'now').mockReturnValue(now + 1001);
+    expect((await service.getProfile(pubkey))?.name).toBe('renamed');
+    vi.mocked(Date.now).mockRestore();
+  });
+
+  it('should not wait longer than the timeout for a silent relay', async () => {
+    relays['wss://one.example.com'] = new FakeRelay([], true);
+
+    const profile = await createService({ timeoutMs: 50 }).getProfile(pubkey);
+    expect(profile?.name).toBe('alice');
+  });
+
+  it('should return null when no relay has metadata', async () => {
+    expect(await createService().getProfile('b'.repeat(64))).toBeNull();
+  });
+});
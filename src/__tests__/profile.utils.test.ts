@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { parseProfileMetadata } from '../utils/profile.utils.js';
+import type { NostrEvent } from '../types.js';
+
+describe('profile utilities', () => {
+  const event = (content: string): NostrEvent => ({
+    id: '1'.repeat(64),
+    pubkey: 'a'.repeat(64),
+    created_at: 1700000000,
+    kind: 0,
+    tags: [],
+    content,
+    sig: 'f'.repeat(128)
+  });
+
+  it('should copy the string profile fields', () => {
+    expect(parseProfileMetadata(event(JSON.stringify({ name: 'alice', nip05: 'alice@example.com', picture: 42, website: 'https://example.com' })))).toEqual({
+      id: '1'.repeat(64),
+      pubkey: 'a'.repeat(64),
+      name: 'alice',
+      nip05: 'alice@example.com',
+      created_at: 1700000000,
+      updated_at: 1700000000
+    });
+  });
+
+  it('should ignore content that is not a JSON object', () => {
+    for (const content of ['hello', '["alice"]', 'null']) {
+      expect(parseProfileMetadata(event(content))).toEqual({
+        id: '1'.repeat(64),
+        pubkey: 'a'.repeat(64),
+        created_at: 1700000000,
+        updated_at: 1700000000
+      });
+    }
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createHash } from 'crypto';
+import { RelayAuthService, type RelaySocketAdapter } from '../services/relay-auth.service.js';
+import type { NostrEvent } from '../types.js';
+
+// Mock nostr-crypto-utils: NIP-01 ids are computed for real, signatures are accepted unless marked bad
+vi.mock('nostr-crypto-utils', () => ({
+  verifySignature: vi.fn(async (event: NostrEvent) => event.sig !== '0'.repeat(128)),
+  calculateEventId: vi.fn((event: NostrEvent) => createHash('sha256')
+    .update(JSON.stringify([0, event.pubkey, event.created_at, event.kind, event.tags, event.content]))
+    .digest('hex'))
+}));
+
+describe('RelayAuthService', () => {
+  const relayUrl = 'wss://relay.example.com';
+  const pubkey = 'a'.repeat(64);
+  let service: RelayAuthService;
+  let sent: unknown[][];
+  let socket: { send: (data: string) => void };
+
+  const authEvent = (challenge: string, overrides: Partial<NostrEvent> = {}): NostrEvent => {
+    const event: NostrEvent = {
+      pubkey,
+      created_at: Math.floor(Date.now() / 1000),
+      kind: 22242,
+      tags: [['relay', 'wss://Relay.Example.com/'], ['challenge', challenge]],
+      content: '',
+      sig: 'f'.repeat(128),
+      ...overrides
+    };
+    event.id = createHash('sha256')
+      .update(JSON.stringify([0, event.pubkey, event.created_at, event.kind, event.tags, event.content]))
+      .digest('hex');
+    return event;
+  };
+
+  beforeEach(() => {
+    service = new RelayAuthService({ relayUrl });
+    sent = [];
+    socket = { send: (data: string) => sent.push(JSON.parse(data)) };
+  });
+
+  it('should send a fresh AUTH challenge per connection', () => {
+    const first = service.challenge(socket);
+    const second = service.challenge({ send: vi.fn() });
+
+    expect(sent).toEqual([['AUTH', first]]);
+    expect(first).not.toBe(second);
+  });
+
+  it('should accept an event for this relay and challenge', async () => {
+    const challenge = service.challenge(socket);
+    const event = authEvent(challenge);
+
+    const result = await service.authenticate(socket, event);
+
+    expect(result).toEqual({ success: true, pubkey });
+    expect(sent[1]).toEqual(['OK', event.id, true, '']);
+    expect(service.isAuthenticated(socket, pubkey)).toBe(true);
+    expect(service.getAuthenticatedPubkeys(socket)).toEqual([pubkey]);
+  });
+
+  it('should reject a challenge issued to another connection', async () => {
+    service.challenge(socket);
+    const otherChallenge = service.challenge({ send: vi.fn() });
+
+    const result = await service.authenticate(socket, authEvent(otherChallenge));
+
+    expect(result).toEqual({ success: false, error: 'Challenge mismatch', code: 'CHALLENGE_MISMATCH' });
+    expect(sent[1]).toEqual(['OK', expect.any(String), false, 'invalid: challenge mismatch']);
+    expect(service.isAuthenticated(socket)).toBe(false);
+  });
+
+  it('should reject an event signed for another relay', async () => {
+    const challenge = service.challenge(socket);
+    const event = authEvent(challenge, { tags: [['relay', 'wss://evil.example.com'], ['challenge', challenge]] });
+
+    expect(await service.authenticate(socket, event)).toEqual({ success: false, error: 'Relay mismatch', code: 'RELAY_MISMATCH' });
+  });
+
+  it('should apply the kind 22242 checks of validateChallengeEvent', async () => {
+    const challenge = service.challenge(socket);
+
+    expect((await service.authenticate(socket, authEvent(challenge, { kind: 1 }))).error).toBe('Invalid event kind');
+    expect((await service.authenticate(socket, { ...authEvent(challenge), id: 'e'.repeat(64) })).error).toBe('Event hash mismatch');
+    expect((await service.authenticate(socket, authEvent(challenge, { sig: '0'.repeat(128) }))).error).toBe('Invalid signature');
+  });
+
+  it('should reject AUTH before a challenge was issued', async () => {
+    expect(await service.authenticate(socket, authEvent('anything'))).toEqual({ success: false, error: 'No challenge issued', code: 'CHALLENGE_NOT_FOUND' });
+  });
+
+  it('should only intercept AUTH messages', async () => {
+    const challenge = service.challenge(socket);
+
+    expect(await service.handleMessage(socket, JSON.stringify(['REQ', 'sub', {}]))).toBe(false);
+    expect(await service.handleMessage(socket, 'not json')).toBe(false);
+    expect(await service.handleMessage(socket, JSON.stringify(['AUTH', authEvent(challenge)]))).toBe(true);
+    expect(service.isAuthenticated(socket)).toBe(true);
+  });
+
+  it('should wire a connection through the adapter', async () => {
+    let deliver: (data: string) => void = () => {};
+    let close: () => void = () => {};
+    const adapter: RelaySocketAdapter = {
+      send: socket.send,
+      onMessage: (listener) => { deliver = listener; },
+      onClose: (listener) => { close = listener; }
+    };
+    const forwarded = vi.fn();
+
+    service.attach(adapter, forwarded);
+    const [, challenge] = sent[0] as [string, string];
+
+    deliver(JSON.stringify(['REQ', 'sub', {}]));
+    deliver(JSON.stringify(['AUTH', authEvent(challenge)]));
+    await vi.waitFor(() => expect(service.isAuthenticated(adapter)).toBe(true));
+    expect(forwarded).toHaveBeenCalledTimes(1);
+
+    close();
+    expect(service.isAuthenticated(adapter)).toBe(false);
+  });
+});
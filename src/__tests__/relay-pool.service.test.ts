@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RelayPool, parseRelayMessage, type RelayWebSocket } from '../services/relay-pool.service.js';
+import type { NostrEvent } from '../types.js';
+
+/**
+ * Local relay stand-in: serves its stored events to every REQ and answers EVENT with OK
+ */
+class FakeRelay {
+  readonly received: unknown[][] = [];
+  readonly sockets: RelayWebSocket[] = [];
+  events: NostrEvent[] = [];
+  accept = true;
+  silent = false;
+  refuse = 0;
+
+  connect(): RelayWebSocket {
+    if (this.refuse > 0) {
+      this.refuse--;
+      throw new Error('connection refused');
+    }
+
+    const socket: RelayWebSocket = {
+      onopen: null,
+      onmessage: null,
+      onerror: null,
+      onclose: null,
+      send: (data: string) => {
+        const message = JSON.parse(data);
+        this.received.push(message);
+        if (this.silent) {
+          return;
+        }
+        const reply = (frame: unknown[]) => socket.onmessage?.({ data: JSON.stringify(frame) });
+        if (message[0] === 'REQ') {
+          for (const event of this.events) {
+            reply(['EVENT', message[1], event]);
+          }
+          reply(['EOSE', message[1]]);
+        } else if (message[0] === 'EVENT') {
+          reply(['OK', message[1].id, this.accept, this.accept ? '' : 'blocked: not allowed']);
+        }
+      },
+      close: vi.fn()
+    };
+    this.sockets.push(socket);
+    setTimeout(() => socket.onopen?.({}));
+    return socket;
+  }
+
+  /** Simulates the relay dropping the current connection */
+  drop(): void {
+    this.sockets[this.sockets.length - 1].onclose?.({});
+  }
+}
+
+describe('RelayPool', () => {
+  let relays: Record<string, FakeRelay>;
+  let pool: RelayPool;
+
+  const event = (id: string): NostrEvent => ({
+    id: id.repeat(64),
+    pubkey: 'a'.repeat(64),
+    created_at: 1000,
+    kind: 1,
+    tags: [],
+    content: '',
+    sig: 'f'.repeat(128)
+  });
+
+  const createPool = (options: { timeoutMs?: number } = {}) => new RelayPool(Object.keys(relays), {
+    createWebSocket: (url) => relays[url].connect(),
+    minReconnectDelayMs: 100,
+    maxReconnectDelayMs: 400,
+    ...options
+  });
+
+  beforeEach(() => {
+    relays = { 'wss://one.example.com': new FakeRelay(), 'wss://two.example.com': new FakeRelay() };
+    pool = createPool();
+  });
+
+  afterEach(() => {
+    pool.close();
+    vi.useRealTimers();
+  });
+
+  it('should collect events from every relay until EOSE and then CLOSE', async () => {
+    relays['wss://one.example.com'].events = [event('1'), event('2')];
+    relays['wss://two.example.com'].events = [event('2'), event('3')];
+
+    const events = await pool.query([{ kinds: [1] }]);
+
+    expect(events.map(e => e.id![0]).sort()).toEqual(['1', '2', '3']);
+    const [req, close] = relays['wss://one.example.com'].received;
+    expect(req).toEqual(['REQ', expect.any(String), { kinds: [1] }]);
+    expect(close).toEqual(['CLOSE', req[1]]);
+  });
+
+  it('should stop waiting for a relay after the timeout', async () => {
+    relays['wss://two.example.com'].silent = true;
+    relays['wss://one.example.com'].events = [event('1')];
+
+    const events = await createPool({ timeoutMs: 30 }).query([{ kinds: [1] }]);
+
+    expect(events).toHaveLength(1);
+  });
+
+  it('should not wait for a relay that cannot be reached', async () => {
+    relays['wss://two.example.com'].refuse = 1;
+    relays['wss://one.example.com'].events = [event('1')];
+
+    expect(await pool.query([{ kinds: [1] }])).toHaveLength(1);
+  });
+
+  it('should report OK acknowledgements per relay', async () => {
+    relays['wss://two.example.com'].accept = false;
+
+    const results = await pool.publish(event('1'));
+
+    expect(results).toEqual([
+      { relay: 'wss://one.example.com', accepted: true, message: '' },
+      { relay: 'wss://two.example.com', accepted: false, message: 'blocked: not allowed' }
+    ]);
+  });
+
+  it('should time out a publish that is never acknowledged', async () => {
+    relays['wss://two.example.com'].silent = true;
+
+    const results = await createPool({ timeoutMs: 30 }).publish(event('1'));
+
+    expect(results[1]).toEqual({ relay: 'wss://two.example.com', accepted: false, message: 'timeout: no OK from relay' });
+  });
+
+  it('should reconnect with backoff and re-send open subscriptions', async () => {
+    vi.useFakeTimers();
+    const relay = relays['wss://one.example.com'];
+    const onEvent = vi.fn();
+    const onError = vi.fn();
+    pool.subscribe([{ kinds: [1] }], { onEvent, onError });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(pool.isConnected('wss://one.example.com')).toBe(true);
+
+    relay.refuse = 2;
+    relay.events = [event('1')];
+    relay.drop();
+    expect(onError).toHaveBeenCalledWith('wss://one.example.com', 'connection closed');
+
+    await vi.advanceTimersByTimeAsync(100); // first retry is refused
+    await vi.advanceTimersByTimeAsync(200); // second retry is refused
+    expect(relay.sockets).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(410); // third retry connects
+
+    expect(relay.sockets).toHaveLength(2);
+    expect(relay.received.filter(m => m[0] === 'REQ')).toHaveLength(2);
+    expect(onEvent).toHaveBeenCalledWith(event('1'), 'wss://one.example.com');
+  });
+
+  it('should not reconnect once nothing is subscribed', async () => {
+    vi.useFakeTimers();
+    const relay = relays['wss://one.example.com'];
+    const subscription = pool.subscribe([{ kinds: [1] }], { onEvent: vi.fn() });
+    await vi.advanceTimersByTimeAsync(0);
+
+    subscription.close();
+    relay.drop();
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(relay.sockets).toHaveLength(1);
+  });
+
+  it('should parse relay messages into NostrMessage', () => {
+    expect(parseRelayMessage('["OK","abc",true,"duplicate:"]')).toEqual({ type: 'OK', eventId: 'abc', accepted: true, message: 'duplicate:' });
+    expect(parseRelayMessage('["CLOSED","sub","error: shutting down"]')).toEqual({ type: 'CLOSED', subscriptionId: 'sub', message: 'error: shutting down' });
+    expect(parseRelayMessage('["EVENT","sub"]')).toBeNull();
+    expect(parseRelayMessage('not json')).toBeNull();
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Request, Response, NextFunction } from 'express';
+import type { Store } from 'express-rate-limit';
+import { createIpWhitelist, createRateLimiter, requireApiKey } from '../middleware/security.middleware.js';
+import { ApiKeyService } from '../services/api-key.service.js';
+import { AuditLog } from '../services/audit-log.service.js';
+import { MemoryAuditSink } from '../stores/memory-audit-sink.store.js';
+
+describe('Security middleware', () => {
+  let mockReq: Partial<Request>;
+  let mockRes: Partial<Response>;
+  let mockNext: NextFunction;
+
+  const run = (handler: (req: Request, res: Response, next: NextFunction) => unknown) =>
+    handler(mockReq as Request, mockRes as Response, mockNext);
+
+  beforeEach(() => {
+    mockReq = {
+      ip: '203.0.113.7',
+      method: 'POST',
+      url: '/challenge',
+      headers: {},
+      header: vi.fn((name: string) => (mockReq.headers as Record<string, string>)[name.toLowerCase()]) as unknown as Request['header'],
+      app: { get: vi.fn() } as unknown as Request['app']
+    };
+    mockRes = {
+      json: vi.fn(),
+      status: vi.fn().mockReturnThis(),
+      setHeader: vi.fn(),
+      append: vi.fn(),
+      headersSent: false
+    } as Partial<Response>;
+    mockNext = vi.fn();
+  });
+
+  describe('createRateLimiter', () => {
+    let counts: Map<string, number>;
+    let store: Store;
+
+    beforeEach(() => {
+      counts = new Map();
+      store = {
+        localKeys: true,
+        increment: vi.fn((key: string) => {
+          counts.set(key, (counts.get(key) ?? 0) + 1);
+          return { totalHits: counts.get(key)!, resetTime: new Date(Date.now() + 60000) };
+        }),
+        decrement: vi.fn(),
+        resetKey: vi.fn()
+      };
+    });
+
+    it('should count authenticated pubkeys separately behind one IP', async () => {
+      const limiter = createRateLimiter({ limit: 1, store });
+
+      mockReq.nostr = { pubkey: 'a'.repeat(64), claims: { pubkey: 'a'.repeat(64) } };
+      await run(limiter);
+      mockReq.nostr = { pubkey: 'b'.repeat(64), claims: { pubkey: 'b'.repeat(64) } };
+      await run(limiter);
+
+      expect(store.increment).toHaveBeenCalledWith(`pubkey:${'a'.repeat(64)}`);
+      expect(store.increment).toHaveBeenCalledWith(`pubkey:${'b'.repeat(64)}`);
+      expect(mockNext).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fall back along keyBy to the API key and then the IP', async () => {
+      const limiter = createRateLimiter({ store, keyBy: ['pubkey', 'apiKey', 'ip'] });
+
+      mockReq.apiKey = { id: 'key-1', key_hash: 'f'.repeat(64), owner: 'billing', scopes: [], created_at: 0 };
+      await run(limiter);
+      mockReq.apiKey = undefined;
+      await run(limiter);
+
+      expect(vi.mocked(store.increment).mock.calls.map(([key]) => key)).toEqual(['apikey:key-1', 'ip:203.0.113.7']);
+    });
+
+    it('should respond 429 once a client exceeds the limit', async () => {
+      const limiter = createRateLimiter({ limit: 1, store, keyBy: ['ip'] });
+
+      await run(limiter);
+      await run(limiter);
+
+      expect(mockNext).toHaveBeenCalledTimes(1);
+      expect(mockRes.status).toHaveBeenCalledWith(429);
+      expect(mockRes.json).toHaveBeenCalledWith({ error: 'Too many requests, please try again later' });
+    });
+  });
+
+  describe('requireApiKey', () => {
+    let apiKeys: ApiKeyService;
+
+    beforeEach(() => {
+      apiKeys = new ApiKeyService();
+    });
+
+    it('should attach the managed key and enforce its scopes', async () => {
+      const { key, record } = await apiKeys.create({ owner: 'billing', scopes: ['reports:read'] });
+      mockReq.headers = { 'x-api-key': key! };
+
+      await run(requireApiKey(apiKeys, { scopes: ['reports:read'] }));
+      expect(mockNext).toHaveBeenCalledWith();
+      expect(mockReq.apiKey?.id).toBe(record!.id);
+
+      await run(requireApiKey(apiKeys, { scopes: ['reports:write'] }));
+      expect(mockRes.status).toHaveBeenCalledWith(403);
+      expect(mockRes.json).toHaveBeenCalledWith({ error: 'Insufficient scope', code: 'INSUFFICIENT_SCOPE' });
+    });
+
+    it('should accept static keys and reject unknown ones', async () => {
+      mockReq.headers = { 'x-api-key': 'legacy-key' };
+      await run(requireApiKey(apiKeys, { staticKeys: ['legacy-key'] }));
+      expect(mockNext).toHaveBeenCalledWith();
+
+      mockReq.headers = { 'x-api-key': 'unknown-key' };
+      await run(requireApiKey(apiKeys, { staticKeys: ['legacy-key'] }));
+      expect(mockRes.status).toHaveBeenCalledWith(401);
+      expect(mockRes.json).toHaveBeenCalledWith({ error: 'Invalid API key' });
+    });
+
+    it('should audit each rejection with its reason', async () => {
+      const audit = new MemoryAuditSink();
+      const { key, record } = await apiKeys.create({ owner: 'billing' });
+      const guard = requireApiKey(apiKeys, { scopes: ['reports:read'], auditLog: new AuditLog([audit]) });
+
+      await run(guard);
+      mockReq.headers = { 'x-api-key': 'unknown-key' };
+      await run(guard);
+      mockReq.headers = { 'x-api-key': key! };
+      await run(guard);
+
+      expect(audit.list().map(({ created_at: _createdAt, ...event }) => event)).toEqual([
+        { type: 'api_key.rejected', reason: 'missing', ip: '203.0.113.7' },
+        { type: 'api_key.rejected', reason: 'invalid', ip: '203.0.113.7' },
+        { type: 'api_key.rejected', reason: 'insufficient_scope', keyId: record!.id, ip: '203.0.113.7' }
+      ]);
+    });
+  });
+
+  describe('createIpWhitelist', () => {
+    it('should only let listed IPs through and audit the others', async () => {
+      const audit = new MemoryAuditSink();
+      const whitelist = createIpWhitelist({ allowedIPs: ['198.51.100.1'], auditLog: new AuditLog([audit]) });
+
+      await run(whitelist);
+      expect(mockRes.status).toHaveBeenCalledWith(403);
+      expect(audit.list()).toEqual([expect.objectContaining({ type: 'ip.blocked', ip: '203.0.113.7' })]);
+
+      await run(createIpWhitelist({ allowedIPs: ['203.0.113.7'] }));
+      expect(mockNext).toHaveBeenCalledWith();
+    });
+  });
+});
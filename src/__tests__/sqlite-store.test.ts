@@ -0,0 +1,200 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  openSqliteDatabase,
+  SqliteChallengeStore,
+  SqliteSessionStore,
+  SqliteRefreshTokenStore,
+  SqliteRevocationStore,
+  SqliteReplayStore,
+  SqliteEnrollmentStore,
+  SqliteNip05NameStore,
+  SqliteApiKeyStore
+} from '../stores/sqlite.store.js';
+import type { StoredChallenge } from '../stores/challenge.store.js';
+
+describe('SQLite stores', () => {
+  let dir: string;
+  let filename: string;
+  const now = Math.floor(Date.now() / 1000);
+  const pubkey = 'a'.repeat(64);
+
+  const makeChallenge = (overrides: Partial<StoredChallenge> = {}): StoredChallenge => ({
+    id: 'challenge-id',
+    pubkey,
+    challenge: 'nostr:auth: abc',
+    created_at: now,
+    expires_at: now + 300,
+    ...overrides
+  });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'nostr-auth-sqlite-'));
+    filename = path.join(dir, 'store.db');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('SqliteChallengeStore', () => {
+    it('should keep outstanding challenges across a reopen', async () => {
+      const first = new SqliteChallengeStore(await openSqliteDatabase(filename));
+      await first.put(makeChallenge());
+
+      const reopened = new SqliteChallengeStore(await openSqliteDatabase(filename));
+      expect(await reopened.consume(pubkey, 'nostr:auth: abc')).toEqual(makeChallenge());
+    });
+
+    it('should consume a challenge exactly once', async () => {
+      const store = new SqliteChallengeStore(await openSqliteDatabase(filename));
+      await store.put(makeChallenge());
+
+      const results = await Promise.all([
+        store.consume(pubkey, 'nostr:auth: abc'),
+        store.consume(pubkey, 'nostr:auth: abc')
+      ]);
+      expect(results.filter(Boolean)).toHaveLength(1);
+    });
+
+    it('should sweep expired challenges', async () => {
+      const store = new SqliteChallengeStore(await openSqliteDatabase(filename));
+      await store.put(makeChallenge({ id: 'old', challenge: 'old', expires_at: now - 1 }));
+      await store.put(makeChallenge({ id: 'fresh', challenge: 'fresh' }));
+
+      expect(await store.expire(now)).toBe(1);
+      expect(await store.consume(pubkey, 'old')).toBeNull();
+      expect(await store.consume(pubkey, 'fresh')).not.toBeNull();
+    });
+  });
+
+  describe('SqliteSessionStore', () => {
+    it('should store, fetch, sweep and delete sessions', async () => {
+      const store = new SqliteSessionStore(await openSqliteDatabase(filename));
+      await store.put({ jti: 'live', pubkey, issued_at: now, expires_at: now + 3600 });
+      await store.put({ jti: 'stale', pubkey, issued_at: now - 7200, expires_at: now - 3600 });
+
+      expect(await store.get('live')).toEqual({ jti: 'live', pubkey, issued_at: now, expires_at: now + 3600 });
+      expect(await store.expire(now)).toBe(1);
+      expect(await store.get('stale')).toBeNull();
+      expect(await store.delete('live')).toBe(true);
+      expect(await store.get('live')).toBeNull();
+    });
+  });
+
+  describe('SqliteRefreshTokenStore', () => {
+    it('should let exactly one caller rotate a token and revoke its family', async () => {
+      const store = new SqliteRefreshTokenStore(await openSqliteDatabase(filename));
+      const token = { token_hash: 'hash-1', family: 'fam', pubkey, issued_at: now, expires_at: now + 3600, used_at: null };
+      await store.put(token);
+      await store.put({ ...token, token_hash: 'hash-2' });
+
+      expect(await store.markUsed('hash-1', now)).toEqual(token);
+      expect((await store.markUsed('hash-1', now + 1))?.used_at).toBe(now);
+      expect(await store.markUsed('unknown', now)).toBeNull();
+      expect(await store.revokeFamily('fam')).toBe(2);
+      expect(await store.markUsed('hash-2', now)).toBeNull();
+    });
+
+    it('should remove every token issued to a pubkey', async () => {
+      const store = new SqliteRefreshTokenStore(await openSqliteDatabase(filename));
+      const token = { token_hash: 'hash-1', family: 'fam-1', pubkey, issued_at: now, expires_at: now + 3600, used_at: null };
+      await store.put(token);
+      await store.put({ ...token, token_hash: 'hash-2', family: 'fam-2' });
+      await store.put({ ...token, token_hash: 'hash-3', pubkey: 'b'.repeat(64) });
+
+      expect(await store.revokePubkey(pubkey)).toBe(2);
+      expect(await store.get('hash-1')).toBeNull();
+      expect(await store.get('hash-3')).toEqual({ ...token, token_hash: 'hash-3', pubkey: 'b'.repeat(64) });
+    });
+  });
+
+  describe('SqliteRevocationStore', () => {
+    it('should persist token and pubkey revocations across a reopen', async () => {
+      const first = new SqliteRevocationStore(await openSqliteDatabase(filename));
+      await first.revokeToken('jti-1', now + 3600);
+      await first.revokePubkey(pubkey, now, now + 3600);
+
+      const second = new SqliteRevocationStore(await openSqliteDatabase(filename));
+      expect(await second.isRevoked('jti-1', 'b'.repeat(64), now)).toBe(true);
+      expect(await second.isRevoked('jti-2', pubkey, now)).toBe(true);
+      expect(await second.isRevoked('jti-2', pubkey, now + 1)).toBe(false);
+      expect(await second.isRevoked(undefined, 'b'.repeat(64), now)).toBe(false);
+    });
+
+    it('should sweep revocations once the tokens they cover have expired', async () => {
+      const store = new SqliteRevocationStore(await openSqliteDatabase(filename));
+      await store.revokeToken('old', now - 1);
+      await store.revokePubkey(pubkey, now - 3600, now - 1);
+      await store.revokeToken('live', now + 3600);
+
+      expect(await store.expire(now)).toBe(2);
+      expect(await store.isRevoked('old', pubkey, now - 7200)).toBe(false);
+      expect(await store.isRevoked('live', pubkey, now)).toBe(true);
+    });
+  });
+
+  describe('SqliteReplayStore', () => {
+    it('should accept an event id once until it expires', async () => {
+      const store = new SqliteReplayStore(await openSqliteDatabase(filename));
+
+      expect(await store.markSeen('event-1', now + 60)).toBe(true);
+      expect(await store.markSeen('event-1', now + 60)).toBe(false);
+      expect(await store.expire(now + 61)).toBe(1);
+      expect(await store.markSeen('event-1', now + 120)).toBe(true);
+    });
+  });
+
+  describe('SqliteEnrollmentStore', () => {
+    it('should keep enrollments and their profile across a reopen', async () => {
+      const enrollment = {
+        id: 'event-id',
+        pubkey,
+        profile: { id: 'event-id', pubkey, name: 'alice', created_at: now, updated_at: now },
+        status: 'pending' as const,
+        created_at: now,
+        updated_at: now
+      };
+      const first = new SqliteEnrollmentStore(await openSqliteDatabase(filename));
+      await first.put(enrollment);
+
+      const reopened = new SqliteEnrollmentStore(await openSqliteDatabase(filename));
+      expect(await reopened.get(pubkey)).toEqual(enrollment);
+      expect(await reopened.setStatus(pubkey, 'completed', now + 1)).toEqual({ ...enrollment, status: 'completed', updated_at: now + 1 });
+      expect(await reopened.setStatus('b'.repeat(64), 'failed', now)).toBeNull();
+    });
+  });
+
+  describe('SqliteNip05NameStore', () => {
+    it('should keep names and their relays across a reopen', async () => {
+      const record = { name: 'alice', pubkey, relays: ['wss://relay.example.com'], created_at: now, updated_at: now };
+      const first = new SqliteNip05NameStore(await openSqliteDatabase(filename));
+      await first.put(record);
+
+      const reopened = new SqliteNip05NameStore(await openSqliteDatabase(filename));
+      expect(await reopened.get('alice')).toEqual(record);
+      expect(await reopened.delete('alice')).toBe(true);
+      expect(await reopened.delete('alice')).toBe(false);
+      expect(await reopened.get('alice')).toBeNull();
+    });
+  });
+
+  describe('SqliteApiKeyStore', () => {
+    it('should find keys by hash and keep last-used times across a reopen', async () => {
+      const record = { id: 'key-1', key_hash: 'f'.repeat(64), owner: 'billing', scopes: ['reports:read'], created_at: now, expires_at: now + 60 };
+      const first = new SqliteApiKeyStore(await openSqliteDatabase(filename));
+      await first.put(record);
+      await first.put({ id: 'key-2', key_hash: 'e'.repeat(64), owner: 'search', scopes: [], created_at: now + 1 });
+      await first.touch('key-1', now + 5);
+
+      const reopened = new SqliteApiKeyStore(await openSqliteDatabase(filename));
+      expect(await reopened.findByHash('f'.repeat(64))).toEqual({ ...record, last_used_at: now + 5 });
+      expect((await reopened.list()).map(key => key.id)).toEqual(['key-1', 'key-2']);
+      expect(await reopened.list('search')).toEqual([{ id: 'key-2', key_hash: 'e'.repeat(64), owner: 'search', scopes: [], created_at: now + 1 }]);
+      expect(await reopened.delete('key-1')).toBe(true);
+      expect(await reopened.get('key-1')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+import { requireNostrAuth, optionalNostrAuth, requireRole, requireScope } from '../middleware/token-auth.middleware.js';
+import { generateJWT } from '../utils/jwt.utils.js';
+import { MemoryRevocationStore } from '../stores/memory-revocation.store.js';
+
+describe('Token auth middleware', () => {
+  const secret = 'test-secret-key';
+  const pubkey = 'a'.repeat(64);
+  let mockReq: Partial<Request>;
+  let mockRes: Partial<Response>;
+  let mockNext: NextFunction;
+
+  beforeEach(() => {
+    mockReq = { headers: {} };
+    mockRes = {
+      json: vi.fn(),
+      status: vi.fn().mockReturnThis(),
+      setHeader: vi.fn()
+    };
+    mockNext = vi.fn();
+  });
+
+  const run = (handler: ReturnType<typeof requireNostrAuth>) =>
+    handler(mockReq as Request, mockRes as Response, mockNext);
+
+  describe('requireNostrAuth', () => {
+    it('should throw without a secret or verifier', () => {
+      expect(() => requireNostrAuth({})).toThrow('JWT secret is required');
+    });
+
+    it('should attach req.nostr for a valid token', async () => {
+      const token = generateJWT(pubkey, secret, '1h', { jwtid: 'token-1' });
+      mockReq.headers = { authorization: `Bearer ${token}` };
+
+      await run(requireNostrAuth({ jwtSecret: secret }));
+
+      expect(mockNext).toHaveBeenCalledWith();
+      expect(mockReq.nostr?.pubkey).toBe(pubkey);
+      expect(mockReq.nostr?.claims.jti).toBe('token-1');
+    });
+
+    it('should reject a missing token', async () => {
+      await run(requireNostrAuth({ jwtSecret: secret }));
+
+      expect(mockRes.status).toHaveBeenCalledWith(401);
+      expect(mockRes.json).toHaveBeenCalledWith({ error: 'Missing bearer token', code: 'TOKEN_MISSING' });
+      expect(mockNext).not.toHaveBeenCalled();
+    });
+
+    it('should reject a token signed with another secret', async () => {
+      mockReq.headers = { authorization: `Bearer ${generateJWT(pubkey, 'other-secret', '1h')}` };
+
+      await run(requireNostrAuth({ jwtSecret: secret }));
+
+      expect(mockRes.status).toHaveBeenCalledWith(401);
+      expect(mockRes.json).toHaveBeenCalledWith({ error: 'Invalid token', code: 'TOKEN_INVALID' });
+    });
+
+    it('should report expired tokens distinctly', async () => {
+      const token = jwt.sign({ pubkey, exp: Math.floor(Date.now() / 1000) - 10 }, secret, { algorithm: 'HS256' });
+      mockReq.headers = { authorization: `Bearer ${token}` };
+
+      await run(requireNostrAuth({ jwtSecret: secret }));
+
+      expect(mockRes.json).toHaveBeenCalledWith({ error: 'Token expired', code: 'TOKEN_EXPIRED' });
+    });
+
+    it('should reject a token found in the revocation store', async () => {
+      const revocationStore = new MemoryRevocationStore();
+      await revocationStore.revokeToken('token-1', Math.floor(Date.now() / 1000) + 3600);
+      mockReq.headers = { authorization: `Bearer ${generateJWT(pubkey, secret, '1h', { jwtid: 'token-1' })}` };
+
+      await run(requireNostrAuth({ jwtSecret: secret, revocationStore }));
+
+      expect(mockRes.status).toHaveBeenCalledWith(401);
+      expect(mockRes.json).toHaveBeenCalledWith({ error: 'Token revoked', code: 'TOKEN_REVOKED' });
+      expect(mockNext).not.toHaveBeenCalled();
+    });
+
+    it('should prefer a custom verifier', async () => {
+      const verifyToken = vi.fn().mockResolvedValue({ pubkey, roles: ['admin'] });
+      mockReq.headers = { authorization: 'Bearer opaque' };
+
+      await run(requireNostrAuth({ verifyToken }));
+
+      expect(verifyToken).toHaveBeenCalledWith('opaque');
+      expect(mockReq.nostr?.claims.roles).toEqual(['admin']);
+    });
+  });
+
+  describe('optionalNostrAuth', () => {
+    it('should pass anonymous requests through', async () => {
+      await run(optionalNostrAuth({ jwtSecret: secret }));
+
+      expect(mockNext).toHaveBeenCalledWith();
+      expect(mockReq.nostr).toBeUndefined();
+    });
+
+    it('should still reject an invalid token', async () => {
+      mockReq.headers = { authorization: 'Bearer not-a-jwt' };
+
+      await run(optionalNostrAuth({ jwtSecret: secret }));
+
+      expect(mockRes.status).toHaveBeenCalledWith(401);
+      expect(mockNext).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requireRole / requireScope', () => {
+    const authenticate = (claims: Record<string, unknown>) => {
+      mockReq.nostr = { pubkey, claims: { pubkey, ...claims } };
+    };
+
+    it('should admit a token holding any of the roles', async () => {
+      authenticate({ roles: ['member', 'moderator'] });
+
+      await run(requireRole('admin', 'moderator'));
+
+      expect(mockNext).toHaveBeenCalledWith();
+    });
+
+    it('should reject a token without a matching role', async () => {
+      authenticate({ roles: ['member'] });
+
+      await run(requireRole('admin'));
+
+      expect(mockRes.status).toHaveBeenCalledWith(403);
+      expect(mockRes.json).toHaveBeenCalledWith({ error: 'Insufficient role', code: 'INSUFFICIENT_ROLE' });
+      expect(mockNext).not.toHaveBeenCalled();
+    });
+
+    it('should not match roles inside a malformed string claim', async () => {
+      authenticate({ roles: 'superadmin' });
+
+      await run(requireRole('admin'));
+
+      expect(mockRes.status).toHaveBeenCalledWith(403);
+    });
+
+    it('should require every scope', async () => {
+      authenticate({ scopes: ['posts:read'] });
+
+      await run(requireScope('posts:read', 'posts:write'));
+
+      expect(mockRes.status).toHaveBeenCalledWith(403);
+      expect(mockRes.setHeader).toHaveBeenCalledWith('WWW-Authenticate', 'Bearer error="insufficient_scope", scope="posts:read posts:write"');
+      expect(mockRes.json).toHaveBeenCalledWith({ error: 'Insufficient scope', code: 'INSUFFICIENT_SCOPE' });
+    });
+
+    it('should respond 401 when no token was verified first', async () => {
+      await run(requireScope('posts:read'));
+
+      expect(mockRes.status).toHaveBeenCalledWith(401);
+      expect(mockRes.json).toHaveBeenCalledWith({ error: 'Missing bearer token', code: 'TOKEN_MISSING' });
+    });
+  });
+});
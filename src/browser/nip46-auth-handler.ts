@@ -5,6 +5,7 @@
  */
 
 import type { NostrEvent, Nip46AuthConfig, Nip46AuthResult } from '../types.js';
+import { getOriginTags } from './nostr-browser-auth.js';
 import {
   parseBunkerURI,
   createSession,
@@ -108,7 +109,7 @@ export class Nip46AuthHandler {
   /**
    * Full authentication flow:
    * 1. Fetch challenge from server
-   * 2. Ask remote signer to sign the challenge event
+   * 2. Ask remote signer to sign the challenge event (with domain/origin tags for the current page)
    * 3. Submit signed event to server for JWT
    */
   async authenticate(): Promise<Nip46AuthResult> {
@@ -150,6 +151,7 @@ export class Nip46AuthHandler {
       tags: [
         ['p', pubkey],
         ['challenge', challenge],
+        ...getOriginTags(),
       ],
     };
 
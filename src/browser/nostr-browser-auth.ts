@@ -20,6 +20,93 @@ declare global {
   }
 }
 
+/**
+ * Builds the `domain` and `origin` tags for the page the user is on
+ * @returns {string[][]} Tags binding a signed event to this site, or none outside a browser
+ * @description
+ * Taken from `window.location`, never from the server, so a phishing site
+ * relaying challenges ends up signing its own domain and is rejected.
+ */
+export function getOriginTags(): string[][] {
+  if (typeof window === 'undefined' || !window.location?.origin || window.location.origin === 'null') {
+    return [];
+  }
+  return [
+    ['domain', window.location.host],
+    ['origin', window.location.origin]
+  ];
+}
+
+/**
+ * Finds a NIP-13 nonce tag that gives the event id `difficulty` leading zero bits
+ * @param {NostrEvent} event - Unsigned event with `pubkey`, `created_at`, `kind`, `tags` and `content`
+ * @param {number} difficulty - Required leading zero bits
+ * @returns {Promise<string[][]>} The event's tags with the `nonce` tag appended
+ * @description
+ * Runs as the body of the mining Web Worker, so it must not reference
+ * anything outside itself. Hashes are computed in batches with WebCrypto.
+ */
+async function searchNonce(event: NostrEvent, difficulty: number): Promise<string[][]> {
+  const tags = event.tags.filter(tag => tag[0] !== 'nonce');
+  const template = JSON.stringify([0, event.pubkey, event.created_at, event.kind, [...tags, ['nonce', '#', String(difficulty)]], event.content]);
+  // Tag values are JSON-escaped, so this unescaped sequence can only be the nonce tag
+  const split = template.indexOf('["nonce","#"') + '["nonce","'.length;
+  const head = template.slice(0, split);
+  const tail = template.slice(split + 1);
+  const encoder = new TextEncoder();
+  const batchSize = 256;
+
+  for (let start = 0; ; start += batchSize) {
+    const digests = await Promise.all(Array.from({ length: batchSize }, (_, i) =>
+      crypto.subtle.digest('SHA-256', encoder.encode(`${head}${start + i}${tail}`))));
+    for (let i = 0; i < digests.length; i++) {
+      let bits = 0;
+      for (const byte of new Uint8Array(digests[i])) {
+        bits += byte === 0 ? 8 : Math.clz32(byte) - 24;
+        if (byte !== 0) {
+          break;
+        }
+      }
+      if (bits >= difficulty) {
+        return [...tags, ['nonce', String(start + i), String(difficulty)]];
+      }
+    }
+  }
+}
+
+/**
+ * Runs searchNonce in a Web Worker, or on the calling thread where workers are unavailable
+ * @param {NostrEvent} event - Unsigned event
+ * @param {number} difficulty - Required leading zero bits
+ * @returns {Promise<string[][]>} The event's tags with the `nonce` tag appended
+ */
+function mineInWorker(event: NostrEvent, difficulty: number): Promise<string[][]> {
+  if (typeof Worker === 'undefined' || typeof URL?.createObjectURL !== 'function') {
+    return searchNonce(event, difficulty);
+  }
+
+  const source = `${searchNonce.toString()}
+self.onmessage = async (message) => self.postMessage(await ${searchNonce.name}(message.data.event, message.data.difficulty));`;
+  const url = URL.createObjectURL(new Blob([source], { type: 'text/javascript' }));
+  let worker: Worker;
+  try {
+    worker = new Worker(url);
+  } catch {
+    // A Content-Security-Policy without `worker-src blob:` refuses the worker
+    URL.revokeObjectURL(url);
+    return searchNonce(event, difficulty);
+  }
+
+  return new Promise<string[][]>((resolve, reject) => {
+    worker.onmessage = (message: MessageEvent<string[][]>) => resolve(message.data);
+    worker.onerror = (error: ErrorEvent) => reject(new Error(`Proof-of-work worker failed: ${error.message}`));
+    worker.postMessage({ event: { pubkey: event.pubkey, created_at: event.created_at, kind: event.kind, tags: event.tags, content: event.content }, difficulty });
+  }).finally(() => {
+    worker.terminate();
+    URL.revokeObjectURL(url);
+  });
+}
+
 export interface NostrBrowserConfig {
   customKind?: number;
   /** Custom challenge message template */
@@ -46,10 +133,10 @@ export class NostrBrowserAuth {
   /**
    * Fetches a challenge from the server for authentication
    * @param {string} pubkey - The public key to request a challenge for
-   * @returns {Promise<{challenge: string, timestamp: number}>}
+   * @returns {Promise<{challenge: string, timestamp: number, powDifficulty?: number}>} `powDifficulty` is set when the server requires NIP-13 proof of work
    * @throws {Error} When the server URL is not configured or the request fails
    */
-  async createChallenge(pubkey: string): Promise<{ challenge: string; timestamp: number }> {
+  async createChallenge(pubkey: string): Promise<{ challenge: string; timestamp: number; powDifficulty?: number }> {
     if (!this.serverUrl) {
       throw new Error('Server URL is required to fetch challenges. Set serverUrl in NostrBrowserConfig.');
     }
@@ -61,12 +148,34 @@ export class NostrBrowserAuth {
 
     const data = await response.json();
     const timestamp = Math.floor(Date.now() / 1000);
-    return { challenge: data.challenge, timestamp };
+    return {
+      challenge: data.challenge,
+      timestamp,
+      ...(typeof data.powDifficulty === 'number' && data.powDifficulty > 0 ? { powDifficulty: data.powDifficulty } : {})
+    };
+  }
+
+  /**
+   * Adds NIP-13 proof of work to an unsigned event
+   * @param {NostrEvent} event - Unsigned event; `pubkey` must be set since it is part of the id
+   * @param {number} difficulty - Required leading zero bits
+   * @returns {Promise<NostrEvent>} The event with a `nonce` tag, ready to sign
+   * @description
+   * Mining runs in a Web Worker so the page stays responsive. Where workers
+   * cannot be created (no `Worker`, or a CSP that blocks `blob:` workers) it
+   * falls back to the calling thread.
+   */
+  async mineProofOfWork(event: NostrEvent, difficulty: number): Promise<NostrEvent> {
+    if (!event.pubkey) {
+      throw new Error('Event pubkey is required to mine proof of work');
+    }
+    return { ...event, tags: await mineInWorker(event, difficulty) };
   }
 
   /**
    * Authenticates using NIP-07 window.nostr
-   * This will trigger permission requests in the user's Nostr extension
+   * This will trigger permission requests in the user's Nostr extension.
+   * The signed event carries `domain` and `origin` tags for the current page.
    * @returns {Promise<{pubkey: string, timestamp: number, challenge: string, signedEvent: NostrEvent}>}
    * @throws {Error} When Nostr extension is not found or authentication fails
    */
@@ -85,18 +194,23 @@ export class NostrBrowserAuth {
       const pubkey = await window.nostr.getPublicKey();
       
       // Step 2: Fetch a challenge from the server
-      const { challenge, timestamp } = await this.createChallenge(pubkey);
+      const { challenge, timestamp, powDifficulty } = await this.createChallenge(pubkey);
       
       // Step 3: Request signature permission by asking user to sign the challenge
-      const event = {
+      let event = {
+        pubkey,
         kind: this.kind,
         created_at: timestamp,
         content: this.challengeTemplate.replace('%challenge%', challenge),
         tags: [
           ['p', pubkey],
-          ['challenge', challenge]
+          ['challenge', challenge],
+          ...getOriginTags()
         ]
       } as NostrEvent;
+      if (powDifficulty) {
+        event = await this.mineProofOfWork(event, powDifficulty);
+      }
 
       // This will trigger the extension's permission popup
       const signedEvent = await window.nostr.signEvent(event);
@@ -46,7 +46,18 @@ export const config: NostrConfig = {
   // Supabase config
   supabaseUrl: process.env.SUPABASE_URL,
   supabaseKey: process.env.SUPABASE_KEY,
+  // SQLite config
+  sqlitePath: process.env.SQLITE_PATH,
   // Nostr config
+  nip05Provider: process.env.NIP05_PROVIDER === 'true',
+  allowedPubkeys: process.env.ALLOWED_PUBKEYS ? process.env.ALLOWED_PUBKEYS.split(',').map(s => s.trim()).filter(Boolean) : undefined,
+  deniedPubkeys: process.env.DENIED_PUBKEYS?.split(',').map(s => s.trim()).filter(Boolean),
+  membershipListAuthor: process.env.MEMBERSHIP_LIST_AUTHOR,
+  membershipListId: process.env.MEMBERSHIP_LIST_ID,
+  membershipSnapshotPath: process.env.MEMBERSHIP_SNAPSHOT_PATH,
+  powDifficulty: process.env.POW_DIFFICULTY ? parseInt(process.env.POW_DIFFICULTY) : undefined,
+  auditLogPath: process.env.AUDIT_LOG_PATH,
+  auditLogChained: process.env.AUDIT_LOG_CHAINED === 'true',
   nostrRelays: process.env.NOSTR_RELAYS?.split(',') || [
     'wss://relay.maiqr.app',
     'wss://relay.damus.io',
@@ -107,7 +118,18 @@ export async function loadConfig(envPath?: string): Promise<NostrConfig> {
     // Supabase config
     supabaseUrl: process.env.SUPABASE_URL,
     supabaseKey: process.env.SUPABASE_KEY,
+    // SQLite config
+    sqlitePath: process.env.SQLITE_PATH,
     // Nostr config
+    nip05Provider: process.env.NIP05_PROVIDER === 'true',
+    allowedPubkeys: process.env.ALLOWED_PUBKEYS ? process.env.ALLOWED_PUBKEYS.split(',').map(s => s.trim()).filter(Boolean) : undefined,
+    deniedPubkeys: process.env.DENIED_PUBKEYS?.split(',').map(s => s.trim()).filter(Boolean),
+    membershipListAuthor: process.env.MEMBERSHIP_LIST_AUTHOR,
+    membershipListId: process.env.MEMBERSHIP_LIST_ID,
+    membershipSnapshotPath: process.env.MEMBERSHIP_SNAPSHOT_PATH,
+    powDifficulty: process.env.POW_DIFFICULTY ? parseInt(process.env.POW_DIFFICULTY) : undefined,
+    auditLogPath: process.env.AUDIT_LOG_PATH,
+    auditLogChained: process.env.AUDIT_LOG_CHAINED === 'true',
     nostrRelays: process.env.NOSTR_RELAYS?.split(',') || [
       'wss://relay.maiqr.app',
       'wss://relay.damus.io',
@@ -0,0 +1,178 @@
+/**
+ * Exports shared by the Node.js and browser entry points
+ * Modules that need Node.js built-ins (file system, DNS, sockets) belong in index.ts only
+ * @module core
+ */
+
+// Core middleware
+import { NostrAuthMiddleware } from './middleware/nostr-auth.middleware.js';
+import { Nip46SignerMiddleware } from './middleware/nip46-signer.middleware.js';
+import type { NostrAuthConfig, JWTExpiresIn, Nip46SignerConfig } from './types.js';
+
+// Re-export middleware
+export { NostrAuthMiddleware };
+export { Nip46SignerMiddleware };
+export { requireNostrAuth, optionalNostrAuth, requireRole, requireScope } from './middleware/token-auth.middleware.js';
+export type { NostrTokenAuthOptions } from './middleware/token-auth.middleware.js';
+export { requireNip98Auth, NIP98_EVENT_KIND } from './middleware/nip98-auth.middleware.js';
+export type { Nip98AuthOptions } from './middleware/nip98-auth.middleware.js';
+
+// Types
+export type {
+  NostrAuthConfig,
+  NostrChallenge,
+  IssuedChallenge,
+  NostrProfile,
+  NostrEnrollment,
+  EnrollmentStatus,
+  EnrollmentResult,
+  VerificationResult,
+  VerificationErrorCode,
+  JWTExpiresIn,
+  Nip46AuthConfig,
+  Nip46SignerConfig,
+  Nip46AuthResult,
+  RelayAuthConfig,
+  ProfileServiceConfig,
+  Nip05ResolverConfig,
+  Nip05Resolution,
+  Nip05Name,
+  Nip05NameResult,
+  ApiKeyRecord,
+  ApiKeyOptions,
+  ApiKeyResult,
+  RateLimitedRoute,
+  RateLimitKey,
+  RateLimitOptions,
+  ProofOfWorkConfig,
+  AuditContext,
+  AuditEventData,
+  AuditEvent,
+  AuditEventType,
+  HashChainAuditConfig,
+  ChainedAuditEntry,
+  AuditLogVerification,
+  AccessPolicy,
+  AccessLists,
+  Nip51MembershipConfig,
+  CustomClaims,
+  ClaimsResolver,
+  NostrTokenClaims,
+  NostrRequestAuth,
+  JWTAsymmetricAlgorithm,
+  JWTSigningKey,
+  PublicJWK,
+  TokenRefreshResult,
+} from './types.js';
+
+export type { NostrEvent } from './utils/types.js';
+
+// Crypto utilities
+export {
+  generateChallenge,
+  generateEventHash,
+  getPublicKey,
+  verifySignature
+} from './utils/crypto.utils.js';
+
+// JWT utilities
+export { generateJWT, verifyJWT, getPublicJWK } from './utils/jwt.utils.js';
+export { npubEncode, nprofileEncode, decodeNip19, normalizePubkey } from './utils/nip19.utils.js';
+export type { DecodedPubkey } from './utils/nip19.utils.js';
+export { countLeadingZeroBits, getCommittedTarget, hasProofOfWork } from './utils/nip13.utils.js';
+
+// Services
+export { NostrService } from './services/nostr.service.js';
+export { RelayAuthService } from './services/relay-auth.service.js';
+export type { RelaySocket, RelaySocketAdapter } from './services/relay-auth.service.js';
+export { ProfileService } from './services/profile.service.js';
+export { ApiKeyService } from './services/api-key.service.js';
+export { AuditLog } from './services/audit-log.service.js';
+export type { RelayWebSocket, WebSocketFactory } from './services/relay-pool.service.js';
+
+// Stores
+export { MemoryChallengeStore } from './stores/memory-challenge.store.js';
+export { SupabaseChallengeStore } from './stores/supabase-challenge.store.js';
+export { MemoryRefreshTokenStore } from './stores/memory-refresh-token.store.js';
+export { MemoryRevocationStore } from './stores/memory-revocation.store.js';
+export { MemoryReplayStore } from './stores/memory-replay.store.js';
+export { MemoryEnrollmentStore } from './stores/memory-enrollment.store.js';
+export { MemoryNip05NameStore } from './stores/memory-nip05-name.store.js';
+export { MemoryApiKeyStore } from './stores/memory-api-key.store.js';
+export { MemoryAuditSink } from './stores/memory-audit-sink.store.js';
+export {
+  SqliteChallengeStore,
+  SqliteSessionStore,
+  SqliteRefreshTokenStore,
+  SqliteRevocationStore,
+  SqliteReplayStore,
+  SqliteEnrollmentStore,
+  SqliteNip05NameStore,
+  SqliteApiKeyStore,
+  openSqliteDatabase
+} from './stores/sqlite.store.js';
+export type { ChallengeStore, StoredChallenge } from './stores/challenge.store.js';
+export type { SessionStore, IssuedSession } from './stores/session.store.js';
+export type { RefreshTokenStore, StoredRefreshToken } from './stores/refresh-token.store.js';
+export type { RevocationStore } from './stores/revocation.store.js';
+export type { ReplayStore } from './stores/replay.store.js';
+export type { EnrollmentStore } from './stores/enrollment.store.js';
+export type { Nip05NameStore } from './stores/nip05-name.store.js';
+export type { ApiKeyStore } from './stores/api-key.store.js';
+export type { AuditSink } from './stores/audit-sink.store.js';
+export type { SqliteDatabase, SqliteStatement } from './stores/sqlite.store.js';
+
+// Validators
+export {
+  validateEvent,
+  validateChallengeEvent,
+  validateEnrollmentEvent,
+  validateAuthEvent,
+  validateRelayAuthEvent
+} from './validators/event.validator.js';
+export type { EventValidationOptions, AuthEventValidationOptions } from './validators/event.validator.js';
+
+// Configuration
+export { config } from './config.js';
+
+/**
+ * Create and configure a new Nostr Auth Middleware instance
+ * @param config Configuration options for the middleware
+ * @returns Configured NostrAuthMiddleware instance
+ * 
+ * @example
+ * ```typescript
+ * import { createNostrAuth } from '@humanjavaenterprises/nostr-auth-middleware';
+ * 
+ * const nostrAuth = createNostrAuth({
+ *   supabaseUrl: process.env.SUPABASE_URL,
+ *   supabaseKey: process.env.SUPABASE_KEY,
+ *   privateKey: process.env.SERVER_PRIVATE_KEY,
+ *   port: 3000,
+ *   keyManagementMode: 'local'
+ * });
+ * 
+ * app.use('/auth/nostr', nostrAuth.router);
+ * ```
+ */
+export const createNostrAuth = (config: NostrAuthConfig): NostrAuthMiddleware => {
+  // Ensure jwtExpiresIn is properly typed
+  const typedConfig: NostrAuthConfig = {
+    ...config,
+    jwtExpiresIn: config.jwtExpiresIn as JWTExpiresIn
+  };
+  return new NostrAuthMiddleware(typedConfig);
+};
+
+/**
+ * Create and configure a new NIP-46 Signer Middleware instance
+ * @param config - Configuration for the signer
+ * @param handlers - Callback handlers for NIP-46 methods
+ * @returns Configured Nip46SignerMiddleware instance
+ */
+export const createNip46Signer = (
+  config: Nip46SignerConfig,
+  handlers: import('nostr-crypto-utils/nip46').Nip46SignerHandlers
+): Nip46SignerMiddleware => {
+  return new Nip46SignerMiddleware(config, handlers);
+};
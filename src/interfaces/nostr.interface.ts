@@ -95,6 +95,12 @@ export interface NostrMessage {
   event?: NostrEvent;
   /** Optional subscription data */
   subscription?: NostrSubscription;
+  /** Subscription id of an EVENT, EOSE or CLOSED message from a relay */
+  subscriptionId?: string;
+  /** Id of the event an OK message acknowledges */
+  eventId?: string;
+  /** Whether the relay accepted the event (OK messages) */
+  accepted?: boolean;
   /** Optional challenge string */
   challenge?: string;
   /** Optional message content */
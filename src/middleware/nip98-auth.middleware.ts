@@ -0,0 +1,213 @@
+/**
+ * @fileoverview Express middleware for NIP-98 HTTP Auth
+ * Authenticates each request with a signed kind 27235 event sent as `Authorization: Nostr <base64 event>`
+ * @see https://github.com/nostr-protocol/nips/blob/master/98.md
+ */
+
+import crypto from 'crypto';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import type { NostrEvent } from '../types.js';
+import type { ReplayStore } from '../stores/replay.store.js';
+import { MemoryReplayStore } from '../stores/memory-replay.store.js';
+import { validateEvent } from '../validators/event.validator.js';
+import { generateEventHash } from '../utils/crypto.utils.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('Nip98AuthMiddleware');
+
+/** Event kind for NIP-98 HTTP Auth */
+export const NIP98_EVENT_KIND = 27235;
+
+const DEFAULT_MAX_AGE_SECONDS = 60;
+const MAX_FUTURE_SECONDS = 60;
+const SWEEP_INTERVAL_SECONDS = 60;
+
+/**
+ * Options for the NIP-98 middleware
+ * @interface Nip98AuthOptions
+ */
+export interface Nip98AuthOptions {
+  /** Accepted age of the event's `created_at`, in seconds (default: 60) */
+  maxAgeSeconds?: number;
+  /** Store of accepted event ids (default: in-memory); share one across replicas */
+  replayStore?: ReplayStore;
+  /** Reject requests that carry a body but no `payload` tag (default: false) */
+  requirePayload?: boolean;
+  /** Absolute URL the `u` tag must match (default: built from protocol, host and originalUrl) */
+  getUrl?: (req: Request) => string;
+  /** Raw request body for the `payload` check (default: `req.rawBody`, or `req.body` when it is a Buffer or string) */
+  getRawBody?: (req: Request) => Buffer | string | undefined;
+}
+
+/**
+ * Rebuilds the absolute URL of a request
+ * @param {Request} req - Express request object
+ * @returns {string} Absolute request URL, including the query string
+ */
+function getRequestUrl(req: Request): string {
+  return `${req.protocol}://${req.get('host')}${req.originalUrl}`;
+}
+
+/**
+ * Returns the raw request body captured by the body parser, if any
+ * @param {Request} req - Express request object
+ * @returns {Buffer | string | undefined} Raw body
+ */
+function getDefaultRawBody(req: Request): Buffer | string | undefined {
+  const { rawBody } = req as Request & { rawBody?: Buffer | string };
+  if (rawBody !== undefined) {
+    return rawBody;
+  }
+  return Buffer.isBuffer(req.body) || typeof req.body === 'string' ? req.body : undefined;
+}
+
+/**
+ * Checks whether the request declares a body
+ * @param {Request} req - Express request object
+ * @returns {boolean} True if a body was sent
+ */
+function hasBody(req: Request): boolean {
+  const length = req.headers['content-length'];
+  return (!!length && length !== '0') || !!req.headers['transfer-encoding'];
+}
+
+/**
+ * Decodes the event from an `Authorization: Nostr` header
+ * @param {string | undefined} header - Authorization header value
+ * @returns {NostrEvent | null | undefined} The event, null if malformed, undefined if the scheme is absent
+ */
+function parseAuthorization(header: string | undefined): NostrEvent | null | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const [scheme, encoded] = header.split(' ');
+  if (scheme?.toLowerCase() !== 'nostr') {
+    return undefined;
+  }
+  if (!encoded) {
+    return null;
+  }
+
+  try {
+    const event = JSON.parse(Buffer.from(encoded, 'base64').toString('utf8'));
+    return event && typeof event === 'object' && Array.isArray(event.tags) ? event as NostrEvent : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Sends a 401 response in the format shared by all NIP-98 errors
+ * @param {Response} res - Express response object
+ * @param {string} code - Machine-readable error code
+ * @param {string} error - Human-readable error message
+ */
+function rejectRequest(res: Response, code: string, error: string): void {
+  res.setHeader?.('WWW-Authenticate', 'Nostr');
+  res.status(401).json({ error, code });
+}
+
+/**
+ * Creates middleware that requires a valid NIP-98 `Authorization: Nostr` header
+ * @param {Nip98AuthOptions} [options] - Verification options
+ * @returns {RequestHandler} Express middleware that sets `req.nostr` (including the signed event)
+ * @description
+ * Checks, in order: the event kind, signature and time window (via validateEvent),
+ * the event id, the `u` and `method` tags against the request, the `payload` tag
+ * against a SHA-256 of the raw body when present, and finally that the event id
+ * has not been accepted before.
+ *
+ * To check `payload` tags on JSON requests, keep the raw body:
+ * `express.json({ verify: (req, _res, buf) => { req.rawBody = buf; } })`.
+ * @example
+ * app.post('/api/upload', requireNip98Auth({ requirePayload: true }), (req, res) => {
+ *   res.json({ pubkey: req.nostr!.pubkey });
+ * });
+ */
+export function requireNip98Auth(options: Nip98AuthOptions = {}): RequestHandler {
+  const maxAgeSeconds = options.maxAgeSeconds ?? DEFAULT_MAX_AGE_SECONDS;
+  const replayStore = options.replayStore ?? new MemoryReplayStore();
+  const getUrl = options.getUrl ?? getRequestUrl;
+  const getRawBody = options.getRawBody ?? getDefaultRawBody;
+  let lastSweep = 0;
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const event = parseAuthorization(req.headers?.authorization);
+    if (event === undefined) {
+      rejectRequest(res, 'NIP98_MISSING', 'Missing Nostr authorization');
+      return;
+    }
+    if (event === null || event.kind !== NIP98_EVENT_KIND) {
+      rejectRequest(res, 'NIP98_INVALID', 'Invalid Nostr authorization event');
+      return;
+    }
+
+    try {
+      const result = await validateEvent(event, { maxAgeSeconds, maxFutureSeconds: MAX_FUTURE_SECONDS });
+      if (!result.success) {
+        const code = result.code === 'INVALID_TIMESTAMP' ? 'NIP98_EXPIRED' : 'NIP98_INVALID';
+        rejectRequest(res, code, result.error ?? 'Invalid Nostr authorization event');
+        return;
+      }
+
+      // The id is what replay protection keys on, so it must be the real event hash
+      if (generateEventHash(event) !== event.id) {
+        rejectRequest(res, 'NIP98_INVALID', 'Event id does not match event hash');
+        return;
+      }
+
+      const url = event.tags.find(t => t[0] === 'u')?.[1];
+      if (url !== getUrl(req)) {
+        rejectRequest(res, 'NIP98_URL_MISMATCH', 'Event url does not match request');
+        return;
+      }
+
+      const method = event.tags.find(t => t[0] === 'method')?.[1];
+      if (method?.toUpperCase() !== req.method.toUpperCase()) {
+        rejectRequest(res, 'NIP98_METHOD_MISMATCH', 'Event method does not match request');
+        return;
+      }
+
+      const payload = event.tags.find(t => t[0] === 'payload')?.[1];
+      if (payload !== undefined || (options.requirePayload && hasBody(req))) {
+        const body = getRawBody(req) ?? (hasBody(req) ? undefined : '');
+        if (body === undefined) {
+          logger.error('NIP-98 payload check needs the raw request body; see getRawBody');
+          rejectRequest(res, 'NIP98_PAYLOAD_MISMATCH', 'Request body unavailable for payload check');
+          return;
+        }
+        const hash = crypto.createHash('sha256').update(body).digest('hex');
+        if (payload?.toLowerCase() !== hash) {
+          rejectRequest(res, 'NIP98_PAYLOAD_MISMATCH', 'Event payload does not match request body');
+          return;
+        }
+      }
+
+      const now = Math.floor(Date.now() / 1000);
+      if (now - lastSweep >= SWEEP_INTERVAL_SECONDS) {
+        lastSweep = now;
+        replayStore.expire(now).catch((error) => {
+          logger.error('Failed to expire seen events:', { error: error instanceof Error ? error.message : String(error) });
+        });
+      }
+
+      // Any event accepted within the window stays remembered until it would be too old anyway
+      if (!(await replayStore.markSeen(event.id!, event.created_at + maxAgeSeconds))) {
+        rejectRequest(res, 'NIP98_REPLAYED', 'Event has already been used');
+        return;
+      }
+    } catch (error) {
+      logger.error('NIP-98 verification error:', { error: error instanceof Error ? error.message : String(error) });
+      next(error);
+      return;
+    }
+
+    req.nostr = {
+      pubkey: event.pubkey!,
+      claims: { pubkey: event.pubkey!, jti: event.id, iat: event.created_at },
+      event
+    };
+    next();
+  };
+}
@@ -3,10 +3,15 @@
  * Provides endpoints for challenge-response authentication, verification, and user enrollment
  */
 
-import { Request, Response, NextFunction, Router } from 'express';
+import { Request, Response, NextFunction, RequestHandler, Router } from 'express';
 import { NostrService } from '../services/nostr.service.js';
-import type { NostrEvent, NostrAuthConfig, JWTExpiresIn } from '../types.js';
+import { ApiKeyService } from '../services/api-key.service.js';
+import type { AuditLog } from '../services/audit-log.service.js';
+import { requireNostrAuth, optionalNostrAuth } from './token-auth.middleware.js';
+import { createRateLimiter } from './security.middleware.js';
+import type { NostrEvent, NostrAuthConfig, JWTExpiresIn, EnrollmentStatus, ApiKeyRecord, ApiKeyResult, RateLimitedRoute, RateLimitKey } from '../types.js';
 import { createLogger } from '../utils/logger.js';
+import { normalizePubkey, npubEncode } from '../utils/nip19.utils.js';
 
 const logger = createLogger('NostrAuthMiddleware');
 
@@ -17,6 +22,52 @@ const DEFAULT_CONFIG: Required<Pick<NostrAuthConfig, 'keyManagementMode' | 'even
   port: 3000 // Default port
 };
 
+/**
+ * Identities each route is counted by unless `keyBy` is set. The login
+ * routes count per IP so that users sharing an app's API key do not share a
+ * bucket; routes a client reaches with a token or key count per identity.
+ */
+const ROUTE_RATE_LIMIT_KEYS: Record<RateLimitedRoute, RateLimitKey[]> = {
+  challenge: ['ip'],
+  verify: ['ip'],
+  enroll: ['ip'],
+  refresh: ['pubkey', 'apiKey', 'ip'],
+  logout: ['pubkey', 'ip'],
+  profile: ['pubkey', 'apiKey', 'ip']
+};
+
+/**
+ * Reads the `:pubkey` route parameter as hex
+ * @param {Request} req - Express request object
+ * @returns {string | null} The hex pubkey, or null if the parameter is not a hex pubkey, `npub` or `nprofile`
+ */
+function getPubkeyParam(req: Request): string | null {
+  const pubkey = Array.isArray(req.params.pubkey) ? req.params.pubkey[0] : req.params.pubkey;
+  return pubkey ? normalizePubkey(pubkey) : null;
+}
+
+/**
+ * Strips the key hash from an API key record before it is sent to a client
+ * @param {ApiKeyRecord} record - Stored key record
+ * @returns {Omit<ApiKeyRecord, 'key_hash'>} The record without `key_hash`
+ */
+function toApiKeyResponse(record: ApiKeyRecord): Omit<ApiKeyRecord, 'key_hash'> {
+  const { key_hash: _keyHash, ...rest } = record;
+  return rest;
+}
+
+/**
+ * Maps a failed API key result to an HTTP status
+ * @param {ApiKeyResult} result - Result with success false
+ * @returns {number} 404 for unknown keys, 409 for expired or rotated keys, otherwise 400
+ */
+function apiKeyErrorStatus(result: ApiKeyResult): number {
+  if (result.code === 'API_KEY_NOT_FOUND') {
+    return 404;
+  }
+  return result.code === 'API_KEY_INACTIVE' ? 409 : 400;
+}
+
 /**
  * Express middleware class for handling Nostr authentication flows
  * @class NostrAuthMiddleware
@@ -25,7 +76,13 @@ const DEFAULT_CONFIG: Required<Pick<NostrAuthConfig, 'keyManagementMode' | 'even
  */
 export class NostrAuthMiddleware {
   private readonly router: Router;
+  private readonly adminRouter: Router;
+  private readonly nip05Router: Router;
   private readonly nostrService: NostrService;
+  private readonly apiKeys: ApiKeyService;
+  private readonly auditLog?: AuditLog;
+  private readonly rateLimiters: Partial<Record<RateLimitedRoute, RequestHandler>> = {};
+  private readonly includeNpub: boolean;
 
   /**
    * Creates a new NostrAuthMiddleware instance
@@ -33,7 +90,7 @@ export class NostrAuthMiddleware {
    * @param {NostrService} [nostrService] - Optional NostrService instance for testing
    */
   constructor(config: Partial<NostrAuthConfig>, nostrService?: NostrService) {
-    if (!config.jwtSecret) {
+    if (!config.jwtSecret && !config.jwtSigningKey) {
       throw new Error('JWT secret is required');
     }
 
@@ -49,7 +106,23 @@ export class NostrAuthMiddleware {
     };
     
     this.nostrService = nostrService || new NostrService(fullConfig);
+    this.apiKeys = new ApiKeyService(config.apiKeyStore);
+    this.auditLog = config.auditLog;
+    const rateLimits = config.rateLimits ?? {};
+    for (const route of Object.keys(rateLimits) as RateLimitedRoute[]) {
+      const options = rateLimits[route];
+      if (options) {
+        this.rateLimiters[route] = createRateLimiter({
+          ...options,
+          keyBy: options.keyBy ?? ROUTE_RATE_LIMIT_KEYS[route],
+          store: options.store ?? config.createRateLimitStore?.(route)
+        });
+      }
+    }
+    this.includeNpub = !!config.includeNpub;
     this.router = Router();
+    this.adminRouter = Router();
+    this.nip05Router = Router();
     this.setupRoutes();
   }
 
@@ -58,9 +131,38 @@ export class NostrAuthMiddleware {
    * @private
    */
   private setupRoutes() {
-    this.router.post('/challenge/:pubkey', this.handleChallenge.bind(this));
-    this.router.post('/verify', this.handleVerification.bind(this));
-    this.router.get('/profile/:pubkey', this.handleProfileFetch.bind(this));
+    this.router.post('/challenge/:pubkey', this.rateLimit('challenge'), this.handleChallenge.bind(this));
+    this.router.post('/verify', this.rateLimit('verify'), this.handleVerification.bind(this));
+    this.router.post('/enroll', this.rateLimit('enroll'), this.handleEnrollment.bind(this));
+    this.router.post('/refresh', this.rateLimit('refresh'), this.handleRefresh.bind(this));
+    this.router.post('/logout', this.requireAuth(), this.rateLimit('logout'), this.handleLogout.bind(this));
+    this.router.get('/profile/:pubkey', this.rateLimit('profile'), this.handleProfileFetch.bind(this));
+    this.router.get('/.well-known/jwks.json', this.handleJwks.bind(this));
+
+    this.adminRouter.post('/revoke/:pubkey', this.handleRevokePubkey.bind(this));
+    this.adminRouter.get('/enrollments/:pubkey', this.handleEnrollmentFetch.bind(this));
+    this.adminRouter.post('/enrollments/:pubkey/approve', (req, res, next) => this.handleEnrollmentDecision(req, res, next, 'completed'));
+    this.adminRouter.post('/enrollments/:pubkey/reject', (req, res, next) => this.handleEnrollmentDecision(req, res, next, 'failed'));
+    this.adminRouter.put('/nip05/:name', this.handleNip05Reserve.bind(this));
+    this.adminRouter.delete('/nip05/:name', this.handleNip05Release.bind(this));
+    this.adminRouter.get('/access-lists', this.handleAccessListsFetch.bind(this));
+    this.adminRouter.put('/access-lists', this.handleAccessListsUpdate.bind(this));
+    this.adminRouter.get('/api-keys', this.handleApiKeyList.bind(this));
+    this.adminRouter.post('/api-keys', this.handleApiKeyCreate.bind(this));
+    this.adminRouter.post('/api-keys/:id/rotate', this.handleApiKeyRotate.bind(this));
+    this.adminRouter.delete('/api-keys/:id', this.handleApiKeyRevoke.bind(this));
+
+    this.nip05Router.options('/.well-known/nostr.json', this.handleNip05Lookup.bind(this));
+    this.nip05Router.get('/.well-known/nostr.json', this.handleNip05Lookup.bind(this));
+  }
+
+  /**
+   * Returns the rate limiter configured for a route
+   * @param {RateLimitedRoute} route - Route name
+   * @returns {RequestHandler} The limiter, or a pass-through when the route has no limit
+   */
+  private rateLimit(route: RateLimitedRoute): RequestHandler {
+    return this.rateLimiters[route] ?? ((req, res, next) => next());
   }
 
   /**
@@ -72,14 +174,31 @@ export class NostrAuthMiddleware {
    */
   async handleChallenge(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const pubkey = Array.isArray(req.params.pubkey) ? req.params.pubkey[0] : req.params.pubkey;
-      if (!pubkey) {
+      const identifier = Array.isArray(req.params.pubkey) ? req.params.pubkey[0] : req.params.pubkey;
+      if (!identifier) {
         res.status(400).json({ error: 'Missing pubkey' });
         return;
       }
 
-      const challenge = await this.nostrService.createChallenge(pubkey);
-      res.json({ challenge });
+      // Accept a NIP-05 identifier, npub or nprofile in place of the hex pubkey
+      let pubkey: string | null;
+      if (identifier.includes('@')) {
+        const resolution = await this.nostrService.resolveNip05(identifier);
+        if (!resolution) {
+          res.status(404).json({ error: 'NIP-05 identifier not found' });
+          return;
+        }
+        pubkey = resolution.pubkey;
+      } else {
+        pubkey = normalizePubkey(identifier);
+        if (!pubkey) {
+          res.status(400).json({ error: 'Invalid pubkey' });
+          return;
+        }
+      }
+
+      const challenge = await this.nostrService.issueChallenge(pubkey, { origin: req.get?.('origin'), ip: req.ip });
+      res.json(this.withNpub(challenge, pubkey));
     } catch (error) {
       logger.error('Error handling challenge:', { error: error instanceof Error ? error.message : String(error) });
       next(error);
@@ -97,20 +216,22 @@ export class NostrAuthMiddleware {
     try {
       const { event } = req.body as { event: NostrEvent };
       if (!event) {
+        this.auditLog?.record({ type: 'verify.failed', code: 'INVALID_EVENT', reason: 'Missing event', ip: req.ip });
         res.status(400).json({ error: 'Missing event' });
         return;
       }
 
-      const result = await this.nostrService.verifyChallenge(event);
+      const result = await this.nostrService.verifyChallenge(event, { ip: req.ip });
       if (!result.success) {
-        res.status(401).json(result);
+        res.status(result.code === 'PUBKEY_FORBIDDEN' ? 403 : 401).json(result);
         return;
       }
 
-      // Generate JWT token if verification successful
+      // Generate JWT token (and refresh token, when enabled) if verification successful
       if (result.pubkey) {
-        const token = await this.nostrService.generateToken(result.pubkey);
-        res.json({ ...result, token });
+        const token = await this.nostrService.generateToken(result.pubkey, event);
+        const refreshToken = await this.nostrService.generateRefreshToken(result.pubkey);
+        res.json(this.withNpub({ ...result, token, ...(refreshToken ? { refreshToken } : {}) }, result.pubkey));
       } else {
         res.json(result);
       }
@@ -120,6 +241,369 @@ export class NostrAuthMiddleware {
     }
   }
 
+  /**
+   * Handles enrollment requests
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function
+   * @returns {Promise<void>}
+   */
+  async handleEnrollment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { event } = (req.body ?? {}) as { event?: NostrEvent };
+      if (!event) {
+        res.status(400).json({ error: 'Missing event' });
+        return;
+      }
+
+      const result = await this.nostrService.enroll(event);
+      if (!result.success) {
+        const status = result.code === 'ENROLLMENT_REJECTED' ? 403 : result.code === 'INTERNAL_ERROR' ? 500 : 400;
+        res.status(status).json(result);
+        return;
+      }
+
+      res.status(result.enrollment!.status === 'pending' ? 202 : 200).json(result);
+    } catch (error) {
+      logger.error('Error handling enrollment:', { error: error instanceof Error ? error.message : String(error) });
+      next(error);
+    }
+  }
+
+  /**
+   * Handles refresh token rotation
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function
+   * @returns {Promise<void>}
+   */
+  async handleRefresh(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { refreshToken } = (req.body ?? {}) as { refreshToken?: string };
+      if (!refreshToken || typeof refreshToken !== 'string') {
+        res.status(400).json({ error: 'Missing refreshToken' });
+        return;
+      }
+
+      const result = await this.nostrService.refreshTokens(refreshToken, { ip: req.ip });
+      if (!result.success) {
+        res.status(401).json(result);
+        return;
+      }
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Error handling refresh:', { error: error instanceof Error ? error.message : String(error) });
+      next(error);
+    }
+  }
+
+  /**
+   * Handles logout by revoking the presented access token
+   * @param {Request} req - Express request object (authenticated by requireAuth)
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function
+   * @returns {Promise<void>}
+   * @description
+   * When the body carries the session's `refreshToken`, its whole family is
+   * revoked as well so the session cannot be resumed.
+   */
+  async handleLogout(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const auth = req.nostr!;
+      await this.nostrService.revokeToken(auth.claims);
+
+      const { refreshToken } = (req.body ?? {}) as { refreshToken?: string };
+      if (typeof refreshToken === 'string' && refreshToken) {
+        await this.nostrService.revokeRefreshToken(refreshToken, auth.pubkey);
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      logger.error('Error handling logout:', { error: error instanceof Error ? error.message : String(error) });
+      next(error);
+    }
+  }
+
+  /**
+   * Handles admin requests to revoke every token issued to a pubkey
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function
+   * @returns {Promise<void>}
+   */
+  async handleRevokePubkey(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const pubkey = getPubkeyParam(req);
+      if (!pubkey) {
+        res.status(400).json({ error: 'Invalid pubkey' });
+        return;
+      }
+
+      await this.nostrService.revokeAllForPubkey(pubkey);
+      res.json({ success: true, pubkey });
+    } catch (error) {
+      logger.error('Error revoking tokens:', { error: error instanceof Error ? error.message : String(error) });
+      next(error);
+    }
+  }
+
+  /**
+   * Handles admin requests for a pubkey's enrollment
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function
+   * @returns {Promise<void>}
+   */
+  async handleEnrollmentFetch(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const pubkey = getPubkeyParam(req);
+      if (!pubkey) {
+        res.status(400).json({ error: 'Invalid pubkey' });
+        return;
+      }
+
+      const enrollment = await this.nostrService.getEnrollment(pubkey);
+      if (!enrollment) {
+        res.status(404).json({ error: 'Enrollment not found' });
+        return;
+      }
+
+      res.json(enrollment);
+    } catch (error) {
+      logger.error('Error fetching enrollment:', { error: error instanceof Error ? error.message : String(error) });
+      next(error);
+    }
+  }
+
+  /**
+   * Handles admin approval or rejection of an enrollment
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function
+   * @param {EnrollmentStatus} status - `completed` to approve, `failed` to reject
+   * @returns {Promise<void>}
+   */
+  async handleEnrollmentDecision(req: Request, res: Response, next: NextFunction, status: EnrollmentStatus): Promise<void> {
+    try {
+      const pubkey = getPubkeyParam(req);
+      if (!pubkey) {
+        res.status(400).json({ error: 'Invalid pubkey' });
+        return;
+      }
+
+      const enrollment = await this.nostrService.setEnrollmentStatus(pubkey, status);
+      if (!enrollment) {
+        res.status(404).json({ error: 'Enrollment not found' });
+        return;
+      }
+
+      res.json(enrollment);
+    } catch (error) {
+      logger.error('Error updating enrollment:', { error: error instanceof Error ? error.message : String(error) });
+      next(error);
+    }
+  }
+
+  /**
+   * Handles admin requests for the pubkey allow and deny lists
+   * @param {Request} _req - Express request object
+   * @param {Response} res - Express response object
+   */
+  handleAccessListsFetch(_req: Request, res: Response): void {
+    res.json(this.nostrService.getAccessLists());
+  }
+
+  /**
+   * Handles admin requests to replace the pubkey allow and deny lists
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   */
+  handleAccessListsUpdate(req: Request, res: Response): void {
+    const { allowedPubkeys, deniedPubkeys } = req.body ?? {};
+    const isList = (value: unknown) => value === undefined || (Array.isArray(value) && value.every(item => typeof item === 'string'));
+    if (!isList(allowedPubkeys) || !isList(deniedPubkeys)) {
+      res.status(400).json({ error: 'allowedPubkeys and deniedPubkeys must be arrays of pubkeys' });
+      return;
+    }
+
+    try {
+      this.nostrService.setAccessLists({ allowedPubkeys, deniedPubkeys });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+    res.json(this.nostrService.getAccessLists());
+  }
+
+  /**
+   * Handles admin requests to list managed API keys, optionally for one `?owner=`
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function
+   * @returns {Promise<void>}
+   */
+  async handleApiKeyList(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const owner = typeof req.query?.owner === 'string' ? req.query.owner : undefined;
+      const records = await this.apiKeys.list(owner);
+      res.json({ apiKeys: records.map(toApiKeyResponse) });
+    } catch (error) {
+      logger.error('Error listing API keys:', { error: error instanceof Error ? error.message : String(error) });
+      next(error);
+    }
+  }
+
+  /**
+   * Handles admin requests to issue a managed API key
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function
+   * @returns {Promise<void>}
+   */
+  async handleApiKeyCreate(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { owner, scopes, expiresIn } = req.body ?? {};
+      const result = await this.apiKeys.create({ owner, scopes, expiresIn });
+      if (!result.success) {
+        res.status(apiKeyErrorStatus(result)).json({ error: result.error, code: result.code });
+        return;
+      }
+
+      res.status(201).json({ key: result.key, apiKey: toApiKeyResponse(result.record!) });
+    } catch (error) {
+      logger.error('Error creating API key:', { error: error instanceof Error ? error.message : String(error) });
+      next(error);
+    }
+  }
+
+  /**
+   * Handles admin requests to rotate a managed API key
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function
+   * @returns {Promise<void>}
+   */
+  async handleApiKeyRotate(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+      const { scopes, expiresIn, gracePeriodSeconds } = req.body ?? {};
+      const result = await this.apiKeys.rotate(id, { scopes, expiresIn, gracePeriodSeconds });
+      if (!result.success) {
+        res.status(apiKeyErrorStatus(result)).json({ error: result.error, code: result.code });
+        return;
+      }
+
+      res.status(201).json({ key: result.key, apiKey: toApiKeyResponse(result.record!) });
+    } catch (error) {
+      logger.error('Error rotating API key:', { error: error instanceof Error ? error.message : String(error) });
+      next(error);
+    }
+  }
+
+  /**
+   * Handles admin requests to revoke a managed API key immediately
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function
+   * @returns {Promise<void>}
+   */
+  async handleApiKeyRevoke(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+      if (!id || !(await this.apiKeys.revoke(id))) {
+        res.status(404).json({ error: 'API key not found' });
+        return;
+      }
+
+      res.json({ success: true, id });
+    } catch (error) {
+      logger.error('Error revoking API key:', { error: error instanceof Error ? error.message : String(error) });
+      next(error);
+    }
+  }
+
+  /**
+   * Handles admin requests to reserve a NIP-05 name for a pubkey
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function
+   * @returns {Promise<void>}
+   */
+  async handleNip05Reserve(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const name = Array.isArray(req.params.name) ? req.params.name[0] : req.params.name;
+      const { pubkey, relays } = req.body ?? {};
+      if (!name || typeof pubkey !== 'string' || (relays !== undefined && !Array.isArray(relays))) {
+        res.status(400).json({ error: 'Missing name or pubkey' });
+        return;
+      }
+
+      const result = await this.nostrService.reserveNip05Name(name, normalizePubkey(pubkey) ?? pubkey, relays);
+      if (!result.success) {
+        res.status(result.code === 'NAME_TAKEN' ? 409 : 400).json({ error: result.error, code: result.code });
+        return;
+      }
+
+      res.json(result.name);
+    } catch (error) {
+      logger.error('Error reserving NIP-05 name:', { error: error instanceof Error ? error.message : String(error) });
+      next(error);
+    }
+  }
+
+  /**
+   * Handles admin requests to release a NIP-05 name
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function
+   * @returns {Promise<void>}
+   */
+  async handleNip05Release(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const name = Array.isArray(req.params.name) ? req.params.name[0] : req.params.name;
+      if (!name || !(await this.nostrService.releaseNip05Name(name))) {
+        res.status(404).json({ error: 'Name not found' });
+        return;
+      }
+
+      res.json({ success: true, name: name.toLowerCase() });
+    } catch (error) {
+      logger.error('Error releasing NIP-05 name:', { error: error instanceof Error ? error.message : String(error) });
+      next(error);
+    }
+  }
+
+  /**
+   * Serves `/.well-known/nostr.json?name=` for the names this service provides
+   * @param {Request} req - Express request object
+   * @param {Response} res - Express response object
+   * @param {NextFunction} next - Express next function
+   * @returns {Promise<void>}
+   * @description
+   * NIP-05 clients fetch the document from any origin, so it is served with
+   * `Access-Control-Allow-Origin: *`. Without a `name` the document is empty
+   * rather than listing every user.
+   */
+  async handleNip05Lookup(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      res.setHeader('Access-Control-Allow-Origin', '*');
+      res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+      if (req.method === 'OPTIONS') {
+        res.status(204).end();
+        return;
+      }
+
+      const name = typeof req.query?.name === 'string' ? req.query.name : '';
+      const document = name ? await this.nostrService.getNip05Document(name) : { names: {}, relays: {} };
+      res.setHeader('Cache-Control', 'public, max-age=300');
+      res.json(document);
+    } catch (error) {
+      logger.error('Error serving nostr.json:', { error: error instanceof Error ? error.message : String(error) });
+      next(error);
+    }
+  }
+
   /**
    * Handles profile fetching requests
    * @param {Request} req - Express request object
@@ -129,9 +613,9 @@ export class NostrAuthMiddleware {
    */
   async handleProfileFetch(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const pubkey = Array.isArray(req.params.pubkey) ? req.params.pubkey[0] : req.params.pubkey;
+      const pubkey = getPubkeyParam(req);
       if (!pubkey) {
-        res.status(400).json({ error: 'Missing pubkey' });
+        res.status(400).json({ error: 'Invalid pubkey' });
         return;
       }
 
@@ -141,34 +625,83 @@ export class NostrAuthMiddleware {
         return;
       }
 
-      res.json(profile);
+      res.json(this.withNpub(profile, pubkey));
     } catch (error) {
       logger.error('Error fetching profile:', { error: error instanceof Error ? error.message : String(error) });
       next(error);
     }
   }
 
+  /**
+   * Serves the public keys that verify issued tokens
+   * @param {Request} _req - Express request object
+   * @param {Response} res - Express response object
+   */
+  handleJwks(_req: Request, res: Response): void {
+    const jwks = this.nostrService.getJWKS();
+    if (!jwks.keys.length) {
+      res.status(404).json({ error: 'Tokens are not signed with an asymmetric key' });
+      return;
+    }
+
+    res.setHeader('Cache-Control', 'public, max-age=300');
+    res.json(jwks);
+  }
+
+  /**
+   * Adds the `npub` form of a pubkey to a response body when `includeNpub` is set
+   * @param {T} body - Response body
+   * @param {string} pubkey - Public key (hex) the body is about
+   * @returns {T & { npub?: string }} The body, with `npub` when enabled
+   */
+  private withNpub<T extends object>(body: T, pubkey: string): T & { npub?: string } {
+    return this.includeNpub ? { ...body, npub: npubEncode(pubkey) } : body;
+  }
+
   /**
    * Verify if a session is still valid by checking if the pubkey is still accessible
-   * @param pubkey - The public key to verify
+   * @param pubkey - The public key to verify (hex, `npub` or `nprofile`)
    * @returns Promise<boolean> - True if session is valid, false otherwise
    */
   async verifySession(pubkey: string): Promise<boolean> {
     try {
+      const hex = normalizePubkey(pubkey);
+      if (!hex) {
+        return false;
+      }
+
       // In browser mode, verify through extension
       if (typeof window !== 'undefined' && window.nostr) {
         const extensionPubkey = await window.nostr.getPublicKey();
-        return extensionPubkey === pubkey;
+        return extensionPubkey === hex;
       }
-      
-      // In server mode, just verify pubkey format
-      return /^[0-9a-f]{64}$/.test(pubkey);
+
+      // In server mode, the pubkey format is all that can be checked
+      return true;
     } catch (error) {
       console.error('Error verifying session:', error);
       return false;
     }
   }
 
+  /**
+   * Creates middleware that requires a valid token issued by this instance
+   * @returns {RequestHandler} Express middleware that sets `req.nostr`
+   * @example
+   * app.get('/me', nostrAuth.requireAuth(), (req, res) => res.json(req.nostr));
+   */
+  requireAuth(): RequestHandler {
+    return requireNostrAuth({ verifyToken: (token) => this.nostrService.verifyToken(token) });
+  }
+
+  /**
+   * Creates middleware that authenticates a token issued by this instance when present
+   * @returns {RequestHandler} Express middleware that sets `req.nostr` for valid tokens
+   */
+  optionalAuth(): RequestHandler {
+    return optionalNostrAuth({ verifyToken: (token) => this.nostrService.verifyToken(token) });
+  }
+
   /**
    * Gets the Express router instance
    * @returns {Router} Express router
@@ -176,4 +709,36 @@ export class NostrAuthMiddleware {
   getRouter(): Router {
     return this.router;
   }
+
+  /**
+   * Gets the router with administrative routes
+   * @returns {Router} Express router
+   * @description
+   * Does not authenticate callers itself; mount it behind your own admin
+   * check, e.g. `app.use('/auth/nostr/admin', validateAdminApiKey, nostrAuth.getAdminRouter())`.
+   */
+  getAdminRouter(): Router {
+    return this.adminRouter;
+  }
+
+  /**
+   * Gets the service holding the managed API keys
+   * @returns {ApiKeyService} Keys administered through the admin router
+   * @description Pass it to `requireApiKey` to accept the keys on other routes.
+   */
+  getApiKeyService(): ApiKeyService {
+    return this.apiKeys;
+  }
+
+  /**
+   * Gets the router that makes this service a NIP-05 provider
+   * @returns {Router} Express router serving `/.well-known/nostr.json`
+   * @description
+   * Mount it at the root of the domain the names belong to, e.g.
+   * `app.use(nostrAuth.getNip05Router())`. Names are reserved through the
+   * admin router and published once their pubkey's enrollment is completed.
+   */
+  getNip05Router(): Router {
+    return this.nip05Router;
+  }
 }
@@ -1,22 +1,53 @@
-import { Request, Response, NextFunction } from 'express';
-import rateLimit from 'express-rate-limit';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import rateLimit, { ipKeyGenerator } from 'express-rate-limit';
 import crypto from 'crypto';
+import type { ApiKeyRecord, RateLimitKey, RateLimitOptions } from '../types.js';
+import type { ApiKeyService } from '../services/api-key.service.js';
+import type { AuditLog } from '../services/audit-log.service.js';
 import { createLogger } from '../utils/logger.js';
 
+declare module 'express-serve-static-core' {
+  interface Request {
+    /** Set by requireApiKey when a managed API key was presented */
+    apiKey?: ApiKeyRecord;
+  }
+}
+
 const logger = createLogger('SecurityMiddleware');
 
-// API Key validation
-export const validateApiKey = (req: Request, res: Response, next: NextFunction) => {
-  const apiKey = req.header('X-API-Key');
-  const validApiKeys = process.env.API_KEYS?.split(',') || [];
+/**
+ * Options for requireApiKey
+ * @interface ApiKeyAuthOptions
+ */
+export interface ApiKeyAuthOptions {
+  /** Scopes a managed key must all hold */
+  scopes?: string[];
+  /** Unmanaged keys (e.g. from `API_KEYS`) accepted with every scope */
+  staticKeys?: string[];
+  /** Records an `api_key.rejected` event for each refused request */
+  auditLog?: AuditLog;
+}
 
-  if (!apiKey) {
-    logger.warn(`Missing API key from IP: ${req.ip}`);
-    return res.status(401).json({ error: 'Invalid API key' });
-  }
+/**
+ * Options for createIpWhitelist
+ * @interface IpWhitelistOptions
+ */
+export interface IpWhitelistOptions {
+  /** Accepted client IPs (default: `ALLOWED_IPS`, read on each request); an empty list allows all */
+  allowedIPs?: string[];
+  /** Records an `ip.blocked` event for each refused request */
+  auditLog?: AuditLog;
+}
 
+/**
+ * Checks an API key against a list of valid keys in constant time
+ * @param {string} apiKey - Key presented by the client
+ * @param {string[]} validApiKeys - Accepted keys
+ * @returns {boolean} True if the key is in the list
+ */
+const isValidApiKey = (apiKey: string, validApiKeys: string[]): boolean => {
   const incomingHash = crypto.createHash('sha256').update(apiKey).digest();
-  const isValid = validApiKeys.some(validKey => {
+  return validApiKeys.some(validKey => {
     const validHash = crypto.createHash('sha256').update(validKey).digest();
     try {
       return crypto.timingSafeEqual(incomingHash, validHash);
@@ -24,8 +55,22 @@ export const validateApiKey = (req: Request, res: Response, next: NextFunction)
       return false;
     }
   });
+};
 
-  if (!isValid) {
+/**
+ * API key validation against `API_KEYS`
+ * @deprecated Records no audit events and knows no managed keys; use `requireApiKey` with `staticKeys`
+ */
+export const validateApiKey = (req: Request, res: Response, next: NextFunction) => {
+  const apiKey = req.header('X-API-Key');
+  const validApiKeys = process.env.API_KEYS?.split(',') || [];
+
+  if (!apiKey) {
+    logger.warn(`Missing API key from IP: ${req.ip}`);
+    return res.status(401).json({ error: 'Invalid API key' });
+  }
+
+  if (!isValidApiKey(apiKey, validApiKeys)) {
     logger.warn(`Invalid API key attempt from IP: ${req.ip}`);
     return res.status(401).json({ error: 'Invalid API key' });
   }
@@ -33,35 +78,159 @@ export const validateApiKey = (req: Request, res: Response, next: NextFunction)
   next();
 };
 
-// IP whitelist middleware
-export const ipWhitelist = (req: Request, res: Response, next: NextFunction) => {
-  const allowedIPs = process.env.ALLOWED_IPS?.split(',').filter(Boolean) || [];
-  
-  // If no IPs are specified, allow all
-  if (allowedIPs.length === 0) {
-    return next();
-  }
+/**
+ * Creates middleware that requires a managed API key in the `X-API-Key` header
+ * @param {ApiKeyService} apiKeys - Service holding the managed keys
+ * @param {ApiKeyAuthOptions} [options] - Required scopes and static keys
+ * @returns {RequestHandler} Express middleware that sets `req.apiKey` for managed keys
+ * @example
+ * app.use('/reports', requireApiKey(nostrAuth.getApiKeyService(), { scopes: ['reports:read'] }), reportsRouter);
+ */
+export function requireApiKey(apiKeys: ApiKeyService, options: ApiKeyAuthOptions = {}): RequestHandler {
+  const scopes = options.scopes ?? [];
+  const staticKeys = (options.staticKeys ?? []).filter(Boolean);
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const apiKey = req.header('X-API-Key');
+    if (!apiKey) {
+      logger.warn(`Missing API key from IP: ${req.ip}`);
+      options.auditLog?.record({ type: 'api_key.rejected', reason: 'missing', ip: req.ip });
+      res.status(401).json({ error: 'Invalid API key' });
+      return;
+    }
 
-  const clientIP = req.ip;
-  if (!clientIP || !allowedIPs.includes(clientIP)) {
-    logger.warn(`Blocked request from unauthorized IP: ${clientIP || 'unknown'}`);
-    return res.status(403).json({ error: 'Access denied' });
+    if (staticKeys.length && isValidApiKey(apiKey, staticKeys)) {
+      next();
+      return;
+    }
+
+    try {
+      const record = await apiKeys.authenticate(apiKey);
+      if (!record) {
+        logger.warn(`Invalid API key attempt from IP: ${req.ip}`);
+        options.auditLog?.record({ type: 'api_key.rejected', reason: 'invalid', ip: req.ip });
+        res.status(401).json({ error: 'Invalid API key' });
+        return;
+      }
+      if (!scopes.every(scope => record.scopes.includes(scope))) {
+        logger.warn(`API key ${record.id} lacks scopes ${scopes.join(' ')}`);
+        options.auditLog?.record({ type: 'api_key.rejected', reason: 'insufficient_scope', keyId: record.id, ip: req.ip });
+        res.status(403).json({ error: 'Insufficient scope', code: 'INSUFFICIENT_SCOPE' });
+        return;
+      }
+
+      req.apiKey = record;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// Admin API Key validation (for NostrAuthMiddleware#getAdminRouter)
+export const validateAdminApiKey = (req: Request, res: Response, next: NextFunction) => {
+  const apiKey = req.header('X-Admin-Key');
+  const validApiKeys = process.env.ADMIN_API_KEYS?.split(',').filter(Boolean) || [];
+
+  if (!apiKey || !isValidApiKey(apiKey, validApiKeys)) {
+    logger.warn(`Invalid admin API key attempt from IP: ${req.ip}`);
+    return res.status(401).json({ error: 'Invalid admin API key' });
   }
 
   next();
 };
 
+/**
+ * Creates middleware that only lets listed client IPs through
+ * @param {IpWhitelistOptions} [options] - Accepted IPs and audit log
+ * @returns {RequestHandler} Express middleware answering 403 for other IPs
+ */
+export function createIpWhitelist(options: IpWhitelistOptions = {}): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const allowedIPs = options.allowedIPs ?? (process.env.ALLOWED_IPS?.split(',').filter(Boolean) || []);
+
+    // If no IPs are specified, allow all
+    if (allowedIPs.length === 0) {
+      return next();
+    }
+
+    const clientIP = req.ip;
+    if (!clientIP || !allowedIPs.includes(clientIP)) {
+      logger.warn(`Blocked request from unauthorized IP: ${clientIP || 'unknown'}`);
+      options.auditLog?.record({ type: 'ip.blocked', ip: clientIP });
+      res.status(403).json({ error: 'Access denied' });
+      return;
+    }
+
+    next();
+  };
+}
+
+/**
+ * IP whitelist reading `ALLOWED_IPS`
+ * @deprecated Records no audit events; use `createIpWhitelist({ auditLog })`
+ */
+export const ipWhitelist = createIpWhitelist();
+
+const DEFAULT_RATE_LIMIT_KEYS: RateLimitKey[] = ['pubkey', 'apiKey', 'ip'];
+
+/**
+ * Picks the identity a request is counted against
+ * @param {Request} req - Express request object
+ * @param {RateLimitKey[]} keyBy - Identities to try, in order
+ * @returns {string} `pubkey:<hex>`, `apikey:<id>` or `ip:<address>`
+ * @description
+ * Only authenticated identities count, so a client cannot dodge its limit
+ * by presenting made-up pubkeys or keys. Requests without any of the
+ * identities fall back to the IP.
+ */
+function getRateLimitKey(req: Request, keyBy: RateLimitKey[]): string {
+  for (const key of keyBy) {
+    if (key === 'pubkey' && req.nostr?.pubkey) {
+      return `pubkey:${req.nostr.pubkey}`;
+    }
+    if (key === 'apiKey' && req.apiKey?.id) {
+      return `apikey:${req.apiKey.id}`;
+    }
+    if (key === 'ip' && req.ip) {
+      return `ip:${ipKeyGenerator(req.ip)}`;
+    }
+  }
+  return `ip:${ipKeyGenerator(req.ip ?? '')}`;
+}
+
+/**
+ * Creates a rate limiter counting requests per pubkey, API key or IP
+ * @param {RateLimitOptions} [options] - Window, limit, identities and counter store
+ * @returns {RequestHandler} Express middleware answering 429 once a client exceeds the limit
+ * @description
+ * Mount it after the middleware that authenticates the identity it counts,
+ * e.g. after `requireNostrAuth` to count per pubkey or after `requireApiKey`
+ * to count per managed key.
+ * @example
+ * app.post('/notes', requireNostrAuth({ jwtSecret }), createRateLimiter({ windowMs: 60000, limit: 30, keyBy: ['pubkey'] }), handler);
+ */
+export function createRateLimiter(options: RateLimitOptions = {}): RequestHandler {
+  const keyBy = options.keyBy ?? DEFAULT_RATE_LIMIT_KEYS;
+  return rateLimit({
+    windowMs: options.windowMs ?? 900000, // Default 15 minutes
+    limit: options.limit ?? 100,
+    standardHeaders: true,
+    legacyHeaders: false,
+    ...(options.store ? { store: options.store } : {}),
+    keyGenerator: (req: Request) => getRateLimitKey(req, keyBy),
+    handler: (req: Request, res: Response) => {
+      logger.warn(`Rate limit exceeded for ${getRateLimitKey(req, keyBy)} on ${req.method} ${req.originalUrl ?? req.url}`);
+      res.status(429).json({ error: 'Too many requests, please try again later' });
+    },
+  });
+}
+
 // Rate limiting configuration
-export const rateLimiter = rateLimit({
+export const rateLimiter = createRateLimiter({
   windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000'), // Default 15 minutes
-  max: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100'), // Default 100 requests per window
-  message: { error: 'Too many requests, please try again later' },
-  standardHeaders: true,
-  legacyHeaders: false,
-  handler: (req: Request, res: Response) => {
-    logger.warn(`Rate limit exceeded for IP: ${req.ip}`);
-    res.status(429).json({ error: 'Too many requests, please try again later' });
-  },
+  limit: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100'), // Default 100 requests per window
+  keyBy: ['ip']
 });
 
 // Security headers middleware
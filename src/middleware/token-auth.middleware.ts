@@ -0,0 +1,203 @@
+/**
+ * @fileoverview Express middleware for protecting routes with issued JWTs
+ * Reads `Authorization: Bearer <token>`, verifies it and attaches `req.nostr`
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import type { NostrRequestAuth, NostrTokenClaims, PublicJWK } from '../types.js';
+import type { RevocationStore } from '../stores/revocation.store.js';
+import { verifyJWT } from '../utils/jwt.utils.js';
+import { createLogger } from '../utils/logger.js';
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    /** Set by requireNostrAuth/optionalNostrAuth when a valid token was presented */
+    nostr?: NostrRequestAuth;
+  }
+}
+
+const logger = createLogger('TokenAuthMiddleware');
+
+/**
+ * Options for the token authentication middleware
+ * @interface NostrTokenAuthOptions
+ */
+export interface NostrTokenAuthOptions {
+  /** Secret used to verify HS256 tokens */
+  jwtSecret?: string;
+  /** Public keys used to verify asymmetric tokens (e.g. the `keys` from `/.well-known/jwks.json`) */
+  publicKeys?: PublicJWK[];
+  /** Custom verifier (e.g. `NostrService#verifyToken`); takes precedence over jwtSecret */
+  verifyToken?: (token: string) => NostrTokenClaims | Promise<NostrTokenClaims>;
+  /** Revocation store shared with the issuing NostrService; revoked tokens are rejected */
+  revocationStore?: RevocationStore;
+}
+
+/**
+ * Extracts the bearer token from the Authorization header
+ * @param {Request} req - Express request object
+ * @returns {string | null} The token, or null when no bearer credentials were sent
+ */
+function getBearerToken(req: Request): string | null {
+  const header = req.headers?.authorization;
+  if (!header) {
+    return null;
+  }
+
+  const [scheme, token] = header.split(' ');
+  if (scheme?.toLowerCase() !== 'bearer' || !token) {
+    return null;
+  }
+  return token;
+}
+
+/**
+ * Sends a 401 response in the format shared by all token errors
+ * @param {Response} res - Express response object
+ * @param {string} code - Machine-readable error code
+ * @param {string} error - Human-readable error message
+ */
+function rejectToken(res: Response, code: string, error: string): void {
+  res.setHeader?.('WWW-Authenticate', `Bearer error="${code === 'TOKEN_MISSING' ? 'invalid_request' : 'invalid_token'}"`);
+  res.status(401).json({ error, code });
+}
+
+/**
+ * Builds the middleware shared by the required and optional variants
+ * @param {NostrTokenAuthOptions} options - Verification options
+ * @param {boolean} required - Whether a missing token is rejected
+ * @returns {RequestHandler} Express middleware
+ */
+function createTokenAuth(options: NostrTokenAuthOptions, required: boolean): RequestHandler {
+  if (!options.verifyToken && !options.jwtSecret && !options.publicKeys?.length) {
+    throw new Error('JWT secret is required');
+  }
+  const verify = options.verifyToken
+    ?? ((token: string) => verifyJWT(token, options.publicKeys?.length ? options.publicKeys : (options.jwtSecret as string)));
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const token = getBearerToken(req);
+    if (!token) {
+      if (required) {
+        rejectToken(res, 'TOKEN_MISSING', 'Missing bearer token');
+        return;
+      }
+      next();
+      return;
+    }
+
+    let claims: NostrTokenClaims;
+    try {
+      claims = await verify(token);
+      if (await options.revocationStore?.isRevoked(claims.jti, claims.pubkey, claims.iat ?? 0)) {
+        throw new Error('JWT revoked');
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(`Rejected bearer token from IP: ${req.ip}: ${message}`);
+      if (message === 'JWT expired') {
+        rejectToken(res, 'TOKEN_EXPIRED', 'Token expired');
+      } else if (message === 'JWT revoked') {
+        rejectToken(res, 'TOKEN_REVOKED', 'Token revoked');
+      } else {
+        rejectToken(res, 'TOKEN_INVALID', 'Invalid token');
+      }
+      return;
+    }
+
+    req.nostr = { pubkey: claims.pubkey, claims };
+    next();
+  };
+}
+
+/**
+ * Creates middleware that rejects requests without a valid bearer token
+ * @param {NostrTokenAuthOptions} options - Verification options
+ * @returns {RequestHandler} Express middleware that sets `req.nostr`
+ * @throws {Error} If no jwtSecret, publicKeys or verifyToken is provided
+ * @example
+ * app.get('/me', requireNostrAuth({ jwtSecret: process.env.JWT_SECRET }), (req, res) => {
+ *   res.json({ pubkey: req.nostr!.pubkey });
+ * });
+ */
+export function requireNostrAuth(options: NostrTokenAuthOptions): RequestHandler {
+  return createTokenAuth(options, true);
+}
+
+/**
+ * Creates middleware that authenticates a bearer token when one is present
+ * @param {NostrTokenAuthOptions} options - Verification options
+ * @returns {RequestHandler} Express middleware that sets `req.nostr` for valid tokens
+ * @description
+ * Requests without an Authorization header pass through anonymously. A token
+ * that is present but invalid is still rejected with 401.
+ * @throws {Error} If no jwtSecret, publicKeys or verifyToken is provided
+ */
+export function optionalNostrAuth(options: NostrTokenAuthOptions): RequestHandler {
+  return createTokenAuth(options, false);
+}
+
+/**
+ * Builds a guard that checks a list claim of the token verified earlier in the chain
+ * @param {'roles' | 'scopes'} claim - Claim holding the granted values
+ * @param {string[]} required - Values to look for
+ * @param {boolean} all - Whether every value is needed rather than any one
+ * @returns {RequestHandler} Express middleware
+ */
+function createClaimGuard(claim: 'roles' | 'scopes', required: string[], all: boolean): RequestHandler {
+  if (!required.length) {
+    throw new Error(`At least one of ${claim} is required`);
+  }
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.nostr) {
+      rejectToken(res, 'TOKEN_MISSING', 'Missing bearer token');
+      return;
+    }
+
+    // A malformed claim (e.g. a string, whose includes() matches substrings) grants nothing
+    const value = req.nostr.claims[claim];
+    const granted = Array.isArray(value) ? value : [];
+    const allowed = all ? required.every(value => granted.includes(value)) : required.some(value => granted.includes(value));
+    if (allowed) {
+      next();
+      return;
+    }
+
+    logger.warn(`Pubkey ${req.nostr.pubkey} lacks ${claim} ${required.join(', ')}`);
+    if (claim === 'scopes') {
+      res.setHeader?.('WWW-Authenticate', `Bearer error="insufficient_scope", scope="${required.join(' ')}"`);
+      res.status(403).json({ error: 'Insufficient scope', code: 'INSUFFICIENT_SCOPE' });
+    } else {
+      res.status(403).json({ error: 'Insufficient role', code: 'INSUFFICIENT_ROLE' });
+    }
+  };
+}
+
+/**
+ * Creates a guard that admits tokens holding at least one of the roles
+ * @param {...string} roles - Accepted roles
+ * @returns {RequestHandler} Express middleware; mount it after requireNostrAuth
+ * @description
+ * Requests without `req.nostr` get 401 `TOKEN_MISSING`; tokens without a
+ * matching role get 403 `INSUFFICIENT_ROLE`.
+ * @example
+ * app.delete('/posts/:id', requireNostrAuth({ jwtSecret }), requireRole('admin', 'moderator'), handler);
+ */
+export function requireRole(...roles: string[]): RequestHandler {
+  return createClaimGuard('roles', roles, false);
+}
+
+/**
+ * Creates a guard that admits tokens holding every one of the scopes
+ * @param {...string} scopes - Required scopes
+ * @returns {RequestHandler} Express middleware; mount it after requireNostrAuth
+ * @description
+ * Requests without `req.nostr` get 401 `TOKEN_MISSING`; tokens missing a
+ * scope get 403 `INSUFFICIENT_SCOPE`.
+ * @example
+ * app.post('/invoices', requireNostrAuth({ jwtSecret }), requireScope('invoices:write'), handler);
+ */
+export function requireScope(...scopes: string[]): RequestHandler {
+  return createClaimGuard('scopes', scopes, true);
+}
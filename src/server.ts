@@ -1,78 +1,219 @@
 import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
+import WebSocket from 'ws';
 import { createLogger } from './utils/logger.js';
 import { NostrAuthMiddleware } from './middleware/nostr-auth.middleware.js';
-import { validateApiKey, ipWhitelist, rateLimiter, securityHeaders } from './middleware/security.middleware.js';
+import { requireApiKey, validateAdminApiKey, createIpWhitelist, rateLimiter, securityHeaders } from './middleware/security.middleware.js';
 import { config } from './config/index.js';
+import {
+  openSqliteDatabase,
+  SqliteChallengeStore,
+  SqliteSessionStore,
+  SqliteRefreshTokenStore,
+  SqliteRevocationStore,
+  SqliteEnrollmentStore,
+  SqliteNip05NameStore,
+  SqliteApiKeyStore
+} from './stores/sqlite.store.js';
+import { MemoryRefreshTokenStore } from './stores/memory-refresh-token.store.js';
+import { Nip51MembershipPolicy } from './services/nip51-membership.service.js';
+import { AuditLog } from './services/audit-log.service.js';
+import { JsonLinesAuditSink } from './stores/jsonl-audit-sink.store.js';
+import { HashChainAuditSink } from './stores/hash-chain-audit-sink.store.js';
+import type { AuditSink } from './stores/audit-sink.store.js';
+import type { RelayWebSocket, WebSocketFactory } from './services/relay-pool.service.js';
 import { NostrAuthConfig, JWTExpiresIn } from './types.js';
 
 const logger = createLogger('Server');
 const app = express();
 const PORT = process.env.PORT || 3002;
 
-// Trust proxy if behind a reverse proxy
-app.set('trust proxy', config.security?.trustedProxies || false);
-
-// Security Middleware
-app.use(helmet());
-app.use(securityHeaders);
-app.use(ipWhitelist);
-app.use(rateLimiter);
-
-// CORS configuration
-// SECURITY: Never combine wildcard origin ('*') with credentials: true.
-// If no explicit origins are configured, CORS is disabled (origin: false).
-app.use(cors({
-  origin: config.corsOrigins && config.corsOrigins !== '*' ? config.corsOrigins : false,
-  methods: ['GET', 'POST', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
-  credentials: !!(config.corsOrigins && config.corsOrigins !== '*')
-}));
-
-app.use(express.json());
-
-// Request logging
-app.use((req, res, next) => {
-  logger.info(`${req.method} ${req.url} from ${req.ip}`);
-  next();
-});
+/**
+ * Opens relay connections with the ws package; Node.js before 22 has no global WebSocket
+ * @param {string} url - Relay URL
+ * @returns {RelayWebSocket} The socket
+ */
+const createWebSocket: WebSocketFactory = (url) => new WebSocket(url) as unknown as RelayWebSocket;
 
-// Health check endpoint (no API key required)
-app.get('/health', (req, res) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
-});
+/**
+ * Builds the audit log when AUDIT_LOG_PATH is configured
+ * @returns {Promise<AuditLog | undefined>} A log writing to a hash-chained sink signing checkpoints with the server key when AUDIT_LOG_CHAINED is set, otherwise to a plain JSON-lines sink
+ * @throws {Error} If AUDIT_LOG_CHAINED is set without SERVER_PRIVATE_KEY, or the existing chained log cannot be continued
+ */
+async function createAuditLog(): Promise<AuditLog | undefined> {
+  const { auditLogPath, auditLogChained, privateKey } = config;
+  if (!auditLogPath) {
+    return undefined;
+  }
 
-// Initialize Nostr auth middleware
-const nostrConfig: NostrAuthConfig = {
-  port: config.port,
-  nodeEnv: config.nodeEnv,
-  eventTimeoutMs: 5000,
-  challengePrefix: 'nostr:auth:',
-  supabaseUrl: config.supabaseUrl,
-  supabaseKey: config.supabaseKey,
-  jwtSecret: config.jwtSecret || '',
-  jwtExpiresIn: '24h' as JWTExpiresIn,
-  testMode: config.testMode,
-  privateKey: config.privateKey,
-  publicKey: config.publicKey,
-  keyManagementMode: 'development'
-};
-
-const nostrAuth = new NostrAuthMiddleware(nostrConfig);
-
-// Mount Nostr auth routes with API key validation
-app.use('/auth/nostr', validateApiKey, nostrAuth.getRouter());
-
-// Error handling
-app.use((err: Error, req: express.Request, res: express.Response, _next: express.NextFunction) => {
-  logger.error('Unhandled error:', err);
-  res.status(500).json({ error: 'Internal server error' });
-});
+  let sink: AuditSink;
+  if (auditLogChained) {
+    if (!privateKey) {
+      throw new Error('AUDIT_LOG_CHAINED requires SERVER_PRIVATE_KEY to sign audit checkpoints');
+    }
+    const chain = new HashChainAuditSink(auditLogPath, { privateKey });
+    // A chain that cannot be continued would drop every event, so refuse to start instead
+    await chain.open();
+    sink = chain;
+  } else {
+    sink = new JsonLinesAuditSink(auditLogPath);
+  }
+  return new AuditLog([sink]);
+}
+
+/**
+ * Opens the SQLite stores when SQLITE_PATH is configured, falling back to in-memory refresh tokens
+ * @returns {Promise<Pick<NostrAuthConfig, 'challengeStore' | 'sessionStore' | 'refreshTokenStore' | 'revocationStore' | 'enrollmentStore' | 'nip05NameStore' | 'apiKeyStore'>>} Store overrides for the auth config
+ */
+async function createStores(): Promise<Pick<NostrAuthConfig, 'challengeStore' | 'sessionStore' | 'refreshTokenStore' | 'revocationStore' | 'enrollmentStore' | 'nip05NameStore' | 'apiKeyStore'>> {
+  if (!config.sqlitePath) {
+    return { refreshTokenStore: new MemoryRefreshTokenStore() };
+  }
+
+  const db = await openSqliteDatabase(config.sqlitePath);
+  return {
+    challengeStore: new SqliteChallengeStore(db),
+    sessionStore: new SqliteSessionStore(db),
+    refreshTokenStore: new SqliteRefreshTokenStore(db),
+    revocationStore: new SqliteRevocationStore(db),
+    enrollmentStore: new SqliteEnrollmentStore(db),
+    nip05NameStore: new SqliteNip05NameStore(db),
+    apiKeyStore: new SqliteApiKeyStore(db)
+  };
+}
+
+/**
+ * Builds the NIP-51 membership gate when a list is configured
+ * @returns {Pick<NostrAuthConfig, 'accessPolicy'>} The access policy override, or nothing
+ */
+function createMembershipPolicy(): Pick<NostrAuthConfig, 'accessPolicy'> {
+  if (!config.membershipListAuthor || !config.membershipListId) {
+    return {};
+  }
+
+  const membership = new Nip51MembershipPolicy({
+    adminPubkey: config.membershipListAuthor,
+    listId: config.membershipListId,
+    relays: config.nostrRelays ?? [],
+    createWebSocket,
+    snapshotPath: config.membershipSnapshotPath
+  });
+  return { accessPolicy: membership.asAccessPolicy() };
+}
+
+async function start(): Promise<void> {
+  const auditLog = await createAuditLog();
+
+  // Trust proxy if behind a reverse proxy
+  app.set('trust proxy', config.security?.trustedProxies || false);
+
+  // Security Middleware
+  app.use(helmet());
+  app.use(securityHeaders);
+  app.use(createIpWhitelist({ auditLog }));
+  // Per-IP backstop for every route, including the admin routes, nostr.json and rejected API keys
+  app.use(rateLimiter);
+
+  // CORS configuration
+  // SECURITY: Never combine wildcard origin ('*') with credentials: true.
+  // If no explicit origins are configured, CORS is disabled (origin: false).
+  app.use(cors({
+    origin: config.corsOrigins && config.corsOrigins !== '*' ? config.corsOrigins : false,
+    methods: ['GET', 'POST', 'OPTIONS'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
+    credentials: !!(config.corsOrigins && config.corsOrigins !== '*')
+  }));
+
+  app.use(express.json());
+
+  // Request logging
+  app.use((req, res, next) => {
+    logger.info(`${req.method} ${req.url} from ${req.ip}`);
+    next();
+  });
+
+  // Health check endpoint (no API key required)
+  app.get('/health', (req, res) => {
+    res.json({ status: 'ok', timestamp: new Date().toISOString() });
+  });
+
+  // Initialize Nostr auth middleware
+  const nostrConfig: NostrAuthConfig = {
+    port: config.port,
+    nodeEnv: config.nodeEnv,
+    eventTimeoutMs: 5000,
+    challengePrefix: 'nostr:auth:',
+    supabaseUrl: config.supabaseUrl,
+    supabaseKey: config.supabaseKey,
+    jwtSecret: config.jwtSecret || '',
+    jwtExpiresIn: '24h' as JWTExpiresIn,
+    testMode: config.testMode,
+    privateKey: config.privateKey,
+    publicKey: config.publicKey,
+    keyManagementMode: 'development',
+    nostrRelays: config.nostrRelays,
+    createWebSocket,
+    allowedPubkeys: config.allowedPubkeys,
+    deniedPubkeys: config.deniedPubkeys,
+    auditLog,
+    // Login routes count per IP; /refresh and /profile count per managed API key, so they allow more
+    rateLimits: {
+      challenge: { windowMs: 60000, limit: 10 },
+      verify: { windowMs: 60000, limit: 20 },
+      enroll: { windowMs: 3600000, limit: 5 },
+      refresh: { windowMs: 60000, limit: 600 },
+      profile: { windowMs: 60000, limit: 1200 }
+    },
+    ...(config.powDifficulty !== undefined ? { proofOfWork: { difficulty: config.powDifficulty } } : {}),
+    ...createMembershipPolicy(),
+    ...(await createStores())
+  };
+
+  const nostrAuth = new NostrAuthMiddleware(nostrConfig);
+
+  // Mount admin routes first so they are guarded by the admin key rather than a client key
+  app.use('/auth/nostr/admin', validateAdminApiKey, nostrAuth.getAdminRouter());
+
+  // NIP-05 clients on any site fetch nostr.json without an API key
+  if (config.nip05Provider) {
+    app.use(nostrAuth.getNip05Router());
+  }
+
+  // Mount Nostr auth routes with API key validation; API_KEYS stay valid next to the managed keys
+  app.use('/auth/nostr', requireApiKey(nostrAuth.getApiKeyService(), { staticKeys: config.security?.apiKeys, auditLog }), nostrAuth.getRouter());
+
+  // Error handling
+  app.use((err: Error, req: express.Request, res: express.Response, _next: express.NextFunction) => {
+    logger.error('Unhandled error:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  });
+
+  // Start server
+  const server = app.listen(PORT, () => {
+    logger.info(`Nostr Auth Middleware running on port ${PORT}`);
+    if (config.sqlitePath) {
+      logger.info(`Persisting challenges and sessions to ${config.sqlitePath}`);
+    } else {
+      logger.info(`Connected to Supabase at ${config.supabaseUrl}`);
+    }
+    logger.info(`Using Nostr relays: ${config.nostrRelays?.join(', ') ?? 'default relays'}`);
+    if (config.auditLogPath) {
+      logger.info(`Writing audit events to ${config.auditLogPath}`);
+    }
+  });
+
+  // Stop taking requests, then flush the audit log; a chained log is sealed with a final checkpoint
+  const shutdown = (signal: string) => {
+    logger.info(`Received ${signal}, shutting down`);
+    server.close();
+    (auditLog?.close() ?? Promise.resolve()).finally(() => process.exit(0));
+  };
+  process.once('SIGTERM', shutdown);
+  process.once('SIGINT', shutdown);
+}
 
-// Start server
-app.listen(PORT, () => {
-  logger.info(`Nostr Auth Middleware running on port ${PORT}`);
-  logger.info(`Connected to Supabase at ${config.supabaseUrl}`);
-  logger.info(`Using Nostr relays: ${config.nostrRelays?.join(', ') ?? 'default relays'}`);
+start().catch((error) => {
+  logger.error('Failed to start server:', { error: error instanceof Error ? error.message : String(error) });
+  process.exit(1);
 });
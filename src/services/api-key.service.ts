@@ -0,0 +1,193 @@
+/**
+ * @fileoverview Managed API keys
+ * Issues, checks and rotates API keys kept hashed in an ApiKeyStore
+ */
+
+import crypto from 'crypto';
+import type { ApiKeyOptions, ApiKeyRecord, ApiKeyResult } from '../types.js';
+import type { ApiKeyStore } from '../stores/api-key.store.js';
+import { MemoryApiKeyStore } from '../stores/memory-api-key.store.js';
+import { generateApiKey, hashApiKey, verifyApiKey } from '../utils/api-key.utils.js';
+import { parseExpiresIn } from '../utils/jwt.utils.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('ApiKeyService');
+
+const DEFAULT_GRACE_PERIOD_SECONDS = 86400; // 1 day
+
+/** Skip last-used writes for keys used again within this many seconds */
+const LAST_USED_RESOLUTION_SECONDS = 60;
+
+/**
+ * Issues and authenticates managed API keys
+ * @class ApiKeyService
+ * @description
+ * Keys are random 256-bit values returned once at creation; the store only
+ * sees their SHA-256. Rotation issues a replacement with the same owner and
+ * scopes and lets the old key keep working for a grace period so clients can
+ * switch over without downtime.
+ */
+export class ApiKeyService {
+  private readonly store: ApiKeyStore;
+
+  /**
+   * Creates a new ApiKeyService
+   * @param {ApiKeyStore} [store] - Key storage (default: in-memory)
+   */
+  constructor(store: ApiKeyStore = new MemoryApiKeyStore()) {
+    this.store = store;
+  }
+
+  /**
+   * Issues a new key
+   * @param {ApiKeyOptions} options - Owner, scopes and lifetime
+   * @returns {Promise<ApiKeyResult>} The key and its record, or why it was refused
+   */
+  async create(options: ApiKeyOptions): Promise<ApiKeyResult> {
+    const invalid = this.validateOptions(options);
+    if (invalid || !options.owner) {
+      return { success: false, error: invalid ?? 'Missing owner', code: 'INVALID_API_KEY_REQUEST' };
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    return this.issue(options.owner, options.scopes ?? [], options.expiresIn ? now + parseExpiresIn(options.expiresIn) : undefined, now);
+  }
+
+  /**
+   * Checks a presented key
+   * @param {string} key - Key from the request
+   * @returns {Promise<ApiKeyRecord | null>} The key's record, or null if the key is unknown or expired
+   */
+  async authenticate(key: string): Promise<ApiKeyRecord | null> {
+    if (!key) {
+      return null;
+    }
+
+    const record = await this.store.findByHash(hashApiKey(key));
+    if (!record || !verifyApiKey(key, record.key_hash)) {
+      return null;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (record.expires_at !== undefined && record.expires_at <= now) {
+      return null;
+    }
+
+    if (record.last_used_at === undefined || now - record.last_used_at >= LAST_USED_RESOLUTION_SECONDS) {
+      record.last_used_at = now;
+      await this.store.touch(record.id, now).catch((error: unknown) => {
+        logger.warn('Failed to record API key use:', { error: error instanceof Error ? error.message : String(error) });
+      });
+    }
+    return record;
+  }
+
+  /**
+   * Replaces a key, keeping the old one valid for a grace period
+   * @param {string} id - Key identifier
+   * @param {ApiKeyOptions} [options] - `gracePeriodSeconds`, plus `scopes` / `expiresIn` to change them on the new key
+   * @returns {Promise<ApiKeyResult>} The new key and its record, or why rotation was refused
+   * @description
+   * The old key expires after the grace period (or at its own expiry, if
+   * sooner) and records the id of its replacement. A key can only be rotated
+   * once; rotate the replacement instead.
+   */
+  async rotate(id: string, options: ApiKeyOptions = {}): Promise<ApiKeyResult> {
+    const invalid = this.validateOptions(options);
+    if (invalid) {
+      return { success: false, error: invalid, code: 'INVALID_API_KEY_REQUEST' };
+    }
+
+    const current = await this.store.get(id);
+    if (!current) {
+      return { success: false, error: 'API key not found', code: 'API_KEY_NOT_FOUND' };
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (current.rotated_to || (current.expires_at !== undefined && current.expires_at <= now)) {
+      return { success: false, error: 'API key is expired or already rotated', code: 'API_KEY_INACTIVE' };
+    }
+
+    let expiresAt: number | undefined;
+    if (options.expiresIn) {
+      expiresAt = now + parseExpiresIn(options.expiresIn);
+    } else if (current.expires_at !== undefined) {
+      expiresAt = now + (current.expires_at - current.created_at);
+    }
+
+    const result = await this.issue(current.owner, options.scopes ?? current.scopes, expiresAt, now);
+    const graceEnd = now + (options.gracePeriodSeconds ?? DEFAULT_GRACE_PERIOD_SECONDS);
+    await this.store.put({
+      ...current,
+      expires_at: Math.min(current.expires_at ?? graceEnd, graceEnd),
+      rotated_to: result.record!.id
+    });
+    logger.info(`Rotated API key ${id} to ${result.record!.id}`);
+    return result;
+  }
+
+  /**
+   * Deletes a key immediately
+   * @param {string} id - Key identifier
+   * @returns {Promise<boolean>} True if the key existed
+   */
+  async revoke(id: string): Promise<boolean> {
+    const removed = await this.store.delete(id);
+    if (removed) {
+      logger.info(`Revoked API key ${id}`);
+    }
+    return removed;
+  }
+
+  /**
+   * Lists keys, including expired and rotated ones
+   * @param {string} [owner] - Only return the keys of this owner
+   * @returns {Promise<ApiKeyRecord[]>} Key records, oldest first
+   */
+  async list(owner?: string): Promise<ApiKeyRecord[]> {
+    return this.store.list(owner);
+  }
+
+  /**
+   * Generates and stores a key
+   * @param {string} owner - Key owner
+   * @param {string[]} scopes - Granted scopes
+   * @param {number | undefined} expiresAt - Unix timestamp in seconds, or undefined for no expiry
+   * @param {number} now - Unix timestamp in seconds
+   * @returns {Promise<ApiKeyResult>} The key and its record
+   */
+  private async issue(owner: string, scopes: string[], expiresAt: number | undefined, now: number): Promise<ApiKeyResult> {
+    const key = generateApiKey();
+    const record: ApiKeyRecord = {
+      id: crypto.randomUUID(),
+      key_hash: hashApiKey(key),
+      owner,
+      scopes: [...new Set(scopes)],
+      created_at: now,
+      ...(expiresAt !== undefined ? { expires_at: expiresAt } : {})
+    };
+    await this.store.put(record);
+    return { success: true, key, record };
+  }
+
+  /**
+   * Checks the fields of create and rotate options
+   * @param {ApiKeyOptions} options - Options to check
+   * @returns {string | null} A description of the first problem, or null if the options are valid
+   */
+  private validateOptions(options: ApiKeyOptions): string | null {
+    if (options.owner !== undefined && (typeof options.owner !== 'string' || !options.owner.trim())) {
+      return 'owner must be a non-empty string';
+    }
+    if (options.scopes !== undefined && (!Array.isArray(options.scopes) || !options.scopes.every(scope => typeof scope === 'string' && scope))) {
+      return 'scopes must be an array of non-empty strings';
+    }
+    if (options.expiresIn !== undefined && !/^\d+[smhd]$/.test(String(options.expiresIn))) {
+      return 'expiresIn must look like 30d, 12h, 15m or 90s';
+    }
+    if (options.gracePeriodSeconds !== undefined && (!Number.isInteger(options.gracePeriodSeconds) || options.gracePeriodSeconds < 0)) {
+      return 'gracePeriodSeconds must be a non-negative integer';
+    }
+    return null;
+  }
+}
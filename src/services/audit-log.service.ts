@@ -0,0 +1,82 @@
+/**
+ * @fileoverview Audit trail of authentication events
+ * Stamps events and hands them to pluggable sinks
+ */
+
+import type { AuditEvent, AuditEventData } from '../types.js';
+import type { AuditSink } from '../stores/audit-sink.store.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('AuditLog');
+
+/**
+ * Records authentication events to a set of sinks
+ * @class AuditLog
+ * @description
+ * Pass one instance to NostrAuthConfig's `auditLog`, `requireApiKey` and
+ * `createIpWhitelist` so all events end up in the same sinks. Recording
+ * never throws: a failing sink is logged and skipped.
+ * @example
+ * const audit = new MemoryAuditSink();
+ * const auditLog = new AuditLog([audit, new JsonLinesAuditSink('data/audit.jsonl')]);
+ * const nostrAuth = new NostrAuthMiddleware({ jwtSecret, auditLog });
+ */
+export class AuditLog {
+  private readonly sinks: AuditSink[];
+
+  /**
+   * Creates a new AuditLog
+   * @param {AuditSink[]} [sinks] - Sinks every event is written to
+   */
+  constructor(sinks: AuditSink[] = []) {
+    this.sinks = [...sinks];
+  }
+
+  /**
+   * Adds a sink; it receives the events recorded from now on
+   * @param {AuditSink} sink - The sink
+   */
+  addSink(sink: AuditSink): void {
+    this.sinks.push(sink);
+  }
+
+  /**
+   * Records an event
+   * @param {AuditEventData} data - Event type and details
+   * @returns {AuditEvent} The event as written, with its timestamp
+   */
+  record(data: AuditEventData): AuditEvent {
+    const event: AuditEvent = { ...data, created_at: Math.floor(Date.now() / 1000) };
+    for (const sink of this.sinks) {
+      try {
+        Promise.resolve(sink.write(event)).catch((error) => this.reportFailure(event, error));
+      } catch (error) {
+        this.reportFailure(event, error);
+      }
+    }
+    return event;
+  }
+
+  /**
+   * Waits for pending writes and closes every sink (for graceful shutdown)
+   * @returns {Promise<void>}
+   */
+  async close(): Promise<void> {
+    await Promise.all(this.sinks.map(async (sink) => {
+      try {
+        await sink.close?.();
+      } catch (error) {
+        logger.error('Failed to close audit sink:', { error: error instanceof Error ? error.message : String(error) });
+      }
+    }));
+  }
+
+  /**
+   * Logs an event a sink could not write
+   * @param {AuditEvent} event - The event
+   * @param {unknown} error - What the sink threw
+   */
+  private reportFailure(event: AuditEvent, error: unknown): void {
+    logger.error(`Audit sink failed to write ${event.type} event:`, { error: error instanceof Error ? error.message : String(error) });
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * @fileoverview NIP-05 identifier resolution
+ * Maps `name@domain` identifiers to pubkeys through the domain's `/.well-known/nostr.json`
+ * @see https://github.com/nostr-protocol/nips/blob/master/05.md
+ */
+
+import { lookup as dnsLookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import type { Nip05Resolution, Nip05ResolverConfig } from '../types.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('Nip05Resolver');
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const DEFAULT_CACHE_TTL_MS = 300000; // 5 minutes
+const DEFAULT_MAX_CACHE_ENTRIES = 1000;
+
+/** Unspecified, private, shared (CGNAT), loopback, link-local, benchmarking, multicast and reserved ranges */
+const INTERNAL_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const) {
+  INTERNAL_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  INTERNAL_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+interface CachedResolution {
+  resolution: Nip05Resolution | null;
+  expiresAt: number;
+}
+
+/**
+ * Resolves a host name with the system resolver
+ * @param {string} hostname - The host
+ * @returns {Promise<string[]>} Every address it resolves to
+ */
+async function lookupHost(hostname: string): Promise<string[]> {
+  return (await dnsLookup(hostname, { all: true })).map(({ address }) => address);
+}
+
+/**
+ * Checks whether an address belongs to a network a public NIP-05 domain never resolves to
+ * @param {string} address - IPv4 or IPv6 address; IPv4-mapped IPv6 addresses are checked as IPv4
+ * @returns {boolean} True for internal addresses and for anything that is not an IP address
+ */
+function isInternalAddress(address: string): boolean {
+  const ip = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)?.[1] ?? address;
+  const family = isIP(ip);
+  return !family || INTERNAL_ADDRESSES.check(ip, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Splits a NIP-05 identifier into its local part and domain
+ * @param {string} identifier - `name@domain`, or a bare `domain` for `_@domain`
+ * @returns {{ name: string; domain: string } | null} The parts (name lowercased), or null if malformed
+ */
+export function parseNip05Identifier(identifier: string): { name: string; domain: string } | null {
+  const [name, domain, ...rest] = identifier.includes('@') ? identifier.split('@') : ['_', identifier];
+  if (rest.length || !name || !domain) {
+    return null;
+  }
+  if (!/^[a-z0-9-_.]+$/i.test(name) || !/^[a-z0-9-.]+(:\d+)?$/i.test(domain)) {
+    return null;
+  }
+  // Identifiers name public DNS hosts; Nip05Resolver also checks what the host resolves to before fetching
+  const host = domain.replace(/:\d+$/, '');
+  if (host === 'localhost' || host.endsWith('.localhost') || /^[\d.]+$/.test(host)) {
+    return null;
+  }
+  return { name: name.toLowerCase(), domain: domain.toLowerCase() };
+}
+
+export class Nip05Resolver {
+  private readonly fetch: typeof fetch;
+  private readonly timeoutMs: number;
+  private readonly cacheTtlMs: number;
+  private readonly maxCacheEntries: number;
+  private readonly lookupHost: (hostname: string) => Promise<string[]>;
+  private readonly cache = new Map<string, CachedResolution>();
+
+  constructor(config: Nip05ResolverConfig = {}) {
+    this.fetch = config.fetch ?? ((input, init) => fetch(input, init));
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.cacheTtlMs = config.cacheTtlMs ?? DEFAULT_CACHE_TTL_MS;
+    this.maxCacheEntries = config.maxCacheEntries ?? DEFAULT_MAX_CACHE_ENTRIES;
+    this.lookupHost = config.lookupHost ?? lookupHost;
+  }
+
+  /**
+   * Looks up the pubkey and relay hints a domain publishes for a name
+   * @param {string} identifier - NIP-05 identifier (`name@domain`)
+   * @returns {Promise<Nip05Resolution | null>} The resolution, or null if the name is unknown or the lookup failed
+   * @description
+   * Results, including misses, are cached for `cacheTtlMs`; past `maxCacheEntries` the oldest entry is
+   * dropped. Redirects are refused, as NIP-05 requires. Domains that resolve to a loopback, private,
+   * link-local, multicast or reserved address are not fetched. `fetch` resolves the host again, so a
+   * domain whose DNS answer changes in between can still reach an internal address; set
+   * `nip05Domains` on NostrAuthConfig to limit lookups to trusted domains.
+   */
+  async resolve(identifier: string): Promise<Nip05Resolution | null> {
+    const parsed = parseNip05Identifier(identifier);
+    if (!parsed) {
+      return null;
+    }
+
+    const key = `${parsed.name}@${parsed.domain}`;
+    const now = Date.now();
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > now) {
+      return cached.resolution;
+    }
+
+    const resolution = await this.lookup(parsed.name, parsed.domain);
+    for (const [cachedKey, entry] of this.cache) {
+      if (entry.expiresAt <= now) {
+        this.cache.delete(cachedKey);
+      }
+    }
+    // Maps iterate in insertion order, so the first key is the oldest entry
+    while (this.cache.size >= this.maxCacheEntries && this.cache.size > 0) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    this.cache.set(key, { resolution, expiresAt: now + this.cacheTtlMs });
+    return resolution;
+  }
+
+  /**
+   * Checks that an identifier maps to a pubkey
+   * @param {string} identifier - NIP-05 identifier claimed in a profile
+   * @param {string} pubkey - Public key (hex) the identifier should map to
+   * @returns {Promise<Nip05Resolution | null>} The resolution if it matches the pubkey, otherwise null
+   */
+  async verify(identifier: string, pubkey: string): Promise<Nip05Resolution | null> {
+    const resolution = await this.resolve(identifier);
+    return resolution?.pubkey === pubkey.toLowerCase() ? resolution : null;
+  }
+
+  /**
+   * Fetches and reads a domain's nostr.json
+   * @param {string} name - Lowercased local part
+   * @param {string} domain - Lowercased domain
+   * @returns {Promise<Nip05Resolution | null>} The resolution, or null
+   */
+  private async lookup(name: string, domain: string): Promise<Nip05Resolution | null> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+    try {
+      const host = domain.replace(/:\d+$/, '');
+      const addresses = await this.lookupHost(host);
+      if (!addresses.length || addresses.some(isInternalAddress)) {
+        logger.warn(`Refusing NIP-05 lookup for ${name}@${domain}: ${host} resolves to an internal address`);
+        return null;
+      }
+
+      const response = await this.fetch(`https://${domain}/.well-known/nostr.json?name=${encodeURIComponent(name)}`, {
+        redirect: 'error',
+        signal: controller.signal,
+        headers: { Accept: 'application/json' }
+      });
+      if (!response.ok) {
+        return null;
+      }
+
+      const body = await response.json() as { names?: Record<string, unknown>; relays?: Record<string, unknown> };
+      const entry = Object.entries(body?.names ?? {}).find(([key]) => key.toLowerCase() === name)?.[1];
+      if (typeof entry !== 'string' || !/^[0-9a-f]{64}$/i.test(entry)) {
+        return null;
+      }
+
+      const pubkey = entry.toLowerCase();
+      const hints = body.relays?.[pubkey] ?? body.relays?.[entry];
+      const relays = Array.isArray(hints) ? hints.filter((url): url is string => typeof url === 'string') : [];
+      return { identifier: `${name}@${domain}`, pubkey, relays };
+    } catch (error) {
+      logger.warn(`NIP-05 lookup failed for ${name}@${domain}:`, { error: error instanceof Error ? error.message : String(error) });
+      return null;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,243 @@
+/**
+ * @fileoverview Membership checks against a NIP-51 follow set
+ * Gates logins on a kind 30000 list signed by an admin key
+ * @see https://github.com/nostr-protocol/nips/blob/master/51.md
+ */
+
+import { readFile, rename, writeFile } from 'fs/promises';
+import type { AccessPolicy, Nip51MembershipConfig, NostrEvent } from '../types.js';
+import { RelayPool } from './relay-pool.service.js';
+import { generateEventHash, verifySignature } from '../utils/crypto.utils.js';
+import { normalizePubkey } from '../utils/nip19.utils.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('Nip51Membership');
+
+const DEFAULT_CACHE_TTL_MS = 300000; // 5 minutes
+
+/** Event kind for follow sets (NIP-51) */
+const FOLLOW_SET_KIND = 30000;
+
+/**
+ * Tracks the members of an admin-signed follow set
+ * @class Nip51MembershipPolicy
+ * @description
+ * Only public `p` tags count; encrypted private items cannot be read without
+ * the admin's key. The newest verified version of the list wins and an older
+ * version served later by a lagging relay never replaces it. While relays are
+ * unreachable the last known version (or the snapshot) keeps being used; with
+ * no version at all, nobody is a member.
+ * @example
+ * const membership = new Nip51MembershipPolicy({ adminPubkey, listId: 'members', relays, snapshotPath: 'data/members.json' });
+ * const auth = new NostrAuthMiddleware({ jwtSecret, accessPolicy: membership.asAccessPolicy() });
+ */
+export class Nip51MembershipPolicy {
+  private readonly config: Nip51MembershipConfig;
+  private readonly adminPubkey: string;
+  private readonly pool?: RelayPool;
+  private readonly ownsPool: boolean;
+  private list?: NostrEvent;
+  private members = new Set<string>();
+  private checkedAt?: number;
+  private snapshotRead = false;
+  private loading?: Promise<void>;
+
+  /**
+   * Creates a new Nip51MembershipPolicy
+   * @param {Nip51MembershipConfig} config - List coordinates, relays, snapshot and cache settings
+   * @param {RelayPool} [pool] - Shared pool for `config.relays`; one is created (and closed by destroy) if omitted
+   * @throws {Error} If `adminPubkey` is not a hex pubkey or npub
+   */
+  constructor(config: Nip51MembershipConfig, pool?: RelayPool) {
+    const adminPubkey = normalizePubkey(config.adminPubkey);
+    if (!adminPubkey) {
+      throw new Error('Invalid list admin pubkey');
+    }
+
+    this.config = config;
+    this.adminPubkey = adminPubkey;
+    this.ownsPool = !pool && config.relays.length > 0;
+    this.pool = pool ?? (config.relays.length
+      ? new RelayPool(config.relays, { createWebSocket: config.createWebSocket, timeoutMs: config.timeoutMs })
+      : undefined);
+  }
+
+  /**
+   * Closes the relay connections if this policy opened them
+   */
+  destroy(): void {
+    if (this.ownsPool) {
+      this.pool?.close();
+    }
+  }
+
+  /**
+   * Checks whether a pubkey is on the list
+   * @param {string} pubkey - Public key (hex)
+   * @returns {Promise<boolean>} True if the newest known list version has a `p` tag for it
+   */
+  async isMember(pubkey: string): Promise<boolean> {
+    await this.ensureFresh();
+    return this.members.has(pubkey);
+  }
+
+  /**
+   * Returns the members of the newest known list version
+   * @returns {Promise<string[]>} Hex pubkeys
+   */
+  async getMembers(): Promise<string[]> {
+    await this.ensureFresh();
+    return [...this.members];
+  }
+
+  /**
+   * Fetches the list from the relays now instead of waiting for the cache to expire
+   * @returns {Promise<void>}
+   */
+  async refresh(): Promise<void> {
+    this.checkedAt = undefined;
+    await this.ensureFresh();
+  }
+
+  /**
+   * Adapts the policy to the `accessPolicy` option of NostrAuthConfig
+   * @returns {AccessPolicy} Callback that allows list members only
+   */
+  asAccessPolicy(): AccessPolicy {
+    return (pubkey) => this.isMember(pubkey);
+  }
+
+  /**
+   * Loads the list unless the cached version is still fresh; concurrent callers share one load
+   * @returns {Promise<void>}
+   */
+  private async ensureFresh(): Promise<void> {
+    const ttl = this.config.cacheTtlMs ?? DEFAULT_CACHE_TTL_MS;
+    if (this.checkedAt !== undefined && Date.now() - this.checkedAt < ttl) {
+      return;
+    }
+
+    this.loading ??= this.load().finally(() => {
+      this.checkedAt = Date.now();
+      this.loading = undefined;
+    });
+    await this.loading;
+  }
+
+  /**
+   * Reads the snapshot on first use, then asks the relays for newer versions
+   * @returns {Promise<void>}
+   */
+  private async load(): Promise<void> {
+    if (!this.snapshotRead) {
+      this.snapshotRead = true;
+      await this.readSnapshot();
+    }
+    if (!this.pool) {
+      return;
+    }
+
+    try {
+      const events = await this.pool.query(
+        [{ kinds: [FOLLOW_SET_KIND], authors: [this.adminPubkey], '#d': [this.config.listId] }],
+        { timeoutMs: this.config.timeoutMs }
+      );
+
+      let updated = false;
+      for (const event of events) {
+        updated = (await this.accept(event)) || updated;
+      }
+      if (updated) {
+        await this.writeSnapshot();
+      }
+    } catch (error) {
+      logger.error('Failed to fetch membership list:', { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  /**
+   * Adopts an event as the current list if it is a newer, valid version
+   * @param {NostrEvent} event - Candidate list event
+   * @returns {Promise<boolean>} True if the event replaced the current version
+   */
+  private async accept(event: NostrEvent): Promise<boolean> {
+    const current = this.list;
+    // Replaceable events: the newest wins, ties go to the lowest id (NIP-01)
+    const isNewer = !current
+      || event.created_at > current.created_at
+      || (event.created_at === current.created_at && (event.id ?? '') < (current.id ?? ''));
+    if (!isNewer || !(await this.isValidList(event))) {
+      return false;
+    }
+
+    this.list = event;
+    this.members = new Set(
+      event.tags.filter(tag => tag[0] === 'p' && /^[0-9a-f]{64}$/.test(tag[1] ?? '')).map(tag => tag[1])
+    );
+    logger.info(`Membership list ${this.config.listId} updated to version ${event.created_at} with ${this.members.size} members`);
+    return true;
+  }
+
+  /**
+   * Checks that an event really is the admin's list
+   * @param {NostrEvent} event - Event from a relay or the snapshot
+   * @returns {Promise<boolean>} True if the kind, author, `d` tag, id and signature all check out
+   */
+  private async isValidList(event: NostrEvent): Promise<boolean> {
+    try {
+      if (event.kind !== FOLLOW_SET_KIND || event.pubkey !== this.adminPubkey || !Array.isArray(event.tags)) {
+        return false;
+      }
+      if (event.tags.find(tag => tag[0] === 'd')?.[1] !== this.config.listId) {
+        return false;
+      }
+      if (generateEventHash(event) !== event.id) {
+        return false;
+      }
+      return await verifySignature(event);
+    } catch (error) {
+      logger.warn('Rejected membership list event:', { error: error instanceof Error ? error.message : String(error) });
+      return false;
+    }
+  }
+
+  /**
+   * Loads the list event saved by a previous run, if any
+   * @returns {Promise<void>}
+   */
+  private async readSnapshot(): Promise<void> {
+    if (!this.config.snapshotPath) {
+      return;
+    }
+
+    try {
+      const event = JSON.parse(await readFile(this.config.snapshotPath, 'utf8')) as NostrEvent;
+      if (!(await this.accept(event))) {
+        logger.warn(`Ignoring invalid membership snapshot ${this.config.snapshotPath}`);
+      }
+    } catch (error) {
+      if ((error as { code?: string }).code !== 'ENOENT') {
+        logger.error('Failed to read membership snapshot:', { error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+
+  /**
+   * Saves the current list event so offline restarts can use it
+   * @returns {Promise<void>}
+   */
+  private async writeSnapshot(): Promise<void> {
+    if (!this.config.snapshotPath || !this.list) {
+      return;
+    }
+
+    // Write then rename so a crash never leaves a truncated snapshot
+    const temporary = `${this.config.snapshotPath}.tmp`;
+    try {
+      await writeFile(temporary, JSON.stringify(this.list));
+      await rename(temporary, this.config.snapshotPath);
+    } catch (error) {
+      logger.error('Failed to write membership snapshot:', { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+}
@@ -3,29 +3,114 @@
  */
 
 import crypto from 'crypto';
-import { NostrEvent, NostrProfile, VerificationResult, NostrAuthConfig } from '../types.js';
+import {
+  NostrEvent,
+  NostrProfile,
+  VerificationResult,
+  NostrAuthConfig,
+  NostrTokenClaims,
+  PublicJWK,
+  TokenRefreshResult,
+  JWTExpiresIn,
+  IssuedChallenge,
+  NostrEnrollment,
+  EnrollmentStatus,
+  EnrollmentResult,
+  Nip05Resolution,
+  Nip05Name,
+  Nip05NameResult,
+  AccessLists,
+  CustomClaims,
+  AuditContext
+} from '../types.js';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import { validateEvent } from '../validators/event.validator.js';
+import { validateAuthEvent, validateEnrollmentEvent } from '../validators/event.validator.js';
 import { createLogger } from '../utils/logger.js';
-import { generateJWT } from '../utils/jwt.utils.js';
+import { generateJWT, getPublicJWK, parseExpiresIn, verifyJWT } from '../utils/jwt.utils.js';
+import type { ChallengeStore, StoredChallenge } from '../stores/challenge.store.js';
+import type { SessionStore } from '../stores/session.store.js';
+import type { RefreshTokenStore } from '../stores/refresh-token.store.js';
+import type { RevocationStore } from '../stores/revocation.store.js';
+import type { EnrollmentStore } from '../stores/enrollment.store.js';
+import type { Nip05NameStore } from '../stores/nip05-name.store.js';
+import { MemoryChallengeStore } from '../stores/memory-challenge.store.js';
+import { MemoryRevocationStore } from '../stores/memory-revocation.store.js';
+import { MemoryEnrollmentStore } from '../stores/memory-enrollment.store.js';
+import { MemoryNip05NameStore } from '../stores/memory-nip05-name.store.js';
+import { SupabaseChallengeStore } from '../stores/supabase-challenge.store.js';
+import { ProfileService } from './profile.service.js';
+import { RelayPool } from './relay-pool.service.js';
+import { Nip05Resolver, parseNip05Identifier } from './nip05-resolver.service.js';
+import { normalizePubkey, npubEncode } from '../utils/nip19.utils.js';
+import { hasProofOfWork } from '../utils/nip13.utils.js';
+import { parseProfileMetadata } from '../utils/profile.utils.js';
 
 const logger = createLogger('NostrService');
 
 const DEFAULT_EVENT_TIMEOUT_MS = 300000; // 5 minutes
 const DEFAULT_JWT_EXPIRES_IN = '1h' as const;
+const DEFAULT_REFRESH_TOKEN_EXPIRES_IN = '30d' as const;
+const DEFAULT_AUTH_EVENT_KIND = 22242;
+const DEFAULT_POW_LOAD_WINDOW_MS = 60000;
+const DEFAULT_POW_CHALLENGES_PER_STEP = 100;
+const DEFAULT_POW_MAX_EXTRA_BITS = 8;
+const DEFAULT_NIP05_CLAIMS_TIMEOUT_MS = 2000;
 
-type SupabaseChallenge = {
-  id: string;
-  challenge: string;
-  created_at: number;
-  expires_at: number;
-  pubkey: string;
-};
+/** Claims set by the service itself, which a claimsResolver may not override */
+const RESERVED_CLAIMS = new Set(['pubkey', 'jti', 'iat', 'exp', 'nbf', 'iss', 'sub', 'aud', 'npub', 'nip05', 'relays']);
+
+/**
+ * Extracts the host from an origin
+ * @param {string} origin - Origin such as 'https://app.example.com'
+ * @returns {string | undefined} Host, or undefined if the origin cannot be parsed
+ */
+function getHost(origin: string): string | undefined {
+  try {
+    return new URL(origin).host;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Checks that a string is a ws:// or wss:// URL
+ * @param {string} url - Candidate relay URL
+ * @returns {boolean} True if it can be advertised as a relay
+ */
+function isRelayUrl(url: string): boolean {
+  try {
+    return typeof url === 'string' && ['ws:', 'wss:'].includes(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Hashes an opaque token for storage
+ * @param {string} token - Raw token
+ * @returns {string} SHA-256 hash in hex format
+ */
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
 
 export class NostrService {
   private readonly config: NostrAuthConfig;
   private readonly supabase?: SupabaseClient;
-  private challengeStore: Map<string, { challenge: string; pubkey: string; createdAt: number }> = new Map();
+  private readonly challengeStore: ChallengeStore;
+  private readonly sessionStore?: SessionStore;
+  private readonly refreshTokenStore?: RefreshTokenStore;
+  private readonly revocationStore: RevocationStore;
+  private readonly enrollmentStore: EnrollmentStore;
+  private readonly nip05NameStore: Nip05NameStore;
+  private readonly relayPool?: RelayPool;
+  private readonly profileService?: ProfileService;
+  private readonly nip05Resolver: Nip05Resolver;
+  private readonly jwks: PublicJWK[];
+  private allowedPubkeys?: Set<string>;
+  private deniedPubkeys = new Set<string>();
+  /** Challenges issued in the current and previous proof-of-work load windows */
+  private powLoad = { windowStart: 0, count: 0, previous: 0 };
   private cleanupInterval?: ReturnType<typeof setInterval>;
 
   constructor(config: NostrAuthConfig) {
@@ -34,35 +119,77 @@ export class NostrService {
       ...config,
       eventTimeoutMs: config.eventTimeoutMs || DEFAULT_EVENT_TIMEOUT_MS,
       jwtExpiresIn: config.jwtExpiresIn || DEFAULT_JWT_EXPIRES_IN,
-      jwtSecret: config.jwtSecret // This must be provided
+      jwtSecret: config.jwtSecret // Required unless an asymmetric signing key is configured
     };
 
-    if (!this.config.jwtSecret) {
+    if (!this.config.jwtSecret && !this.config.jwtSigningKey) {
       throw new Error('JWT secret is required');
     }
 
+    const pow = this.config.proofOfWork;
+    if (pow && (!Number.isInteger(pow.difficulty) || pow.difficulty < 0 || pow.difficulty > 256)) {
+      throw new Error('Proof-of-work difficulty must be an integer between 0 and 256');
+    }
+
+    // Published keys: the active signing key first, then any keys kept for rotation
+    this.jwks = this.config.jwtSigningKey
+      ? [getPublicJWK(this.config.jwtSigningKey), ...(this.config.jwtVerificationKeys ?? [])]
+      : [];
+
     if (config.supabaseUrl && config.supabaseKey) {
       this.supabase = createClient(config.supabaseUrl, config.supabaseKey);
     }
 
-    // Periodically clean up expired challenges from in-memory store (every 60 seconds)
+    // A custom store takes precedence; otherwise use Supabase when configured
+    // and fall back to the in-memory store
+    this.challengeStore = config.challengeStore
+      ?? (this.supabase ? new SupabaseChallengeStore(this.supabase) : new MemoryChallengeStore());
+    this.sessionStore = config.sessionStore;
+    this.refreshTokenStore = config.refreshTokenStore;
+    this.revocationStore = config.revocationStore ?? new MemoryRevocationStore();
+    this.enrollmentStore = config.enrollmentStore ?? new MemoryEnrollmentStore();
+    this.nip05NameStore = config.nip05NameStore ?? new MemoryNip05NameStore();
+
+    this.setAccessLists({ allowedPubkeys: config.allowedPubkeys, deniedPubkeys: config.deniedPubkeys });
+    this.nip05Resolver = new Nip05Resolver({ fetch: config.nip05Fetch, lookupHost: config.nip05LookupHost });
+
+    if (config.nostrRelays?.length) {
+      this.relayPool = new RelayPool(config.nostrRelays, {
+        createWebSocket: config.createWebSocket,
+        timeoutMs: config.relayTimeoutMs
+      });
+      this.profileService = new ProfileService({
+        relays: config.nostrRelays,
+        cacheTtlMs: config.profileCacheTtlMs,
+        timeoutMs: config.relayTimeoutMs
+      }, this.relayPool);
+    }
+
+    // Periodically clean up expired challenges, sessions, refresh tokens and revocations (every 60 seconds)
     this.cleanupInterval = setInterval(() => {
-      const now = Date.now();
-      for (const [id, entry] of this.challengeStore) {
-        if (now - entry.createdAt > this.config.eventTimeoutMs) {
-          this.challengeStore.delete(id);
-        }
-      }
+      this.challengeStore.expire().catch((error) => {
+        logger.error('Failed to expire challenges:', { error: error instanceof Error ? error.message : String(error) });
+      });
+      this.sessionStore?.expire().catch((error) => {
+        logger.error('Failed to expire sessions:', { error: error instanceof Error ? error.message : String(error) });
+      });
+      this.refreshTokenStore?.expire().catch((error) => {
+        logger.error('Failed to expire refresh tokens:', { error: error instanceof Error ? error.message : String(error) });
+      });
+      this.revocationStore.expire().catch((error) => {
+        logger.error('Failed to expire revocations:', { error: error instanceof Error ? error.message : String(error) });
+      });
     }, 60000);
   }
 
   /**
-   * Stops the periodic cleanup interval (for graceful shutdown)
+   * Stops the periodic cleanup interval and closes relay connections (for graceful shutdown)
    */
   destroy(): void {
     if (this.cleanupInterval) {
       clearInterval(this.cleanupInterval);
     }
+    this.relayPool?.close();
   }
 
   /**
@@ -71,91 +198,127 @@ export class NostrService {
    * @returns {Promise<string>} Challenge string
    */
   async createChallenge(pubkey: string): Promise<string> {
+    return (await this.issueChallenge(pubkey)).challenge;
+  }
+
+  /**
+   * Issues a structured challenge bound to the requesting domain
+   * @param {string} pubkey - Public key to create challenge for
+   * @param {AuditContext & { origin?: string }} [context] - Request context; `origin` is the request's Origin header
+   * @returns {Promise<IssuedChallenge>} Challenge with its nonce, domain, issue time and expiry
+   * @description
+   * The domain is taken from the request origin when that origin is allowed,
+   * otherwise from the first `allowedDomains` entry. It is embedded in the
+   * challenge string so signers show the user which site they are logging in to.
+   */
+  async issueChallenge(pubkey: string, context: AuditContext & { origin?: string } = {}): Promise<IssuedChallenge> {
     const now = Math.floor(Date.now() / 1000);
-    const challenge: SupabaseChallenge = {
+    const nonce = crypto.randomBytes(32).toString('hex');
+    const origin = context.origin && this.config.allowedOrigins?.includes(context.origin) ? context.origin : undefined;
+    const domain = (origin && getHost(origin)) || this.config.allowedDomains?.[0];
+    const prefix = this.config.challengePrefix || 'nostr-auth:';
+    const powDifficulty = this.config.proofOfWork ? this.trackPowLoad() : undefined;
+    // The difficulty is part of the signed challenge, so it holds for this login however the load changes
+    const base = domain ? `${prefix} ${domain} ${nonce}` : `${prefix} ${nonce}`;
+
+    const challenge: StoredChallenge = {
       id: crypto.randomBytes(32).toString('hex'),
-      challenge: `${this.config.challengePrefix || 'nostr-auth:'} ${crypto.randomBytes(32).toString('hex')}`,
+      challenge: powDifficulty !== undefined ? `${base} pow=${powDifficulty}` : base,
       created_at: now,
       expires_at: now + Math.floor(this.config.eventTimeoutMs / 1000),
       pubkey
     };
 
-    if (this.supabase) {
-      try {
-        await this.supabase
-          .from('challenges')
-          .insert([challenge]);
-      } catch (error) {
-        logger.error('Failed to store challenge:', error);
-      }
+    try {
+      await this.challengeStore.put(challenge);
+    } catch (error) {
+      logger.error('Failed to store challenge:', error);
+    }
+    this.config.auditLog?.record({ type: 'challenge.issued', pubkey, ip: context.ip });
+
+    return {
+      pubkey,
+      challenge: challenge.challenge,
+      nonce,
+      ...(domain ? { domain } : {}),
+      ...(origin ? { origin } : {}),
+      ...(powDifficulty !== undefined ? { powDifficulty } : {}),
+      issuedAt: challenge.created_at,
+      expiresAt: challenge.expires_at
+    };
+  }
+
+  /**
+   * Verifies a signed challenge
+   * @param {NostrEvent} event - Signed event containing the challenge
+   * @param {AuditContext} [context] - Request details recorded with the audit event
+   * @returns {Promise<VerificationResult>} Verification result, with a `code` on failure
+   * @description
+   * The event must be of the configured `customKind` (default 22242), carry the
+   * issued challenge in its `challenge` tag, have an id matching its content and
+   * a valid signature. The challenge is consumed, so it can only be used once.
+   */
+  async verifyChallenge(event: NostrEvent, context: AuditContext = {}): Promise<VerificationResult> {
+    const result = await this.checkChallenge(event);
+    if (result.success) {
+      this.config.auditLog?.record({ type: 'verify.succeeded', pubkey: result.pubkey!, ip: context.ip });
     } else {
-      // Store in in-memory challenge store as fallback
-      this.challengeStore.set(challenge.id, {
-        challenge: challenge.challenge,
+      // The pubkey is only what the client claimed, so record it only if it is well-formed
+      const pubkey = typeof event?.pubkey === 'string' && /^[0-9a-f]{64}$/.test(event.pubkey) ? event.pubkey : undefined;
+      this.config.auditLog?.record({
+        type: 'verify.failed',
         pubkey,
-        createdAt: Date.now()
+        code: result.code ?? 'INTERNAL_ERROR',
+        reason: result.error ?? 'Verification failed',
+        ip: context.ip
       });
     }
-
-    return challenge.challenge;
+    return result;
   }
 
   /**
-   * Verifies a signed challenge
+   * Runs the checks of verifyChallenge
    * @param {NostrEvent} event - Signed event containing the challenge
-   * @returns {Promise<VerificationResult>} Verification result
+   * @returns {Promise<VerificationResult>} Verification result, with a `code` on failure
    */
-  async verifyChallenge(event: NostrEvent): Promise<VerificationResult> {
+  private async checkChallenge(event: NostrEvent): Promise<VerificationResult> {
     try {
-      const validationResult = await validateEvent(event);
+      const validationResult = await validateAuthEvent(event, { kind: this.config.customKind || DEFAULT_AUTH_EVENT_KIND });
       if (!validationResult.success) {
         return validationResult;
       }
 
-      if (this.supabase) {
-        // Check if challenge exists in database
-        const { data } = await this.supabase
-          .from('challenges')
-          .select<'*', SupabaseChallenge>('*')
-          .eq('pubkey', event.pubkey || '')
-          .single();
+      const bindingResult = this.checkDomainBinding(event);
+      if (bindingResult) {
+        return bindingResult;
+      }
 
-        if (!data) {
-          return { success: false, error: 'Challenge not found' };
-        }
+      const powResult = this.checkProofOfWork(event);
+      if (powResult) {
+        return powResult;
+      }
 
-        const now = Math.floor(Date.now() / 1000);
-        if (data.expires_at < now) {
-          return { success: false, error: 'Challenge expired' };
-        }
+      if (!(await this.isPubkeyAllowed(event.pubkey!, event))) {
+        return { success: false, error: 'Pubkey is not allowed', code: 'PUBKEY_FORBIDDEN' };
+      }
 
-        // Delete used challenge
-        await this.supabase
-          .from('challenges')
-          .delete()
-          .eq('id', data.id);
-      } else {
-        // Verify against in-memory challenge store
-        let matchedId: string | null = null;
-
-        for (const [id, entry] of this.challengeStore) {
-          if (entry.challenge === event.content && entry.pubkey === event.pubkey) {
-            // Check if challenge has expired (5 min TTL)
-            if (Date.now() - entry.createdAt > this.config.eventTimeoutMs) {
-              this.challengeStore.delete(id);
-              return { success: false, error: 'Challenge expired' };
-            }
-            matchedId = id;
-            break;
-          }
+      if (this.config.requireEnrollment) {
+        const enrollment = await this.enrollmentStore.get(event.pubkey!);
+        if (enrollment?.status !== 'completed') {
+          return { success: false, error: 'Pubkey is not enrolled', code: 'NOT_ENROLLED' };
         }
+      }
 
-        if (!matchedId) {
-          return { success: false, error: 'Challenge not found' };
-        }
+      // Consume the exact challenge that was signed (single-use)
+      const challenge = event.tags.find(t => t[0] === 'challenge')![1];
+      const stored: StoredChallenge | null = await this.challengeStore.consume(event.pubkey || '', challenge);
+      if (!stored) {
+        return { success: false, error: 'Challenge not found', code: 'CHALLENGE_NOT_FOUND' };
+      }
 
-        // Delete used challenge (single-use)
-        this.challengeStore.delete(matchedId);
+      const now = Math.floor(Date.now() / 1000);
+      if (stored.expires_at < now) {
+        return { success: false, error: 'Challenge expired', code: 'CHALLENGE_EXPIRED' };
       }
 
       return {
@@ -166,28 +329,568 @@ export class NostrService {
       logger.error('Error verifying challenge:', error);
       return {
         success: false,
-        error: 'Internal verification error'
+        error: 'Internal verification error',
+        code: 'INTERNAL_ERROR'
+      };
+    }
+  }
+
+  /**
+   * Replaces the pubkey allow and deny lists without a restart
+   * @param {AccessLists} lists - New lists; an omitted `allowedPubkeys` lets every pubkey that is not denied log in
+   * @throws {Error} If an entry is not a hex pubkey or npub; the current lists are kept
+   */
+  setAccessLists(lists: AccessLists): void {
+    const toSet = (pubkeys: string[]) => new Set(pubkeys.map(pubkey => {
+      const hex = normalizePubkey(pubkey);
+      if (!hex) {
+        throw new Error(`Invalid pubkey in access list: ${pubkey}`);
+      }
+      return hex;
+    }));
+
+    const allowed = lists.allowedPubkeys ? toSet(lists.allowedPubkeys) : undefined;
+    const denied = toSet(lists.deniedPubkeys ?? []);
+    this.allowedPubkeys = allowed;
+    this.deniedPubkeys = denied;
+    logger.info(`Access lists updated: ${allowed ? allowed.size : 'any'} allowed, ${denied.size} denied`);
+  }
+
+  /**
+   * Returns the current pubkey allow and deny lists
+   * @returns {AccessLists} Hex pubkeys; `allowedPubkeys` is omitted when every pubkey is allowed
+   */
+  getAccessLists(): AccessLists {
+    return {
+      ...(this.allowedPubkeys ? { allowedPubkeys: [...this.allowedPubkeys] } : {}),
+      deniedPubkeys: [...this.deniedPubkeys]
+    };
+  }
+
+  /**
+   * Applies the deny list, the allow list and then `accessPolicy`
+   * @param {string} pubkey - Authenticated public key (hex)
+   * @param {NostrEvent} [event] - Login event, if any
+   * @returns {Promise<boolean>} True if the pubkey may receive tokens
+   * @description A policy callback that throws refuses the pubkey.
+   */
+  private async isPubkeyAllowed(pubkey: string, event?: NostrEvent): Promise<boolean> {
+    if (this.deniedPubkeys.has(pubkey) || (this.allowedPubkeys && !this.allowedPubkeys.has(pubkey))) {
+      return false;
+    }
+    if (!this.config.accessPolicy) {
+      return true;
+    }
+
+    try {
+      return (await this.config.accessPolicy(pubkey, event)) === true;
+    } catch (error) {
+      logger.error('Access policy failed:', { error: error instanceof Error ? error.message : String(error) });
+      return false;
+    }
+  }
+
+  /**
+   * Counts an issued challenge and returns the proof-of-work difficulty for it
+   * @returns {number} Base difficulty plus one bit per `challengesPerStep` challenges in the last window, capped at `maxDifficulty`
+   * @description
+   * Load is the count of the current window plus the previous window's count
+   * weighted by how much of it still overlaps, so the difficulty eases off
+   * smoothly once a flood stops. Each process measures its own load.
+   */
+  private trackPowLoad(): number {
+    const pow = this.config.proofOfWork!;
+    const windowMs = pow.loadWindowMs ?? DEFAULT_POW_LOAD_WINDOW_MS;
+    const now = Date.now();
+    const elapsed = now - this.powLoad.windowStart;
+    if (elapsed >= windowMs) {
+      this.powLoad = {
+        windowStart: now - (elapsed % windowMs),
+        count: 0,
+        previous: elapsed < 2 * windowMs ? this.powLoad.count : 0
       };
     }
+    this.powLoad.count++;
+
+    const overlap = 1 - (now - this.powLoad.windowStart) / windowMs;
+    const load = this.powLoad.count + this.powLoad.previous * overlap;
+    const extraBits = Math.floor(load / (pow.challengesPerStep ?? DEFAULT_POW_CHALLENGES_PER_STEP));
+    return Math.min(pow.difficulty + extraBits, pow.maxDifficulty ?? pow.difficulty + DEFAULT_POW_MAX_EXTRA_BITS);
+  }
+
+  /**
+   * Checks the event's NIP-13 proof of work against the difficulty in its challenge
+   * @param {NostrEvent} event - Signed authentication event
+   * @returns {VerificationResult | null} Failure result, or null if the event may proceed
+   * @description
+   * The challenge is only looked up later, but a client that lowers the
+   * `pow=` value in it no longer matches the stored challenge, and the
+   * configured base difficulty applies regardless.
+   */
+  private checkProofOfWork(event: NostrEvent): VerificationResult | null {
+    const pow = this.config.proofOfWork;
+    if (!pow) {
+      return null;
+    }
+
+    const challenge = event.tags.find(t => t[0] === 'challenge')?.[1] ?? '';
+    const announced = /\spow=(\d+)$/.exec(challenge);
+    const difficulty = Math.max(pow.difficulty, announced ? parseInt(announced[1], 10) : 0);
+    if (!hasProofOfWork(event, difficulty)) {
+      return { success: false, error: `Proof of work of ${difficulty} bits required`, code: 'POW_INSUFFICIENT', data: { difficulty } };
+    }
+    return null;
+  }
+
+  /**
+   * Checks the event's `domain` and `origin` tags against the configured allow-lists
+   * @param {NostrEvent} event - Signed authentication event
+   * @returns {VerificationResult | null} Failure result, or null if the event may proceed
+   */
+  private checkDomainBinding(event: NostrEvent): VerificationResult | null {
+    const domain = event.tags.find(t => t[0] === 'domain')?.[1];
+    const origin = event.tags.find(t => t[0] === 'origin')?.[1];
+
+    if (this.config.allowedDomains && (!domain || !this.config.allowedDomains.includes(domain))) {
+      return { success: false, error: 'Domain not allowed', code: 'DOMAIN_NOT_ALLOWED' };
+    }
+    if (this.config.allowedOrigins && (!origin || !this.config.allowedOrigins.includes(origin))) {
+      return { success: false, error: 'Origin not allowed', code: 'ORIGIN_NOT_ALLOWED' };
+    }
+    // A signer that sets both must not contradict itself
+    if (domain && origin && getHost(origin) !== domain) {
+      return { success: false, error: 'Origin does not match domain', code: 'ORIGIN_NOT_ALLOWED' };
+    }
+    return null;
+  }
+
+  /**
+   * Enrolls a user from a signed enrollment event
+   * @param {NostrEvent} event - Kind 22243 event with an `['action', 'enroll']` tag; content may be profile JSON
+   * @returns {Promise<EnrollmentResult>} Result with the stored enrollment, or a `code` on failure
+   * @description
+   * With `enrollmentApproval: 'manual'` new enrollments stay `pending` until
+   * an admin approves them. Enrolling again updates the profile but keeps the
+   * status; a rejected (`failed`) enrollment cannot be resubmitted.
+   */
+  async enroll(event: NostrEvent): Promise<EnrollmentResult> {
+    try {
+      if (!(await validateEnrollmentEvent(event))) {
+        return { success: false, error: 'Invalid enrollment event', code: 'INVALID_ENROLLMENT' };
+      }
+
+      const existing = await this.enrollmentStore.get(event.pubkey!);
+      if (existing?.status === 'failed') {
+        return { success: false, error: 'Enrollment was rejected', code: 'ENROLLMENT_REJECTED' };
+      }
+      // An older event replayed within its validity window must not roll the profile back
+      if (existing && event.created_at < existing.profile.updated_at) {
+        return { success: true, enrollment: existing };
+      }
+
+      const now = Math.floor(Date.now() / 1000);
+      const status: EnrollmentStatus = existing?.status
+        ?? (this.config.enrollmentApproval === 'manual' ? 'pending' : 'completed');
+      const enrollment: NostrEnrollment = {
+        id: existing?.id ?? event.id!,
+        pubkey: event.pubkey!,
+        profile: parseProfileMetadata(event),
+        status,
+        created_at: existing?.created_at ?? now,
+        updated_at: now
+      };
+
+      await this.enrollmentStore.put(enrollment);
+      return { success: true, enrollment };
+    } catch (error) {
+      logger.error('Error enrolling:', error);
+      return { success: false, error: 'Internal enrollment error', code: 'INTERNAL_ERROR' };
+    }
+  }
+
+  /**
+   * Retrieves the enrollment of a pubkey
+   * @param {string} pubkey - Public key of the user
+   * @returns {Promise<NostrEnrollment | null>} The enrollment, or null if the pubkey never enrolled
+   */
+  async getEnrollment(pubkey: string): Promise<NostrEnrollment | null> {
+    return this.enrollmentStore.get(pubkey);
+  }
+
+  /**
+   * Approves or rejects an enrollment
+   * @param {string} pubkey - Public key of the user
+   * @param {EnrollmentStatus} status - `completed` to approve, `failed` to reject
+   * @returns {Promise<NostrEnrollment | null>} The updated enrollment, or null if the pubkey never enrolled
+   */
+  async setEnrollmentStatus(pubkey: string, status: EnrollmentStatus): Promise<NostrEnrollment | null> {
+    return this.enrollmentStore.setStatus(pubkey, status, Math.floor(Date.now() / 1000));
+  }
+
+  /**
+   * Assigns one of this service's NIP-05 names to a pubkey
+   * @param {string} name - Local part of the identifier; matched case-insensitively
+   * @param {string} pubkey - Public key (hex) the name maps to
+   * @param {string[]} [relays] - Relay URLs advertised for the pubkey
+   * @returns {Promise<Nip05NameResult>} The stored name, or `INVALID_NAME` / `NAME_TAKEN`
+   * @description Reserving a name again for the same pubkey replaces its relays.
+   */
+  async reserveNip05Name(name: string, pubkey: string, relays: string[] = []): Promise<Nip05NameResult> {
+    const normalized = name.toLowerCase();
+    if (!/^[a-z0-9-_.]{1,64}$/.test(normalized)) {
+      return { success: false, error: 'Invalid name', code: 'INVALID_NAME' };
+    }
+    if (!/^[0-9a-f]{64}$/.test(pubkey)) {
+      return { success: false, error: 'Invalid pubkey', code: 'INVALID_NAME' };
+    }
+    if (!relays.every(isRelayUrl)) {
+      return { success: false, error: 'Invalid relay URL', code: 'INVALID_NAME' };
+    }
+
+    const existing = await this.nip05NameStore.get(normalized);
+    if (existing && existing.pubkey !== pubkey) {
+      return { success: false, error: 'Name is already taken', code: 'NAME_TAKEN' };
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const record: Nip05Name = {
+      name: normalized,
+      pubkey,
+      relays,
+      created_at: existing?.created_at ?? now,
+      updated_at: now
+    };
+    await this.nip05NameStore.put(record);
+    logger.info(`Reserved NIP-05 name ${normalized} for ${pubkey}`);
+    return { success: true, name: record };
+  }
+
+  /**
+   * Frees one of this service's NIP-05 names
+   * @param {string} name - Local part of the identifier
+   * @returns {Promise<boolean>} True if the name was reserved
+   */
+  async releaseNip05Name(name: string): Promise<boolean> {
+    return this.nip05NameStore.delete(name.toLowerCase());
+  }
+
+  /**
+   * Builds the `/.well-known/nostr.json` answer for a name
+   * @param {string} name - Local part from the `name` query parameter
+   * @returns {Promise<{ names: Record<string, string>; relays: Record<string, string[]> }>} The NIP-05 document
+   * @description
+   * A reserved name is only published once its pubkey has a completed
+   * enrollment; otherwise, like an unknown name, the document is empty.
+   */
+  async getNip05Document(name: string): Promise<{ names: Record<string, string>; relays: Record<string, string[]> }> {
+    const record = await this.nip05NameStore.get(name.toLowerCase());
+    const enrollment = record ? await this.enrollmentStore.get(record.pubkey) : null;
+    if (!record || enrollment?.status !== 'completed') {
+      return { names: {}, relays: {} };
+    }
+
+    return {
+      names: { [record.name]: record.pubkey },
+      relays: record.relays.length ? { [record.pubkey]: record.relays } : {}
+    };
   }
 
   /**
    * Generates a JWT token for a verified public key
    * @param {string} pubkey - Public key to generate token for
+   * @param {NostrEvent} [event] - Verified login event, passed to `claimsResolver`
    * @returns {Promise<string>} JWT token
+   * @throws {Error} If `claimsResolver` fails; no token is issued without its claims
    */
-  async generateToken(pubkey: string): Promise<string> {
+  async generateToken(pubkey: string, event?: NostrEvent): Promise<string> {
     // Cast the expiration time to the correct type
     const expiresIn = this.config.jwtExpiresIn as `${number}h` | `${number}m` | `${number}s` | `${number}d`;
-    return generateJWT(pubkey, this.config.jwtSecret, expiresIn);
+    const jti = crypto.randomUUID();
+    const signingKey = this.config.jwtSigningKey ?? (this.config.jwtSecret as string);
+    const claims = {
+      ...(await this.resolveCustomClaims(pubkey, event)),
+      ...(this.config.includeNpub ? { npub: npubEncode(pubkey) } : {}),
+      ...(this.config.nip05InToken ? await this.getNip05Claims(pubkey) : {})
+    };
+    const token = generateJWT(pubkey, signingKey, expiresIn, { jwtid: jti, claims });
+
+    if (this.sessionStore) {
+      const now = Math.floor(Date.now() / 1000);
+      try {
+        await this.sessionStore.put({ jti, pubkey, issued_at: now, expires_at: now + parseExpiresIn(expiresIn) });
+      } catch (error) {
+        logger.error('Failed to record session:', error);
+      }
+    }
+
+    return token;
+  }
+
+  /**
+   * Issues a refresh token for a verified public key
+   * @param {string} pubkey - Public key to issue the token for
+   * @param {string} [family] - Family to continue when rotating; a new family starts otherwise
+   * @returns {Promise<string | null>} Opaque refresh token, or null when refresh tokens are disabled
+   */
+  async generateRefreshToken(pubkey: string, family: string = crypto.randomUUID()): Promise<string | null> {
+    if (!this.refreshTokenStore) {
+      return null;
+    }
+
+    const refreshToken = crypto.randomBytes(32).toString('base64url');
+    const expiresIn = (this.config.refreshTokenExpiresIn || DEFAULT_REFRESH_TOKEN_EXPIRES_IN) as JWTExpiresIn;
+    const now = Math.floor(Date.now() / 1000);
+    await this.refreshTokenStore.put({
+      token_hash: hashToken(refreshToken),
+      family,
+      pubkey,
+      issued_at: now,
+      expires_at: now + parseExpiresIn(expiresIn),
+      used_at: null
+    });
+
+    return refreshToken;
+  }
+
+  /**
+   * Rotates a refresh token, issuing a new access and refresh token pair
+   * @param {string} refreshToken - Refresh token presented by the client
+   * @param {AuditContext} [context] - Request details recorded with the audit event
+   * @returns {Promise<TokenRefreshResult>} New token pair, or the reason the refresh was refused
+   * @description
+   * Each refresh token can be used once. Presenting a token that was already
+   * rotated means it has leaked, so the whole family is revoked and the
+   * legitimate holder has to sign in again.
+   */
+  async refreshTokens(refreshToken: string, context: AuditContext = {}): Promise<TokenRefreshResult> {
+    if (!this.refreshTokenStore) {
+      return { success: false, error: 'Refresh tokens are not enabled' };
+    }
+
+    try {
+      const now = Math.floor(Date.now() / 1000);
+      const stored = await this.refreshTokenStore.markUsed(hashToken(refreshToken), now);
+      if (!stored) {
+        return { success: false, error: 'Invalid refresh token' };
+      }
+
+      if (stored.used_at !== null) {
+        logger.warn(`Refresh token reuse detected for pubkey ${stored.pubkey}; revoking token family`);
+        await this.refreshTokenStore.revokeFamily(stored.family);
+        return { success: false, error: 'Refresh token reuse detected' };
+      }
+
+      if (stored.expires_at < now) {
+        return { success: false, error: 'Refresh token expired' };
+      }
+
+      if (!(await this.isPubkeyAllowed(stored.pubkey))) {
+        return { success: false, error: 'Pubkey is not allowed' };
+      }
+
+      // An enrollment rejected or removed after login ends the session at the next refresh
+      if (this.config.requireEnrollment && (await this.enrollmentStore.get(stored.pubkey))?.status !== 'completed') {
+        return { success: false, error: 'Pubkey is not enrolled' };
+      }
+
+      const token = await this.generateToken(stored.pubkey);
+      const nextRefreshToken = await this.generateRefreshToken(stored.pubkey, stored.family);
+      this.config.auditLog?.record({ type: 'token.refreshed', pubkey: stored.pubkey, ip: context.ip });
+      return {
+        success: true,
+        pubkey: stored.pubkey,
+        token,
+        refreshToken: nextRefreshToken ?? undefined
+      };
+    } catch (error) {
+      logger.error('Error refreshing tokens:', error);
+      return { success: false, error: 'Internal refresh error' };
+    }
+  }
+
+  /**
+   * Verifies a token issued by generateToken
+   * @param {string} token - JWT presented by the client
+   * @returns {Promise<NostrTokenClaims>} Verified token claims
+   * @throws {Error} 'JWT expired', 'Invalid JWT' or 'JWT revoked' when verification fails
+   */
+  async verifyToken(token: string): Promise<NostrTokenClaims> {
+    const claims = verifyJWT(token, this.jwks.length ? this.jwks : (this.config.jwtSecret as string));
+    if (await this.revocationStore.isRevoked(claims.jti, claims.pubkey, claims.iat ?? 0)) {
+      throw new Error('JWT revoked');
+    }
+    return claims;
+  }
+
+  /**
+   * Revokes a single access token, e.g. on logout
+   * @param {NostrTokenClaims} claims - Verified claims of the token to revoke
+   * @returns {Promise<void>}
+   * @throws {Error} If the token has no `jti` claim
+   */
+  async revokeToken(claims: NostrTokenClaims): Promise<void> {
+    if (!claims.jti) {
+      throw new Error('Token has no jti claim');
+    }
+
+    const expiresAt = claims.exp ?? Math.floor(Date.now() / 1000) + this.getTokenLifetime();
+    await this.revocationStore.revokeToken(claims.jti, expiresAt);
+    await this.sessionStore?.delete(claims.jti);
+  }
+
+  /**
+   * Revokes the family of a refresh token so it can no longer be rotated
+   * @param {string} refreshToken - Refresh token presented by the client
+   * @param {string} pubkey - Public key the token must belong to
+   * @returns {Promise<boolean>} True if a token family was revoked
+   */
+  async revokeRefreshToken(refreshToken: string, pubkey: string): Promise<boolean> {
+    const stored = await this.refreshTokenStore?.get(hashToken(refreshToken));
+    if (!stored || stored.pubkey !== pubkey) {
+      return false;
+    }
+
+    await this.refreshTokenStore!.revokeFamily(stored.family);
+    return true;
+  }
+
+  /**
+   * Revokes every access and refresh token issued to a pubkey so far
+   * @param {string} pubkey - Public key whose tokens are revoked
+   * @returns {Promise<void>}
+   * @description
+   * Intended for administrators, e.g. after a user reports a leaked nsec.
+   * The user can sign in again afterwards to obtain fresh tokens.
+   */
+  async revokeAllForPubkey(pubkey: string): Promise<void> {
+    const now = Math.floor(Date.now() / 1000);
+    await this.revocationStore.revokePubkey(pubkey, now, now + this.getTokenLifetime());
+    await this.refreshTokenStore?.revokePubkey(pubkey);
+    logger.info(`Revoked all tokens for pubkey ${pubkey}`);
+  }
+
+  /**
+   * Returns the access token lifetime in seconds
+   * @returns {number} Lifetime of tokens issued by generateToken
+   */
+  private getTokenLifetime(): number {
+    return parseExpiresIn(this.config.jwtExpiresIn as JWTExpiresIn);
+  }
+
+  /**
+   * Returns the public keys that verify issued tokens
+   * @returns {{ keys: PublicJWK[] }} JSON Web Key Set (empty when tokens are HS256-signed)
+   */
+  getJWKS(): { keys: PublicJWK[] } {
+    return { keys: this.jwks };
   }
 
   /**
    * Retrieves a user's profile
    * @param {string} pubkey - Public key to fetch profile for
    * @returns {Promise<NostrProfile | null>} User profile or null if not found
+   * @description
+   * Reads the Supabase `profiles` table first and falls back to the newest
+   * verified kind 0 event on the configured `nostrRelays`.
    */
   async getProfile(pubkey: string): Promise<NostrProfile | null> {
+    let profile = await this.getStoredProfile(pubkey);
+    if (!profile && this.profileService) {
+      try {
+        profile = await this.profileService.getProfile(pubkey);
+      } catch (error) {
+        logger.error('Error fetching profile from relays:', error);
+      }
+    }
+    if (!profile?.nip05) {
+      return profile;
+    }
+
+    const verification = await this.nip05Resolver.verify(profile.nip05, pubkey);
+    return {
+      ...profile,
+      nip05Verified: !!verification,
+      ...(verification?.relays.length ? { relays: verification.relays } : {})
+    };
+  }
+
+  /**
+   * Resolves a NIP-05 identifier to a pubkey
+   * @param {string} identifier - `name@domain`
+   * @returns {Promise<Nip05Resolution | null>} The resolution, or null if unknown, unreachable or on a domain not allowed
+   * @description
+   * Only domains in `nip05Domains` are fetched; with no list, nothing is unless `nip05AnyDomain` is set.
+   */
+  async resolveNip05(identifier: string): Promise<Nip05Resolution | null> {
+    const domain = parseNip05Identifier(identifier)?.domain;
+    const { nip05Domains, nip05AnyDomain } = this.config;
+    if (!domain || (nip05Domains ? !nip05Domains.includes(domain) : !nip05AnyDomain)) {
+      return null;
+    }
+    return this.nip05Resolver.resolve(identifier);
+  }
+
+  /**
+   * Runs `claimsResolver` and drops claims it may not set
+   * @param {string} pubkey - Public key the token is issued to
+   * @param {NostrEvent} [event] - Verified login event, if any
+   * @returns {Promise<CustomClaims>} Claims to merge into the token
+   */
+  private async resolveCustomClaims(pubkey: string, event?: NostrEvent): Promise<CustomClaims> {
+    if (!this.config.claimsResolver) {
+      return {};
+    }
+
+    const claims: CustomClaims = {};
+    for (const [name, value] of Object.entries(await this.config.claimsResolver(pubkey, event) ?? {})) {
+      const isStringList = Array.isArray(value) && value.every(item => typeof item === 'string');
+      if (RESERVED_CLAIMS.has(name) || ((name === 'roles' || name === 'scopes') && !isStringList)) {
+        logger.warn(`Ignoring claim ${name} from claimsResolver`);
+        continue;
+      }
+      claims[name] = value;
+    }
+    return claims;
+  }
+
+  /**
+   * Builds the NIP-05 token claims for a pubkey
+   * @param {string} pubkey - Public key the token is issued to
+   * @returns {Promise<Record<string, unknown> | undefined>} `nip05` and `relays` claims, or undefined if unverified
+   * @description
+   * The profile lookup may query relays and the NIP-05 domain. Tokens are not held back for it: past
+   * `nip05ClaimsTimeoutMs` the token is issued without the claims, and the lookup finishes in the
+   * background so the caches serve the next token.
+   */
+  private async getNip05Claims(pubkey: string): Promise<Record<string, unknown> | undefined> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<'timeout'>((resolve) => {
+      timer = setTimeout(() => resolve('timeout'), this.config.nip05ClaimsTimeoutMs ?? DEFAULT_NIP05_CLAIMS_TIMEOUT_MS);
+    });
+    try {
+      const profile = await Promise.race([this.getProfile(pubkey), timeout]);
+      if (profile === 'timeout') {
+        logger.warn(`NIP-05 claims for ${pubkey} timed out; issuing the token without them`);
+        return undefined;
+      }
+      if (!profile?.nip05Verified) {
+        return undefined;
+      }
+      return { nip05: profile.nip05, ...(profile.relays ? { relays: profile.relays } : {}) };
+    } catch (error) {
+      logger.warn('Could not look up NIP-05 claims:', { error: error instanceof Error ? error.message : String(error) });
+      return undefined;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Retrieves a user's profile from Supabase
+   * @param {string} pubkey - Public key to fetch profile for
+   * @returns {Promise<NostrProfile | null>} User profile or null if not found
+   */
+  private async getStoredProfile(pubkey: string): Promise<NostrProfile | null> {
     if (!this.supabase) {
       return null;
     }
@@ -209,6 +912,7 @@ export class NostrService {
         name: data.name,
         about: data.about,
         picture: data.picture,
+        nip05: data.nip05,
         created_at: data.created_at,
         updated_at: data.updated_at
       } as NostrProfile;
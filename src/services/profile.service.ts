@@ -0,0 +1,122 @@
+/**
+ * @fileoverview Profile lookups from Nostr relays
+ * Fetches the newest kind 0 metadata event for a pubkey and caches the parsed profile
+ */
+
+import type { NostrEvent, NostrProfile, ProfileServiceConfig } from '../types.js';
+import { RelayPool } from './relay-pool.service.js';
+import { generateEventHash, verifySignature } from '../utils/crypto.utils.js';
+import { parseProfileMetadata } from '../utils/profile.utils.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('ProfileService');
+
+const DEFAULT_CACHE_TTL_MS = 300000; // 5 minutes
+
+/** Event kind for user metadata (NIP-01) */
+const METADATA_KIND = 0;
+
+interface CachedProfile {
+  profile: NostrProfile | null;
+  expiresAt: number;
+}
+
+export class ProfileService {
+  private readonly config: ProfileServiceConfig;
+  private readonly cache = new Map<string, CachedProfile>();
+  private readonly pool: RelayPool;
+  private readonly ownsPool: boolean;
+
+  /**
+   * Creates a new ProfileService
+   * @param {ProfileServiceConfig} config - Relays, cache TTL and timeouts
+   * @param {RelayPool} [pool] - Shared pool for `config.relays`; one is created (and closed by destroy) if omitted
+   */
+  constructor(config: ProfileServiceConfig, pool?: RelayPool) {
+    this.config = config;
+    this.ownsPool = !pool;
+    this.pool = pool ?? new RelayPool(config.relays, { createWebSocket: config.createWebSocket, timeoutMs: config.timeoutMs });
+  }
+
+  /**
+   * Closes the relay connections if this service opened them
+   */
+  destroy(): void {
+    if (this.ownsPool) {
+      this.pool.close();
+    }
+  }
+
+  /**
+   * Returns the newest verified kind 0 profile of a pubkey
+   * @param {string} pubkey - Public key (hex)
+   * @returns {Promise<NostrProfile | null>} The profile, or null if no relay has valid metadata
+   * @description Results, including misses, are cached for `cacheTtlMs`.
+   */
+  async getProfile(pubkey: string): Promise<NostrProfile | null> {
+    if (!/^[0-9a-f]{64}$/.test(pubkey)) {
+      return null;
+    }
+
+    const now = Date.now();
+    const cached = this.cache.get(pubkey);
+    if (cached && cached.expiresAt > now) {
+      return cached.profile;
+    }
+
+    const events = await this.pool.query([{ kinds: [METADATA_KIND], authors: [pubkey], limit: 1 }], { timeoutMs: this.config.timeoutMs });
+
+    let newest: NostrEvent | undefined;
+    for (const event of events) {
+      if ((!newest || event.created_at > newest.created_at) && (await this.isValidMetadata(event, pubkey))) {
+        newest = event;
+      }
+    }
+
+    const profile = newest ? parseProfileMetadata(newest) : null;
+    this.cache.set(pubkey, { profile, expiresAt: now + (this.config.cacheTtlMs ?? DEFAULT_CACHE_TTL_MS) });
+    this.evictExpired(now);
+    return profile;
+  }
+
+  /**
+   * Drops a cached profile, e.g. after the user published new metadata
+   * @param {string} pubkey - Public key (hex)
+   */
+  invalidate(pubkey: string): void {
+    this.cache.delete(pubkey);
+  }
+
+  /**
+   * Checks that an event really is the pubkey's metadata
+   * @param {NostrEvent} event - Event received from a relay
+   * @param {string} pubkey - Public key that was queried
+   * @returns {Promise<boolean>} True if the kind, author, id and signature all check out
+   */
+  private async isValidMetadata(event: NostrEvent, pubkey: string): Promise<boolean> {
+    try {
+      if (event.kind !== METADATA_KIND || event.pubkey !== pubkey || typeof event.created_at !== 'number' || typeof event.content !== 'string') {
+        return false;
+      }
+      if (generateEventHash(event) !== event.id) {
+        return false;
+      }
+      return await verifySignature(event);
+    } catch (error) {
+      logger.warn('Rejected metadata event:', { error: error instanceof Error ? error.message : String(error) });
+      return false;
+    }
+  }
+
+  /**
+   * Removes expired cache entries
+   * @param {number} now - Current time in milliseconds
+   */
+  private evictExpired(now: number): void {
+    for (const [pubkey, entry] of this.cache) {
+      if (entry.expiresAt <= now) {
+        this.cache.delete(pubkey);
+      }
+    }
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * @fileoverview NIP-42 authentication of clients to a relay
+ * Issues an AUTH challenge per connection and verifies the client's signed kind 22242 reply
+ * Server-agnostic — the relay provides socket I/O via the RelaySocket / RelaySocketAdapter interfaces
+ * @see https://github.com/nostr-protocol/nips/blob/master/42.md
+ */
+
+import crypto from 'crypto';
+import type { NostrEvent, RelayAuthConfig, VerificationResult } from '../types.js';
+import { validateRelayAuthEvent } from '../validators/event.validator.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('RelayAuthService');
+
+const DEFAULT_MAX_AGE_SECONDS = 600; // 10 minutes, as suggested by NIP-42
+
+/**
+ * Minimal socket surface needed to send AUTH and OK messages
+ * Any object works as long as the same instance is passed for the lifetime of the connection
+ */
+export interface RelaySocket {
+  /** Sends a text frame to the client */
+  send(data: string): void;
+}
+
+/**
+ * Adapter for wiring the service into a WebSocket server's connection events
+ */
+export interface RelaySocketAdapter extends RelaySocket {
+  /** Registers a listener for text frames from the client */
+  onMessage(listener: (data: string) => void): void;
+  /** Registers a listener for the connection closing */
+  onClose(listener: () => void): void;
+}
+
+interface RelayAuthSession {
+  challenge: string;
+  pubkeys: Set<string>;
+}
+
+export class RelayAuthService {
+  private readonly relayUrl: string;
+  private readonly maxAgeSeconds: number;
+  private readonly sessions = new WeakMap<RelaySocket, RelayAuthSession>();
+
+  constructor(config: RelayAuthConfig) {
+    if (!config.relayUrl) {
+      throw new Error('relayUrl is required');
+    }
+    this.relayUrl = config.relayUrl;
+    this.maxAgeSeconds = config.maxAgeSeconds ?? DEFAULT_MAX_AGE_SECONDS;
+  }
+
+  /**
+   * Issues a fresh challenge for a connection and sends it as `["AUTH", <challenge>]`
+   * @param {RelaySocket} socket - The client connection
+   * @returns {string} The challenge
+   * @description Replaces any earlier challenge; pubkeys already authenticated on the connection are kept.
+   */
+  challenge(socket: RelaySocket): string {
+    const challenge = crypto.randomBytes(32).toString('hex');
+    const session = this.sessions.get(socket);
+    if (session) {
+      session.challenge = challenge;
+    } else {
+      this.sessions.set(socket, { challenge, pubkeys: new Set() });
+    }
+
+    socket.send(JSON.stringify(['AUTH', challenge]));
+    return challenge;
+  }
+
+  /**
+   * Verifies a client's AUTH event against the connection's challenge
+   * @param {RelaySocket} socket - The client connection
+   * @param {NostrEvent} event - The signed kind 22242 event
+   * @returns {Promise<VerificationResult>} Result of the verification
+   * @description Replies `["OK", <event id>, <accepted>, <message>]` on the socket either way.
+   */
+  async authenticate(socket: RelaySocket, event: NostrEvent): Promise<VerificationResult> {
+    const session = this.sessions.get(socket);
+    const result: VerificationResult = session
+      ? await validateRelayAuthEvent(event, { relayUrl: this.relayUrl, challenge: session.challenge }, { maxAgeSeconds: this.maxAgeSeconds })
+      : { success: false, error: 'No challenge issued', code: 'CHALLENGE_NOT_FOUND' };
+
+    if (result.success && session) {
+      session.pubkeys.add(event.pubkey!);
+      socket.send(JSON.stringify(['OK', event.id, true, '']));
+    } else {
+      logger.warn(`Rejected relay AUTH: ${result.error}`);
+      socket.send(JSON.stringify(['OK', event?.id ?? '', false, `invalid: ${result.error?.toLowerCase()}`]));
+    }
+    return result;
+  }
+
+  /**
+   * Handles a raw client message if it is an AUTH message
+   * @param {RelaySocket} socket - The client connection
+   * @param {string} data - Raw text frame from the client
+   * @returns {Promise<boolean>} True if the message was an AUTH message and has been handled
+   */
+  async handleMessage(socket: RelaySocket, data: string): Promise<boolean> {
+    let message: unknown;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      return false;
+    }
+
+    if (!Array.isArray(message) || message[0] !== 'AUTH') {
+      return false;
+    }
+
+    const event = message[1];
+    if (!event || typeof event !== 'object' || !Array.isArray((event as NostrEvent).tags)) {
+      socket.send(JSON.stringify(['NOTICE', 'invalid: malformed AUTH message']));
+      return true;
+    }
+
+    await this.authenticate(socket, event as NostrEvent);
+    return true;
+  }
+
+  /**
+   * Wires the service into a connection: challenges it immediately and intercepts AUTH messages
+   * @param {RelaySocketAdapter} adapter - Adapter around the server's connection object
+   * @param {(data: string) => void} [onMessage] - Receives every message that is not an AUTH message
+   * @example
+   * wss.on('connection', (ws) => {
+   *   const adapter = {
+   *     send: (data: string) => ws.send(data),
+   *     onMessage: (listener: (data: string) => void) => ws.on('message', (raw) => listener(raw.toString())),
+   *     onClose: (listener: () => void) => ws.on('close', listener)
+   *   };
+   *   relayAuth.attach(adapter, (data) => relay.handle(adapter, data));
+   * });
+   */
+  attach(adapter: RelaySocketAdapter, onMessage?: (data: string) => void): void {
+    adapter.onMessage((data) => {
+      this.handleMessage(adapter, data)
+        .then((handled) => {
+          if (!handled) {
+            onMessage?.(data);
+          }
+        })
+        .catch((error) => {
+          logger.error('Error handling relay message:', { error: error instanceof Error ? error.message : String(error) });
+        });
+    });
+    adapter.onClose(() => this.release(adapter));
+    this.challenge(adapter);
+  }
+
+  /**
+   * Returns the pubkeys that have authenticated on a connection
+   * @param {RelaySocket} socket - The client connection
+   * @returns {string[]} Authenticated pubkeys (NIP-42 allows several per connection)
+   */
+  getAuthenticatedPubkeys(socket: RelaySocket): string[] {
+    return [...(this.sessions.get(socket)?.pubkeys ?? [])];
+  }
+
+  /**
+   * Checks whether a connection has authenticated
+   * @param {RelaySocket} socket - The client connection
+   * @param {string} [pubkey] - Require this specific pubkey
+   * @returns {boolean} True if authenticated (as `pubkey`, when given)
+   */
+  isAuthenticated(socket: RelaySocket, pubkey?: string): boolean {
+    const pubkeys = this.sessions.get(socket)?.pubkeys;
+    return !!pubkeys && (pubkey ? pubkeys.has(pubkey) : pubkeys.size > 0);
+  }
+
+  /**
+   * Forgets a connection's challenge and authenticated pubkeys
+   * @param {RelaySocket} socket - The client connection
+   */
+  release(socket: RelaySocket): void {
+    this.sessions.delete(socket);
+  }
+}
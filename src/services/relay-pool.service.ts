@@ -0,0 +1,495 @@
+/**
+ * @fileoverview Pool of WebSocket connections to Nostr relays
+ * Connects lazily, reconnects with exponential backoff, runs REQ/EOSE/CLOSE subscriptions
+ * and publishes events with OK acknowledgement tracking
+ * @see https://github.com/nostr-protocol/nips/blob/master/01.md#communication-between-clients-and-relays
+ */
+
+import crypto from 'crypto';
+import type { NostrEvent } from '../types.js';
+import type { NostrFilter, NostrMessage, NostrSubscription } from '../interfaces/nostr.interface.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('RelayPool');
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const DEFAULT_MIN_RECONNECT_DELAY_MS = 1000;
+const DEFAULT_MAX_RECONNECT_DELAY_MS = 60000;
+
+/**
+ * Minimal WebSocket surface used to talk to relays
+ * @interface RelayWebSocket
+ * @description Satisfied by the WHATWG `WebSocket` (browsers, Node.js 22+) and by the `ws` package
+ */
+export interface RelayWebSocket {
+  send(data: string): void;
+  close(): void;
+  onopen: ((event: unknown) => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+  onclose: ((event: unknown) => void) | null;
+}
+
+/**
+ * Opens a WebSocket to a relay
+ */
+export type WebSocketFactory = (url: string) => RelayWebSocket;
+
+/**
+ * Options for RelayPool
+ * @interface RelayPoolOptions
+ */
+export interface RelayPoolOptions {
+  /** Opens relay connections (default: the global `WebSocket`) */
+  createWebSocket?: WebSocketFactory;
+  /** Time each relay gets to open, answer EOSE or acknowledge an event, in milliseconds (default: 5000) */
+  timeoutMs?: number;
+  /** Delay before the first reconnect attempt, doubled on every failure (default: 1000) */
+  minReconnectDelayMs?: number;
+  /** Upper bound for the reconnect delay (default: 60000) */
+  maxReconnectDelayMs?: number;
+}
+
+/**
+ * Callbacks for a pool subscription; each receives the URL of the relay concerned
+ * @interface SubscriptionHandlers
+ */
+export interface SubscriptionHandlers {
+  /** Called for every event the relay sends for the subscription (unverified) */
+  onEvent(event: NostrEvent, relay: string): void;
+  /** Called when the relay has sent all stored events */
+  onEose?(relay: string): void;
+  /** Called when the relay ends the subscription with CLOSED; it is not re-sent to that relay */
+  onClosed?(relay: string, reason: string): void;
+  /** Called when the connection fails or drops; the subscription is re-sent after reconnecting */
+  onError?(relay: string, error: string): void;
+}
+
+/**
+ * An open pool subscription
+ * @interface PoolSubscription
+ */
+export interface PoolSubscription extends NostrSubscription {
+  /** Sends CLOSE to every relay and stops delivering events */
+  close(): void;
+}
+
+/**
+ * Outcome of publishing an event to one relay
+ * @interface PublishResult
+ */
+export interface PublishResult {
+  relay: string;
+  /** True if the relay answered OK with `true` */
+  accepted: boolean;
+  /** The relay's OK message, or why no acknowledgement arrived */
+  message: string;
+}
+
+/**
+ * Opens a WebSocket with the global implementation
+ * @param {string} url - Relay URL
+ * @returns {RelayWebSocket} The socket
+ * @throws {Error} If the runtime has no global WebSocket (Node.js before 22)
+ */
+export function defaultWebSocketFactory(url: string): RelayWebSocket {
+  if (typeof WebSocket === 'undefined') {
+    throw new Error('No global WebSocket available; pass createWebSocket (e.g. from the ws package)');
+  }
+  return new WebSocket(url) as unknown as RelayWebSocket;
+}
+
+/**
+ * Parses a relay-to-client message
+ * @param {unknown} data - Raw text frame
+ * @returns {NostrMessage | null} The message, or null if it is not a well-formed relay message
+ */
+export function parseRelayMessage(data: unknown): NostrMessage | null {
+  let message: unknown;
+  try {
+    message = JSON.parse(String(data));
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(message) || typeof message[0] !== 'string') {
+    return null;
+  }
+
+  const [type, first, second, third] = message;
+  switch (type) {
+    case 'EVENT':
+      return typeof first === 'string' && second && typeof second === 'object'
+        ? { type, subscriptionId: first, event: second }
+        : null;
+    case 'EOSE':
+      return typeof first === 'string' ? { type, subscriptionId: first } : null;
+    case 'CLOSED':
+      return typeof first === 'string' ? { type, subscriptionId: first, message: String(second ?? '') } : null;
+    case 'OK':
+      return typeof first === 'string' ? { type, eventId: first, accepted: second === true, message: String(third ?? '') } : null;
+    case 'NOTICE':
+      return { type, message: String(first ?? '') };
+    case 'AUTH':
+      return typeof first === 'string' ? { type, challenge: first } : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Serialises a client-to-relay message
+ * @param {NostrMessage} message - REQ or CLOSE with a subscription, or EVENT with an event
+ * @returns {string} The text frame
+ */
+function serializeClientMessage(message: NostrMessage): string {
+  switch (message.type) {
+    case 'REQ':
+      return JSON.stringify(['REQ', message.subscription!.id, ...message.subscription!.filters]);
+    case 'CLOSE':
+      return JSON.stringify(['CLOSE', message.subscription!.id]);
+    default:
+      return JSON.stringify([message.type, message.event]);
+  }
+}
+
+interface PendingPublish {
+  data: string;
+  resolve(result: { accepted: boolean; message: string }): void;
+}
+
+/**
+ * Connection to a single relay; reconnects while it has work to do
+ */
+class RelayConnection {
+  private socket?: RelayWebSocket;
+  private isOpen = false;
+  private isClosed = false;
+  private attempts = 0;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  private readonly subscriptions = new Map<string, { subscription: NostrSubscription; handlers: SubscriptionHandlers }>();
+  private readonly pendingPublishes = new Map<string, PendingPublish>();
+
+  constructor(readonly url: string, private readonly options: Required<RelayPoolOptions>) {}
+
+  get connected(): boolean {
+    return this.isOpen;
+  }
+
+  subscribe(subscription: NostrSubscription, handlers: SubscriptionHandlers): void {
+    this.subscriptions.set(subscription.id, { subscription, handlers });
+    if (this.isOpen) {
+      this.socket!.send(serializeClientMessage({ type: 'REQ', subscription }));
+    } else {
+      this.connect();
+    }
+  }
+
+  unsubscribe(id: string): void {
+    const entry = this.subscriptions.get(id);
+    if (entry && this.subscriptions.delete(id) && this.isOpen) {
+      this.socket!.send(serializeClientMessage({ type: 'CLOSE', subscription: entry.subscription }));
+    }
+  }
+
+  publish(event: NostrEvent, timeoutMs: number): Promise<{ accepted: boolean; message: string }> {
+    return new Promise((resolve) => {
+      const id = event.id!;
+      const timer = setTimeout(() => {
+        this.pendingPublishes.delete(id);
+        resolve({ accepted: false, message: 'timeout: no OK from relay' });
+      }, timeoutMs);
+
+      const data = serializeClientMessage({ type: 'EVENT', event: event as NostrMessage['event'] });
+      this.pendingPublishes.set(id, {
+        data,
+        resolve: (result) => {
+          clearTimeout(timer);
+          resolve(result);
+        }
+      });
+
+      if (this.isOpen) {
+        this.socket!.send(data);
+      } else {
+        this.connect();
+      }
+    });
+  }
+
+  close(): void {
+    this.isClosed = true;
+    clearTimeout(this.reconnectTimer);
+    this.subscriptions.clear();
+    for (const pending of this.pendingPublishes.values()) {
+      pending.resolve({ accepted: false, message: 'error: pool closed' });
+    }
+    this.pendingPublishes.clear();
+    const socket = this.socket;
+    this.socket = undefined;
+    this.isOpen = false;
+    socket?.close();
+  }
+
+  private hasWork(): boolean {
+    return this.subscriptions.size > 0 || this.pendingPublishes.size > 0;
+  }
+
+  private connect(): void {
+    if (this.socket || this.reconnectTimer || this.isClosed) {
+      return;
+    }
+
+    let socket: RelayWebSocket;
+    try {
+      socket = this.options.createWebSocket(this.url);
+    } catch (error) {
+      this.handleFailure(error instanceof Error ? error.message : String(error));
+      return;
+    }
+    this.socket = socket;
+
+    const connectTimer = setTimeout(() => {
+      if (this.socket === socket && !this.isOpen) {
+        this.drop(socket, 'connection timeout');
+        socket.close();
+      }
+    }, this.options.timeoutMs);
+
+    socket.onopen = () => {
+      clearTimeout(connectTimer);
+      if (this.socket !== socket) {
+        return;
+      }
+      this.isOpen = true;
+      this.attempts = 0;
+      for (const { subscription } of this.subscriptions.values()) {
+        socket.send(serializeClientMessage({ type: 'REQ', subscription }));
+      }
+      // Unacknowledged events are re-sent; relays answer duplicates with OK
+      for (const pending of this.pendingPublishes.values()) {
+        socket.send(pending.data);
+      }
+    };
+    socket.onmessage = ({ data }) => {
+      if (this.socket === socket) {
+        this.handleMessage(data);
+      }
+    };
+    socket.onerror = () => {
+      // A close event follows; it carries the reconnect logic
+    };
+    socket.onclose = () => {
+      clearTimeout(connectTimer);
+      this.drop(socket, 'connection closed');
+    };
+  }
+
+  private drop(socket: RelayWebSocket, reason: string): void {
+    if (this.socket !== socket) {
+      return;
+    }
+    this.socket = undefined;
+    this.isOpen = false;
+    this.handleFailure(reason);
+  }
+
+  private handleFailure(reason: string): void {
+    if (this.isClosed) {
+      return;
+    }
+    logger.warn(`Relay ${this.url}: ${reason}`);
+    for (const { handlers } of this.subscriptions.values()) {
+      handlers.onError?.(this.url, reason);
+    }
+    if (!this.hasWork()) {
+      return;
+    }
+
+    const delay = Math.min(this.options.maxReconnectDelayMs, this.options.minReconnectDelayMs * 2 ** this.attempts);
+    this.attempts++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      if (this.hasWork()) {
+        this.connect();
+      }
+    }, delay);
+  }
+
+  private handleMessage(data: unknown): void {
+    const message = parseRelayMessage(data);
+    if (!message) {
+      return;
+    }
+
+    const entry = message.subscriptionId ? this.subscriptions.get(message.subscriptionId) : undefined;
+    switch (message.type) {
+      case 'EVENT':
+        entry?.handlers.onEvent(message.event as NostrEvent, this.url);
+        break;
+      case 'EOSE':
+        entry?.handlers.onEose?.(this.url);
+        break;
+      case 'CLOSED':
+        if (entry) {
+          this.subscriptions.delete(message.subscriptionId!);
+          entry.handlers.onClosed?.(this.url, message.message ?? '');
+        }
+        break;
+      case 'OK': {
+        const pending = this.pendingPublishes.get(message.eventId!);
+        if (pending) {
+          this.pendingPublishes.delete(message.eventId!);
+          pending.resolve({ accepted: message.accepted!, message: message.message ?? '' });
+        }
+        break;
+      }
+      case 'NOTICE':
+        logger.info(`Notice from ${this.url}: ${message.message}`);
+        break;
+    }
+  }
+}
+
+/**
+ * Shared connections to a fixed set of relays
+ * @class RelayPool
+ * @description
+ * Connections open on first use and stay open. A connection that drops while
+ * it has subscriptions or unacknowledged events reconnects after an
+ * exponentially growing delay and re-sends both.
+ * @example
+ * const pool = new RelayPool(['wss://relay.damus.io']);
+ * const events = await pool.query([{ kinds: [0], authors: [pubkey], limit: 1 }]);
+ * const results = await pool.publish(signedEvent);
+ * pool.close();
+ */
+export class RelayPool {
+  private readonly connections: RelayConnection[];
+  private readonly timeoutMs: number;
+
+  constructor(relays: string[], options: RelayPoolOptions = {}) {
+    const resolved: Required<RelayPoolOptions> = {
+      createWebSocket: options.createWebSocket ?? defaultWebSocketFactory,
+      timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+      minReconnectDelayMs: options.minReconnectDelayMs ?? DEFAULT_MIN_RECONNECT_DELAY_MS,
+      maxReconnectDelayMs: options.maxReconnectDelayMs ?? DEFAULT_MAX_RECONNECT_DELAY_MS
+    };
+    this.timeoutMs = resolved.timeoutMs;
+    this.connections = [...new Set(relays)].map((url) => new RelayConnection(url, resolved));
+  }
+
+  /**
+   * URLs of the relays in the pool
+   * @returns {string[]} Relay URLs
+   */
+  get relays(): string[] {
+    return this.connections.map((connection) => connection.url);
+  }
+
+  /**
+   * Checks whether the connection to a relay is currently open
+   * @param {string} relay - Relay URL
+   * @returns {boolean} True if connected
+   */
+  isConnected(relay: string): boolean {
+    return this.connections.some((connection) => connection.url === relay && connection.connected);
+  }
+
+  /**
+   * Opens a subscription on every relay
+   * @param {NostrFilter[]} filters - Filters sent with REQ
+   * @param {SubscriptionHandlers} handlers - Event, EOSE, CLOSED and error callbacks
+   * @returns {PoolSubscription} The subscription; call `close()` to end it
+   */
+  subscribe(filters: NostrFilter[], handlers: SubscriptionHandlers): PoolSubscription {
+    const subscription: NostrSubscription = { id: crypto.randomBytes(8).toString('hex'), filters };
+    for (const connection of this.connections) {
+      connection.subscribe(subscription, handlers);
+    }
+    return {
+      ...subscription,
+      close: () => {
+        for (const connection of this.connections) {
+          connection.unsubscribe(subscription.id);
+        }
+      }
+    };
+  }
+
+  /**
+   * Fetches the stored events matching the filters from every relay
+   * @param {NostrFilter[]} filters - Filters sent with REQ
+   * @param {{ timeoutMs?: number }} [options] - Time to wait for the relays' EOSE (default: the pool timeout)
+   * @returns {Promise<NostrEvent[]>} Events deduplicated by id, unverified
+   * @description Resolves once every relay has sent EOSE, ended the subscription or failed, or when the timeout passes.
+   */
+  query(filters: NostrFilter[], options: { timeoutMs?: number } = {}): Promise<NostrEvent[]> {
+    return new Promise((resolve) => {
+      const events = new Map<string, NostrEvent>();
+      const waiting = new Set(this.relays);
+      let subscription: PoolSubscription | undefined;
+      let settled = false;
+
+      const finish = () => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timer);
+        subscription?.close();
+        resolve([...events.values()]);
+      };
+      const done = (relay: string) => {
+        waiting.delete(relay);
+        if (!waiting.size) {
+          finish();
+        }
+      };
+
+      const timer = setTimeout(finish, options.timeoutMs ?? this.timeoutMs);
+      subscription = this.subscribe(filters, {
+        onEvent: (event) => {
+          if (typeof event.id === 'string' && !events.has(event.id)) {
+            events.set(event.id, event);
+          }
+        },
+        onEose: done,
+        onClosed: done,
+        onError: done
+      });
+      // Relays that could not even be dialled report their error synchronously
+      if (settled) {
+        subscription.close();
+      } else if (!waiting.size) {
+        finish();
+      }
+    });
+  }
+
+  /**
+   * Publishes a signed event to every relay
+   * @param {NostrEvent} event - Signed event
+   * @param {{ timeoutMs?: number }} [options] - Time to wait for each relay's OK (default: the pool timeout)
+   * @returns {Promise<PublishResult[]>} One result per relay
+   */
+  async publish(event: NostrEvent, options: { timeoutMs?: number } = {}): Promise<PublishResult[]> {
+    if (!event.id || !event.sig) {
+      throw new Error('Only signed events can be published');
+    }
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+    return Promise.all(this.connections.map(async (connection) => ({
+      relay: connection.url,
+      ...(await connection.publish(event, timeoutMs))
+    })));
+  }
+
+  /**
+   * Closes every connection and stops reconnecting
+   * @description Pending publishes resolve as not accepted.
+   */
+  close(): void {
+    for (const connection of this.connections) {
+      connection.close();
+    }
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * @fileoverview API key store contract for ApiKeyService
+ * Defines the storage interface for managed API keys
+ * @module api-key-store
+ */
+
+import type { ApiKeyRecord } from '../types.js';
+
+/**
+ * Storage backend for managed API keys
+ * @interface ApiKeyStore
+ * @description
+ * Records hold the SHA-256 of each key, never the key itself. Expired keys
+ * stay until an admin deletes them so their history remains visible.
+ */
+export interface ApiKeyStore {
+  /**
+   * Retrieves a key by id
+   * @param {string} id - Key identifier
+   * @returns {Promise<ApiKeyRecord | null>} The record, or null if unknown
+   */
+  get(id: string): Promise<ApiKeyRecord | null>;
+
+  /**
+   * Retrieves the key with a given hash
+   * @param {string} keyHash - SHA-256 of the presented key (hex)
+   * @returns {Promise<ApiKeyRecord | null>} The record, or null if no key has this hash
+   */
+  findByHash(keyHash: string): Promise<ApiKeyRecord | null>;
+
+  /**
+   * Lists keys, oldest first
+   * @param {string} [owner] - Only return the keys of this owner
+   * @returns {Promise<ApiKeyRecord[]>} Matching records
+   */
+  list(owner?: string): Promise<ApiKeyRecord[]>;
+
+  /**
+   * Creates or replaces a key record
+   * @param {ApiKeyRecord} record - The key record
+   */
+  put(record: ApiKeyRecord): Promise<void>;
+
+  /**
+   * Records that a key was used
+   * @param {string} id - Key identifier
+   * @param {number} lastUsedAt - Unix timestamp in seconds
+   */
+  touch(id: string, lastUsedAt: number): Promise<void>;
+
+  /**
+   * Removes a key
+   * @param {string} id - Key identifier
+   * @returns {Promise<boolean>} True if the key existed
+   */
+  delete(id: string): Promise<boolean>;
+}
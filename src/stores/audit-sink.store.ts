@@ -0,0 +1,27 @@
+/**
+ * @fileoverview Audit sink contract for AuditLog
+ * Defines where audit events are written
+ * @module audit-sink-store
+ */
+
+import type { AuditEvent } from '../types.js';
+
+/**
+ * Destination for audit events
+ * @interface AuditSink
+ * @description
+ * Events arrive in the order they were recorded. A sink that throws or
+ * rejects only loses that event; authentication carries on regardless.
+ */
+export interface AuditSink {
+  /**
+   * Writes one event
+   * @param {AuditEvent} event - The event
+   */
+  write(event: AuditEvent): void | Promise<void>;
+
+  /**
+   * Waits for pending writes and releases resources (optional)
+   */
+  close?(): Promise<void>;
+}
@@ -0,0 +1,53 @@
+/**
+ * @fileoverview Challenge store contract for NostrService
+ * Defines the storage interface for outstanding authentication challenges so
+ * deployments can plug in a backend shared across replicas
+ * @module challenge-store
+ */
+
+/**
+ * Interface representing a challenge persisted by a ChallengeStore
+ * @interface StoredChallenge
+ */
+export interface StoredChallenge {
+  /** Unique identifier for the challenge */
+  id: string;
+  /** Public key the challenge was issued to */
+  pubkey: string;
+  /** Challenge string to be signed */
+  challenge: string;
+  /** Unix timestamp (seconds) when the challenge was created */
+  created_at: number;
+  /** Unix timestamp (seconds) when the challenge expires */
+  expires_at: number;
+}
+
+/**
+ * Storage backend for outstanding challenges
+ * @interface ChallengeStore
+ * @description
+ * Implementations must make `consume` atomic: a challenge may be returned
+ * by at most one call, no matter how many verifications race for it.
+ */
+export interface ChallengeStore {
+  /**
+   * Persists a newly issued challenge
+   * @param {StoredChallenge} challenge - Challenge to store
+   */
+  put(challenge: StoredChallenge): Promise<void>;
+
+  /**
+   * Atomically removes and returns the challenge issued to a public key
+   * @param {string} pubkey - Public key the challenge was issued to
+   * @param {string} challenge - Challenge string presented by the client
+   * @returns {Promise<StoredChallenge | null>} The consumed challenge, or null if none matched
+   */
+  consume(pubkey: string, challenge: string): Promise<StoredChallenge | null>;
+
+  /**
+   * Removes every challenge that expired before the given time
+   * @param {number} [now] - Unix timestamp in seconds (defaults to the current time)
+   * @returns {Promise<number>} Number of challenges removed
+   */
+  expire(now?: number): Promise<number>;
+}
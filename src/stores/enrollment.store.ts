@@ -0,0 +1,37 @@
+/**
+ * @fileoverview Enrollment store contract for NostrService
+ * Defines the storage interface for enrollment records
+ * @module enrollment-store
+ */
+
+import type { NostrEnrollment, EnrollmentStatus } from '../types.js';
+
+/**
+ * Storage backend for enrollment records, one per pubkey
+ * @interface EnrollmentStore
+ * @description
+ * Enrollments do not expire; a record stays until the deployment removes it.
+ */
+export interface EnrollmentStore {
+  /**
+   * Retrieves the enrollment of a pubkey
+   * @param {string} pubkey - Public key of the user
+   * @returns {Promise<NostrEnrollment | null>} The enrollment, or null if the pubkey never enrolled
+   */
+  get(pubkey: string): Promise<NostrEnrollment | null>;
+
+  /**
+   * Creates or replaces the enrollment of a pubkey
+   * @param {NostrEnrollment} enrollment - The enrollment record
+   */
+  put(enrollment: NostrEnrollment): Promise<void>;
+
+  /**
+   * Changes the status of an existing enrollment
+   * @param {string} pubkey - Public key of the user
+   * @param {EnrollmentStatus} status - New status
+   * @param {number} updatedAt - Unix timestamp in seconds
+   * @returns {Promise<NostrEnrollment | null>} The updated enrollment, or null if the pubkey never enrolled
+   */
+  setStatus(pubkey: string, status: EnrollmentStatus, updatedAt: number): Promise<NostrEnrollment | null>;
+}
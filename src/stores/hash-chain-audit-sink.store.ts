@@ -0,0 +1,212 @@
+/**
+ * @fileoverview Tamper-evident JSON-lines audit sink
+ * @module hash-chain-audit-sink-store
+ */
+
+import { appendFile, open } from 'fs/promises';
+import type { AuditEvent, ChainedAuditEntry, HashChainAuditConfig, NostrEvent } from '../types.js';
+import type { AuditSink } from './audit-sink.store.js';
+import { signEvent } from '../utils/crypto.utils.js';
+import { AUDIT_CHECKPOINT_KIND, AUDIT_CHECKPOINT_TAG, AUDIT_GENESIS_HASH, hashAuditEntry } from '../utils/audit-chain.utils.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('HashChainAuditSink');
+
+const DEFAULT_CHECKPOINT_EVERY = 1000;
+const DEFAULT_CHECKPOINT_INTERVAL_MS = 3600000; // 1 hour
+
+/** Bytes read from the end of an existing log to find its last entry */
+const TAIL_BYTES = 65536;
+
+/**
+ * Reads the last non-empty line of a file
+ * @param {string} path - The file
+ * @returns {Promise<string | null>} The line, or null if the file is missing or empty
+ */
+async function readLastLine(path: string): Promise<string | null> {
+  let handle;
+  try {
+    handle = await open(path, 'r');
+  } catch (error) {
+    if ((error as { code?: string }).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+
+  try {
+    const { size } = await handle.stat();
+    const length = Math.min(size, TAIL_BYTES);
+    const buffer = Buffer.alloc(length);
+    await handle.read(buffer, 0, length, size - length);
+    const lines = buffer.toString('utf8').split('\n').filter(line => line.trim());
+    return lines.length ? lines[lines.length - 1] : null;
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Appends audit events as a hash chain with signed checkpoints
+ * @class HashChainAuditSink
+ * @description
+ * Each line names the hash of the line before it, so editing, inserting or
+ * removing an entry breaks every link after it. Every `checkpointEvery`
+ * events, every `checkpointIntervalMs` and on close, a Nostr event signed
+ * with the server key is appended that commits to the latest hash; without
+ * the key, a rewritten chain cannot carry valid checkpoints. An existing log
+ * is continued where it ended; call `open()` at startup to find out early
+ * if it cannot be. Check a log with `verifyAuditLog`.
+ * @example
+ * const sink = new HashChainAuditSink('data/audit.jsonl', { privateKey: config.privateKey });
+ * await sink.open();
+ * const auditLog = new AuditLog([sink]);
+ */
+export class HashChainAuditSink implements AuditSink {
+  private readonly config: HashChainAuditConfig;
+  private readonly checkpointEvery: number;
+  private readonly checkpointInterval: ReturnType<typeof setInterval>;
+  private pending: Promise<void> = Promise.resolve();
+  private head?: { seq: number; hash: string };
+  private sinceCheckpoint = 0;
+
+  /**
+   * Creates a new HashChainAuditSink
+   * @param {string} path - File the entries are appended to; created if missing
+   * @param {HashChainAuditConfig} config - Signing key and checkpoint schedule
+   * @throws {Error} If the private key is not 64 hex characters
+   */
+  constructor(private readonly path: string, config: HashChainAuditConfig) {
+    if (!/^[0-9a-f]{64}$/i.test(config.privateKey ?? '')) {
+      throw new Error('Audit checkpoints require a hex private key');
+    }
+
+    this.config = config;
+    this.checkpointEvery = config.checkpointEvery ?? DEFAULT_CHECKPOINT_EVERY;
+    this.checkpointInterval = setInterval(() => {
+      if (this.sinceCheckpoint > 0) {
+        this.enqueue(() => this.writeCheckpoint());
+      }
+    }, config.checkpointIntervalMs ?? DEFAULT_CHECKPOINT_INTERVAL_MS);
+    // The timer alone must not keep the process alive
+    this.checkpointInterval.unref?.();
+  }
+
+  /**
+   * Reads the head of an existing log, so a log the sink cannot continue is reported before any event is lost
+   * @returns {Promise<void>}
+   * @throws {Error} If the last line of an existing log is not a chained entry
+   */
+  async open(): Promise<void> {
+    await this.getHead();
+  }
+
+  write(event: AuditEvent): Promise<void> {
+    return this.enqueue(async () => {
+      await this.append({ event });
+      this.sinceCheckpoint++;
+      if (this.sinceCheckpoint >= this.checkpointEvery) {
+        await this.writeCheckpoint();
+      }
+    });
+  }
+
+  /**
+   * Appends a checkpoint now, after any queued events
+   * @returns {Promise<void>}
+   */
+  checkpoint(): Promise<void> {
+    return this.enqueue(() => this.writeCheckpoint());
+  }
+
+  /**
+   * Stops the checkpoint timer and seals the log with a final checkpoint
+   * @returns {Promise<void>}
+   */
+  async close(): Promise<void> {
+    clearInterval(this.checkpointInterval);
+    if (this.sinceCheckpoint > 0) {
+      this.enqueue(() => this.writeCheckpoint());
+    }
+    await this.pending;
+  }
+
+  /**
+   * Runs a write after the ones already queued, so entries are chained in order
+   * @param {() => Promise<void>} task - The write
+   * @returns {Promise<void>} Settles when the write is done; failures are logged
+   */
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    this.pending = this.pending.then(task).catch((error) => {
+      logger.error(`Failed to append to audit chain ${this.path}:`, { error: error instanceof Error ? error.message : String(error) });
+    });
+    return this.pending;
+  }
+
+  /**
+   * Returns the seq and hash of the last entry, reading them from the file on first use
+   * @returns {Promise<{ seq: number; hash: string }>} The chain head
+   * @throws {Error} If the last line of an existing log is not a chained entry
+   */
+  private async getHead(): Promise<{ seq: number; hash: string }> {
+    if (this.head) {
+      return this.head;
+    }
+
+    const line = await readLastLine(this.path);
+    if (!line) {
+      this.head = { seq: 0, hash: AUDIT_GENESIS_HASH };
+      return this.head;
+    }
+
+    let last: Partial<ChainedAuditEntry> | undefined;
+    try {
+      last = JSON.parse(line);
+    } catch {
+      // Reported below
+    }
+    if (typeof last?.seq !== 'number' || typeof last.hash !== 'string') {
+      // Starting a new chain here would hide whatever happened to the old one
+      throw new Error(`Last entry of ${this.path} is not a chained audit entry`);
+    }
+    this.head = { seq: last.seq, hash: last.hash };
+    return this.head;
+  }
+
+  /**
+   * Links a payload to the chain head and appends it
+   * @param {Pick<ChainedAuditEntry, 'event' | 'checkpoint'>} payload - The event or checkpoint
+   * @returns {Promise<void>}
+   */
+  private async append(payload: Pick<ChainedAuditEntry, 'event' | 'checkpoint'>): Promise<void> {
+    const head = await this.getHead();
+    const seq = head.seq + 1;
+    const hash = hashAuditEntry({ seq, prev_hash: head.hash, ...payload });
+    const entry: ChainedAuditEntry = { seq, prev_hash: head.hash, hash, ...payload };
+    await appendFile(this.path, `${JSON.stringify(entry)}\n`);
+    this.head = { seq, hash };
+  }
+
+  /**
+   * Signs the chain head and appends the checkpoint
+   * @returns {Promise<void>}
+   */
+  private async writeCheckpoint(): Promise<void> {
+    const head = await this.getHead();
+    const unsigned: NostrEvent = {
+      kind: AUDIT_CHECKPOINT_KIND,
+      created_at: Math.floor(Date.now() / 1000),
+      tags: [['d', AUDIT_CHECKPOINT_TAG], ['seq', String(head.seq)], ['hash', head.hash]],
+      content: ''
+    };
+    const checkpoint = await signEvent(unsigned, this.config.privateKey);
+    await this.append({ checkpoint });
+    this.sinceCheckpoint = 0;
+
+    try {
+      await this.config.onCheckpoint?.(checkpoint);
+    } catch (error) {
+      logger.error('Checkpoint callback failed:', { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+}
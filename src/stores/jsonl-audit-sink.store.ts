@@ -0,0 +1,43 @@
+/**
+ * @fileoverview JSON-lines file audit sink
+ * @module jsonl-audit-sink-store
+ */
+
+import { appendFile } from 'fs/promises';
+import type { AuditEvent } from '../types.js';
+import type { AuditSink } from './audit-sink.store.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('JsonLinesAuditSink');
+
+/**
+ * Appends each audit event to a file as one line of JSON
+ * @class JsonLinesAuditSink
+ * @description
+ * Writes are queued so lines keep the order events were recorded in. The
+ * file is opened for each write, so it can be rotated (moved away) at any
+ * time and is recreated with the next event.
+ * @example
+ * const auditLog = new AuditLog([new JsonLinesAuditSink('data/audit.jsonl')]);
+ */
+export class JsonLinesAuditSink implements AuditSink {
+  private pending: Promise<void> = Promise.resolve();
+
+  /**
+   * Creates a new JsonLinesAuditSink
+   * @param {string} path - File the events are appended to; created if missing
+   */
+  constructor(private readonly path: string) {}
+
+  write(event: AuditEvent): Promise<void> {
+    const line = `${JSON.stringify(event)}\n`;
+    this.pending = this.pending.then(() => appendFile(this.path, line)).catch((error) => {
+      logger.error(`Failed to append audit event to ${this.path}:`, { error: error instanceof Error ? error.message : String(error) });
+    });
+    return this.pending;
+  }
+
+  async close(): Promise<void> {
+    await this.pending;
+  }
+}
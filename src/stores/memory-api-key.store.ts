@@ -0,0 +1,54 @@
+/**
+ * @fileoverview In-memory API key store
+ * @module memory-api-key-store
+ */
+
+import type { ApiKeyRecord } from '../types.js';
+import type { ApiKeyStore } from './api-key.store.js';
+
+/**
+ * Process-local API key store backed by a Map
+ * @class MemoryApiKeyStore
+ * @description
+ * Suitable for development and tests. Keys are lost on restart and
+ * are not shared between replicas.
+ */
+export class MemoryApiKeyStore implements ApiKeyStore {
+  private readonly keys = new Map<string, ApiKeyRecord>();
+
+  async get(id: string): Promise<ApiKeyRecord | null> {
+    const record = this.keys.get(id);
+    return record ? { ...record, scopes: [...record.scopes] } : null;
+  }
+
+  async findByHash(keyHash: string): Promise<ApiKeyRecord | null> {
+    for (const record of this.keys.values()) {
+      if (record.key_hash === keyHash) {
+        return { ...record, scopes: [...record.scopes] };
+      }
+    }
+    return null;
+  }
+
+  async list(owner?: string): Promise<ApiKeyRecord[]> {
+    return [...this.keys.values()]
+      .filter(record => owner === undefined || record.owner === owner)
+      .sort((a, b) => a.created_at - b.created_at)
+      .map(record => ({ ...record, scopes: [...record.scopes] }));
+  }
+
+  async put(record: ApiKeyRecord): Promise<void> {
+    this.keys.set(record.id, { ...record, scopes: [...record.scopes] });
+  }
+
+  async touch(id: string, lastUsedAt: number): Promise<void> {
+    const record = this.keys.get(id);
+    if (record) {
+      record.last_used_at = lastUsedAt;
+    }
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.keys.delete(id);
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * @fileoverview In-memory audit sink
+ * @module memory-audit-sink-store
+ */
+
+import type { AuditEvent, AuditEventType } from '../types.js';
+import type { AuditSink } from './audit-sink.store.js';
+
+const DEFAULT_LIMIT = 1000;
+
+/**
+ * Process-local audit sink keeping the most recent events
+ * @class MemoryAuditSink
+ * @description
+ * Suitable for tests and for showing recent activity. Events are lost on
+ * restart; once `limit` is reached the oldest event is dropped.
+ */
+export class MemoryAuditSink implements AuditSink {
+  private events: AuditEvent[] = [];
+
+  /**
+   * Creates a new MemoryAuditSink
+   * @param {number} [limit=1000] - Number of events kept
+   */
+  constructor(private readonly limit: number = DEFAULT_LIMIT) {}
+
+  write(event: AuditEvent): void {
+    this.events.push(event);
+    if (this.events.length > this.limit) {
+      this.events.shift();
+    }
+  }
+
+  /**
+   * Returns the kept events, oldest first
+   * @param {AuditEventType} [type] - Only return events of this type
+   * @returns {AuditEvent[]} Matching events
+   */
+  list(type?: AuditEventType): AuditEvent[] {
+    return type ? this.events.filter(event => event.type === type) : [...this.events];
+  }
+
+  /**
+   * Drops all kept events
+   */
+  clear(): void {
+    this.events = [];
+  }
+}
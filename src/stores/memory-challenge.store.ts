@@ -0,0 +1,45 @@
+/**
+ * @fileoverview In-memory challenge store
+ * Default ChallengeStore used when no shared backend is configured
+ * @module memory-challenge-store
+ */
+
+import type { ChallengeStore, StoredChallenge } from './challenge.store.js';
+
+/**
+ * Process-local challenge store backed by a Map
+ * @class MemoryChallengeStore
+ * @description
+ * Suitable for single-instance deployments and tests. Outstanding challenges
+ * are lost on restart and are not shared between replicas.
+ */
+export class MemoryChallengeStore implements ChallengeStore {
+  private readonly challenges = new Map<string, StoredChallenge>();
+
+  async put(challenge: StoredChallenge): Promise<void> {
+    this.challenges.set(challenge.id, { ...challenge });
+  }
+
+  async consume(pubkey: string, challenge: string): Promise<StoredChallenge | null> {
+    // Lookup and delete happen in the same synchronous block, so concurrent
+    // callers can never both receive the same entry
+    for (const [id, entry] of this.challenges) {
+      if (entry.pubkey === pubkey && entry.challenge === challenge) {
+        this.challenges.delete(id);
+        return entry;
+      }
+    }
+    return null;
+  }
+
+  async expire(now: number = Math.floor(Date.now() / 1000)): Promise<number> {
+    let removed = 0;
+    for (const [id, entry] of this.challenges) {
+      if (entry.expires_at < now) {
+        this.challenges.delete(id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * @fileoverview In-memory enrollment store
+ * @module memory-enrollment-store
+ */
+
+import type { NostrEnrollment, EnrollmentStatus } from '../types.js';
+import type { EnrollmentStore } from './enrollment.store.js';
+
+/**
+ * Process-local enrollment store backed by a Map
+ * @class MemoryEnrollmentStore
+ * @description
+ * Suitable for development and tests. Enrollments are lost on restart and
+ * are not shared between replicas.
+ */
+export class MemoryEnrollmentStore implements EnrollmentStore {
+  private readonly enrollments = new Map<string, NostrEnrollment>();
+
+  async get(pubkey: string): Promise<NostrEnrollment | null> {
+    const enrollment = this.enrollments.get(pubkey);
+    return enrollment ? { ...enrollment } : null;
+  }
+
+  async put(enrollment: NostrEnrollment): Promise<void> {
+    this.enrollments.set(enrollment.pubkey, { ...enrollment });
+  }
+
+  async setStatus(pubkey: string, status: EnrollmentStatus, updatedAt: number): Promise<NostrEnrollment | null> {
+    const enrollment = this.enrollments.get(pubkey);
+    if (!enrollment) {
+      return null;
+    }
+    enrollment.status = status;
+    enrollment.updated_at = updatedAt;
+    return { ...enrollment };
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * @fileoverview In-memory NIP-05 name store
+ * @module memory-nip05-name-store
+ */
+
+import type { Nip05Name } from '../types.js';
+import type { Nip05NameStore } from './nip05-name.store.js';
+
+/**
+ * Process-local NIP-05 name store backed by a Map
+ * @class MemoryNip05NameStore
+ * @description
+ * Suitable for development and tests. Names are lost on restart and
+ * are not shared between replicas.
+ */
+export class MemoryNip05NameStore implements Nip05NameStore {
+  private readonly names = new Map<string, Nip05Name>();
+
+  async get(name: string): Promise<Nip05Name | null> {
+    const record = this.names.get(name);
+    return record ? { ...record, relays: [...record.relays] } : null;
+  }
+
+  async put(record: Nip05Name): Promise<void> {
+    this.names.set(record.name, { ...record, relays: [...record.relays] });
+  }
+
+  async delete(name: string): Promise<boolean> {
+    return this.names.delete(name);
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * @fileoverview In-memory refresh token store
+ * @module memory-refresh-token-store
+ */
+
+import type { RefreshTokenStore, StoredRefreshToken } from './refresh-token.store.js';
+
+/**
+ * Process-local refresh token store backed by a Map
+ * @class MemoryRefreshTokenStore
+ * @description
+ * Suitable for single-instance deployments and tests. Refresh tokens are lost
+ * on restart and are not shared between replicas.
+ */
+export class MemoryRefreshTokenStore implements RefreshTokenStore {
+  private readonly tokens = new Map<string, StoredRefreshToken>();
+
+  async put(token: StoredRefreshToken): Promise<void> {
+    this.tokens.set(token.token_hash, { ...token });
+  }
+
+  async markUsed(tokenHash: string, now: number): Promise<StoredRefreshToken | null> {
+    const token = this.tokens.get(tokenHash);
+    if (!token) {
+      return null;
+    }
+
+    const before = { ...token };
+    if (token.used_at === null) {
+      token.used_at = now;
+    }
+    return before;
+  }
+
+  async get(tokenHash: string): Promise<StoredRefreshToken | null> {
+    const token = this.tokens.get(tokenHash);
+    return token ? { ...token } : null;
+  }
+
+  async revokeFamily(family: string): Promise<number> {
+    return this.removeWhere(token => token.family === family);
+  }
+
+  async revokePubkey(pubkey: string): Promise<number> {
+    return this.removeWhere(token => token.pubkey === pubkey);
+  }
+
+  async expire(now: number = Math.floor(Date.now() / 1000)): Promise<number> {
+    return this.removeWhere(token => token.expires_at < now);
+  }
+
+  private removeWhere(predicate: (token: StoredRefreshToken) => boolean): number {
+    let removed = 0;
+    for (const [hash, token] of this.tokens) {
+      if (predicate(token)) {
+        this.tokens.delete(hash);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * @fileoverview In-memory replay store
+ * @module memory-replay-store
+ */
+
+import type { ReplayStore } from './replay.store.js';
+
+/**
+ * Process-local replay store backed by a Map
+ * @class MemoryReplayStore
+ * @description
+ * Suitable for single-instance deployments and tests. Seen ids are lost on
+ * restart and are not shared between replicas.
+ */
+export class MemoryReplayStore implements ReplayStore {
+  private readonly seen = new Map<string, number>();
+
+  async markSeen(id: string, expiresAt: number): Promise<boolean> {
+    if (this.seen.has(id)) {
+      return false;
+    }
+    this.seen.set(id, expiresAt);
+    return true;
+  }
+
+  async expire(now: number = Math.floor(Date.now() / 1000)): Promise<number> {
+    let removed = 0;
+    for (const [id, expiresAt] of this.seen) {
+      if (expiresAt < now) {
+        this.seen.delete(id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
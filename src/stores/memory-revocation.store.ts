@@ -0,0 +1,55 @@
+/**
+ * @fileoverview In-memory revocation store
+ * @module memory-revocation-store
+ */
+
+import type { RevocationStore } from './revocation.store.js';
+
+/**
+ * Process-local revocation store backed by Maps
+ * @class MemoryRevocationStore
+ * @description
+ * Suitable for single-instance deployments and tests. Revocations are lost
+ * on restart and are not shared between replicas.
+ */
+export class MemoryRevocationStore implements RevocationStore {
+  private readonly tokens = new Map<string, number>();
+  private readonly pubkeys = new Map<string, { revokedAt: number; expiresAt: number }>();
+
+  async revokeToken(jti: string, expiresAt: number): Promise<void> {
+    this.tokens.set(jti, Math.max(expiresAt, this.tokens.get(jti) ?? 0));
+  }
+
+  async revokePubkey(pubkey: string, revokedAt: number, expiresAt: number): Promise<void> {
+    const existing = this.pubkeys.get(pubkey);
+    this.pubkeys.set(pubkey, {
+      revokedAt: Math.max(revokedAt, existing?.revokedAt ?? 0),
+      expiresAt: Math.max(expiresAt, existing?.expiresAt ?? 0)
+    });
+  }
+
+  async isRevoked(jti: string | undefined, pubkey: string, issuedAt: number): Promise<boolean> {
+    if (jti && this.tokens.has(jti)) {
+      return true;
+    }
+    const cutoff = this.pubkeys.get(pubkey);
+    return !!cutoff && issuedAt <= cutoff.revokedAt;
+  }
+
+  async expire(now: number = Math.floor(Date.now() / 1000)): Promise<number> {
+    let removed = 0;
+    for (const [jti, expiresAt] of this.tokens) {
+      if (expiresAt < now) {
+        this.tokens.delete(jti);
+        removed++;
+      }
+    }
+    for (const [pubkey, cutoff] of this.pubkeys) {
+      if (cutoff.expiresAt < now) {
+        this.pubkeys.delete(pubkey);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
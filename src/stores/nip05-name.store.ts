@@ -0,0 +1,35 @@
+/**
+ * @fileoverview NIP-05 name store contract for NostrService
+ * Defines the storage interface for names served from `/.well-known/nostr.json`
+ * @module nip05-name-store
+ */
+
+import type { Nip05Name } from '../types.js';
+
+/**
+ * Storage backend for NIP-05 names, one pubkey per name
+ * @interface Nip05NameStore
+ * @description
+ * Names are stored lowercased. A record stays until an admin releases it.
+ */
+export interface Nip05NameStore {
+  /**
+   * Retrieves the record of a name
+   * @param {string} name - Lowercased local part
+   * @returns {Promise<Nip05Name | null>} The record, or null if the name is free
+   */
+  get(name: string): Promise<Nip05Name | null>;
+
+  /**
+   * Creates or replaces the record of a name
+   * @param {Nip05Name} record - The name record
+   */
+  put(record: Nip05Name): Promise<void>;
+
+  /**
+   * Removes a name
+   * @param {string} name - Lowercased local part
+   * @returns {Promise<boolean>} True if the name existed
+   */
+  delete(name: string): Promise<boolean>;
+}
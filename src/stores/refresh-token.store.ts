@@ -0,0 +1,74 @@
+/**
+ * @fileoverview Refresh token store contract for NostrService
+ * Defines the storage interface for rotating refresh tokens
+ * @module refresh-token-store
+ */
+
+/**
+ * Interface representing a refresh token persisted by a RefreshTokenStore
+ * @interface StoredRefreshToken
+ * @description Only a hash of the token is stored; the raw token is returned to the client once.
+ */
+export interface StoredRefreshToken {
+  /** SHA-256 hash (hex) of the refresh token */
+  token_hash: string;
+  /** Identifier shared by every token descended from the same login */
+  family: string;
+  /** Public key the token was issued to */
+  pubkey: string;
+  /** Unix timestamp (seconds) when the token was issued */
+  issued_at: number;
+  /** Unix timestamp (seconds) when the token expires */
+  expires_at: number;
+  /** Unix timestamp (seconds) when the token was rotated, or null while it is unused */
+  used_at: number | null;
+}
+
+/**
+ * Storage backend for refresh tokens
+ * @interface RefreshTokenStore
+ */
+export interface RefreshTokenStore {
+  /**
+   * Persists a newly issued refresh token
+   * @param {StoredRefreshToken} token - Token record to store
+   */
+  put(token: StoredRefreshToken): Promise<void>;
+
+  /**
+   * Atomically marks a refresh token as used
+   * @param {string} tokenHash - SHA-256 hash of the presented token
+   * @param {number} now - Unix timestamp in seconds to record as `used_at`
+   * @returns {Promise<StoredRefreshToken | null>} The record as it was before this call
+   * (`used_at` is null only for the single caller that won the rotation), or null if unknown
+   */
+  markUsed(tokenHash: string, now: number): Promise<StoredRefreshToken | null>;
+
+  /**
+   * Looks up a refresh token without changing it
+   * @param {string} tokenHash - SHA-256 hash of the token
+   * @returns {Promise<StoredRefreshToken | null>} Token record, or null if unknown
+   */
+  get(tokenHash: string): Promise<StoredRefreshToken | null>;
+
+  /**
+   * Removes every token in a family
+   * @param {string} family - Token family identifier
+   * @returns {Promise<number>} Number of tokens removed
+   */
+  revokeFamily(family: string): Promise<number>;
+
+  /**
+   * Removes every token issued to a pubkey
+   * @param {string} pubkey - Public key whose tokens are removed
+   * @returns {Promise<number>} Number of tokens removed
+   */
+  revokePubkey(pubkey: string): Promise<number>;
+
+  /**
+   * Removes every token that expired before the given time
+   * @param {number} [now] - Unix timestamp in seconds (defaults to the current time)
+   * @returns {Promise<number>} Number of tokens removed
+   */
+  expire(now?: number): Promise<number>;
+}
@@ -0,0 +1,26 @@
+/**
+ * @fileoverview Replay store contract
+ * Defines the storage interface for remembering single-use event ids
+ * @module replay-store
+ */
+
+/**
+ * Storage backend for event ids that may only be accepted once
+ * @interface ReplayStore
+ */
+export interface ReplayStore {
+  /**
+   * Atomically records an event id
+   * @param {string} id - Event id
+   * @param {number} expiresAt - Unix timestamp (seconds) after which the event is rejected as too old anyway
+   * @returns {Promise<boolean>} True if the id was new, false if it was already recorded
+   */
+  markSeen(id: string, expiresAt: number): Promise<boolean>;
+
+  /**
+   * Removes every id that expired before the given time
+   * @param {number} [now] - Unix timestamp in seconds (defaults to the current time)
+   * @returns {Promise<number>} Number of ids removed
+   */
+  expire(now?: number): Promise<number>;
+}
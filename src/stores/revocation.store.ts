@@ -0,0 +1,46 @@
+/**
+ * @fileoverview Revocation store contract for NostrService
+ * Defines the storage interface for tokens invalidated before their expiry
+ * @module revocation-store
+ */
+
+/**
+ * Storage backend for revoked tokens
+ * @interface RevocationStore
+ * @description
+ * Tracks individual tokens by `jti` (logout) and per-pubkey cut-off times
+ * (revoke everything issued to a key up to a point, e.g. after an nsec leak).
+ * Entries only need to outlive the tokens they cover.
+ */
+export interface RevocationStore {
+  /**
+   * Revokes a single token
+   * @param {string} jti - Token identifier
+   * @param {number} expiresAt - Unix timestamp (seconds) when the token expires anyway
+   */
+  revokeToken(jti: string, expiresAt: number): Promise<void>;
+
+  /**
+   * Revokes every token issued to a pubkey at or before a point in time
+   * @param {string} pubkey - Public key whose tokens are revoked
+   * @param {number} revokedAt - Unix timestamp (seconds); tokens with `iat` at or before it are revoked
+   * @param {number} expiresAt - Unix timestamp (seconds) after which no covered token can still be valid
+   */
+  revokePubkey(pubkey: string, revokedAt: number, expiresAt: number): Promise<void>;
+
+  /**
+   * Checks whether a token has been revoked
+   * @param {string | undefined} jti - Token identifier, if the token has one
+   * @param {string} pubkey - Public key the token was issued to
+   * @param {number} issuedAt - Unix timestamp (seconds) from the token's `iat` claim
+   * @returns {Promise<boolean>} True if the token must be rejected
+   */
+  isRevoked(jti: string | undefined, pubkey: string, issuedAt: number): Promise<boolean>;
+
+  /**
+   * Removes every entry whose covered tokens have all expired
+   * @param {number} [now] - Unix timestamp in seconds (defaults to the current time)
+   * @returns {Promise<number>} Number of entries removed
+   */
+  expire(now?: number): Promise<number>;
+}
@@ -0,0 +1,53 @@
+/**
+ * @fileoverview Session store contract for NostrService
+ * Defines the storage interface for metadata about issued tokens
+ * @module session-store
+ */
+
+/**
+ * Interface representing metadata about an issued token
+ * @interface IssuedSession
+ */
+export interface IssuedSession {
+  /** Token identifier (the JWT `jti` claim) */
+  jti: string;
+  /** Public key the token was issued to */
+  pubkey: string;
+  /** Unix timestamp (seconds) when the token was issued */
+  issued_at: number;
+  /** Unix timestamp (seconds) when the token expires */
+  expires_at: number;
+}
+
+/**
+ * Storage backend for issued token metadata
+ * @interface SessionStore
+ */
+export interface SessionStore {
+  /**
+   * Records a newly issued token
+   * @param {IssuedSession} session - Session metadata to store
+   */
+  put(session: IssuedSession): Promise<void>;
+
+  /**
+   * Looks up an issued token by its identifier
+   * @param {string} jti - Token identifier
+   * @returns {Promise<IssuedSession | null>} Session metadata, or null if unknown
+   */
+  get(jti: string): Promise<IssuedSession | null>;
+
+  /**
+   * Removes an issued token
+   * @param {string} jti - Token identifier
+   * @returns {Promise<boolean>} True if a session was removed
+   */
+  delete(jti: string): Promise<boolean>;
+
+  /**
+   * Removes every session that expired before the given time
+   * @param {number} [now] - Unix timestamp in seconds (defaults to the current time)
+   * @returns {Promise<number>} Number of sessions removed
+   */
+  expire(now?: number): Promise<number>;
+}
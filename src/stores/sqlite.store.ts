@@ -0,0 +1,517 @@
+/**
+ * @fileoverview File-backed SQLite stores
+ * Persists challenges, issued-token metadata, refresh tokens, revocations, seen event ids, enrollments and API keys in a local SQLite database so
+ * single-host deployments survive restarts without any network service
+ * @module sqlite-store
+ */
+
+import type { ChallengeStore, StoredChallenge } from './challenge.store.js';
+import type { IssuedSession, SessionStore } from './session.store.js';
+import type { RefreshTokenStore, StoredRefreshToken } from './refresh-token.store.js';
+import type { RevocationStore } from './revocation.store.js';
+import type { ReplayStore } from './replay.store.js';
+import type { EnrollmentStore } from './enrollment.store.js';
+import type { Nip05NameStore } from './nip05-name.store.js';
+import type { ApiKeyStore } from './api-key.store.js';
+import type { NostrEnrollment, EnrollmentStatus, Nip05Name, ApiKeyRecord } from '../types.js';
+
+/**
+ * Minimal prepared statement surface used by the SQLite stores
+ * @interface SqliteStatement
+ * @description Compatible with both `better-sqlite3` and `node:sqlite`
+ */
+export interface SqliteStatement {
+  run(...params: unknown[]): { changes: number | bigint };
+  get(...params: unknown[]): unknown;
+  all(...params: unknown[]): unknown[];
+}
+
+/**
+ * Minimal database surface used by the SQLite stores
+ * @interface SqliteDatabase
+ * @description Compatible with both `better-sqlite3` and `node:sqlite`
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): SqliteStatement;
+}
+
+/**
+ * Opens (or creates) a SQLite database file using `better-sqlite3`
+ * @param {string} filename - Path to the database file
+ * @returns {Promise<SqliteDatabase>} Open database handle
+ * @throws {Error} If `better-sqlite3` is not installed
+ */
+export async function openSqliteDatabase(filename: string): Promise<SqliteDatabase> {
+  let Database: typeof import('better-sqlite3');
+  try {
+    Database = (await import('better-sqlite3')).default;
+  } catch {
+    throw new Error('better-sqlite3 is required for the SQLite store. Install it with `npm install better-sqlite3`.');
+  }
+
+  const db = new Database(filename);
+  // WAL lets concurrent readers proceed while a write is in progress
+  db.pragma('journal_mode = WAL');
+  return db as unknown as SqliteDatabase;
+}
+
+/**
+ * Challenge store backed by a SQLite `challenges` table
+ * @class SqliteChallengeStore
+ */
+export class SqliteChallengeStore implements ChallengeStore {
+  /**
+   * Creates a new SqliteChallengeStore, creating its table if needed
+   * @param {SqliteDatabase} db - Open database handle
+   */
+  constructor(private readonly db: SqliteDatabase) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS challenges (
+        id TEXT PRIMARY KEY,
+        pubkey TEXT NOT NULL,
+        challenge TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS challenges_pubkey_idx ON challenges (pubkey);
+      CREATE INDEX IF NOT EXISTS challenges_expires_at_idx ON challenges (expires_at);
+    `);
+  }
+
+  async put(challenge: StoredChallenge): Promise<void> {
+    this.db
+      .prepare('INSERT INTO challenges (id, pubkey, challenge, created_at, expires_at) VALUES (?, ?, ?, ?, ?)')
+      .run(challenge.id, challenge.pubkey, challenge.challenge, challenge.created_at, challenge.expires_at);
+  }
+
+  async consume(pubkey: string, challenge: string): Promise<StoredChallenge | null> {
+    // A single DELETE ... RETURNING statement is atomic, even across processes
+    const row = this.db
+      .prepare('DELETE FROM challenges WHERE pubkey = ? AND challenge = ? RETURNING *')
+      .get(pubkey, challenge) as StoredChallenge | undefined;
+    return row ? { ...row } : null;
+  }
+
+  async expire(now: number = Math.floor(Date.now() / 1000)): Promise<number> {
+    const { changes } = this.db.prepare('DELETE FROM challenges WHERE expires_at < ?').run(now);
+    return Number(changes);
+  }
+}
+
+/**
+ * Session store backed by a SQLite `sessions` table
+ * @class SqliteSessionStore
+ */
+export class SqliteSessionStore implements SessionStore {
+  /**
+   * Creates a new SqliteSessionStore, creating its table if needed
+   * @param {SqliteDatabase} db - Open database handle
+   */
+  constructor(private readonly db: SqliteDatabase) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        jti TEXT PRIMARY KEY,
+        pubkey TEXT NOT NULL,
+        issued_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS sessions_pubkey_idx ON sessions (pubkey);
+      CREATE INDEX IF NOT EXISTS sessions_expires_at_idx ON sessions (expires_at);
+    `);
+  }
+
+  async put(session: IssuedSession): Promise<void> {
+    this.db
+      .prepare('INSERT OR REPLACE INTO sessions (jti, pubkey, issued_at, expires_at) VALUES (?, ?, ?, ?)')
+      .run(session.jti, session.pubkey, session.issued_at, session.expires_at);
+  }
+
+  async get(jti: string): Promise<IssuedSession | null> {
+    const row = this.db.prepare('SELECT * FROM sessions WHERE jti = ?').get(jti) as IssuedSession | undefined;
+    return row ? { ...row } : null;
+  }
+
+  async delete(jti: string): Promise<boolean> {
+    const { changes } = this.db.prepare('DELETE FROM sessions WHERE jti = ?').run(jti);
+    return Number(changes) > 0;
+  }
+
+  async expire(now: number = Math.floor(Date.now() / 1000)): Promise<number> {
+    const { changes } = this.db.prepare('DELETE FROM sessions WHERE expires_at < ?').run(now);
+    return Number(changes);
+  }
+}
+
+/**
+ * Refresh token store backed by a SQLite `refresh_tokens` table
+ * @class SqliteRefreshTokenStore
+ */
+export class SqliteRefreshTokenStore implements RefreshTokenStore {
+  /**
+   * Creates a new SqliteRefreshTokenStore, creating its table if needed
+   * @param {SqliteDatabase} db - Open database handle
+   */
+  constructor(private readonly db: SqliteDatabase) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS refresh_tokens (
+        token_hash TEXT PRIMARY KEY,
+        family TEXT NOT NULL,
+        pubkey TEXT NOT NULL,
+        issued_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL,
+        used_at INTEGER
+      );
+      CREATE INDEX IF NOT EXISTS refresh_tokens_family_idx ON refresh_tokens (family);
+      CREATE INDEX IF NOT EXISTS refresh_tokens_pubkey_idx ON refresh_tokens (pubkey);
+      CREATE INDEX IF NOT EXISTS refresh_tokens_expires_at_idx ON refresh_tokens (expires_at);
+    `);
+  }
+
+  async put(token: StoredRefreshToken): Promise<void> {
+    this.db
+      .prepare('INSERT INTO refresh_tokens (token_hash, family, pubkey, issued_at, expires_at, used_at) VALUES (?, ?, ?, ?, ?, ?)')
+      .run(token.token_hash, token.family, token.pubkey, token.issued_at, token.expires_at, token.used_at);
+  }
+
+  async markUsed(tokenHash: string, now: number): Promise<StoredRefreshToken | null> {
+    // The conditional UPDATE decides the winner; only one caller can flip used_at
+    const { changes } = this.db
+      .prepare('UPDATE refresh_tokens SET used_at = ? WHERE token_hash = ? AND used_at IS NULL')
+      .run(now, tokenHash);
+
+    const row = this.db.prepare('SELECT * FROM refresh_tokens WHERE token_hash = ?').get(tokenHash) as StoredRefreshToken | undefined;
+    if (!row) {
+      return null;
+    }
+    return Number(changes) > 0 ? { ...row, used_at: null } : { ...row };
+  }
+
+  async get(tokenHash: string): Promise<StoredRefreshToken | null> {
+    const row = this.db.prepare('SELECT * FROM refresh_tokens WHERE token_hash = ?').get(tokenHash) as StoredRefreshToken | undefined;
+    return row ? { ...row } : null;
+  }
+
+  async revokeFamily(family: string): Promise<number> {
+    const { changes } = this.db.prepare('DELETE FROM refresh_tokens WHERE family = ?').run(family);
+    return Number(changes);
+  }
+
+  async revokePubkey(pubkey: string): Promise<number> {
+    const { changes } = this.db.prepare('DELETE FROM refresh_tokens WHERE pubkey = ?').run(pubkey);
+    return Number(changes);
+  }
+
+  async expire(now: number = Math.floor(Date.now() / 1000)): Promise<number> {
+    const { changes } = this.db.prepare('DELETE FROM refresh_tokens WHERE expires_at < ?').run(now);
+    return Number(changes);
+  }
+}
+
+/**
+ * Revocation store backed by SQLite `revoked_tokens` and `revoked_pubkeys` tables
+ * @class SqliteRevocationStore
+ */
+export class SqliteRevocationStore implements RevocationStore {
+  /**
+   * Creates a new SqliteRevocationStore, creating its tables if needed
+   * @param {SqliteDatabase} db - Open database handle
+   */
+  constructor(private readonly db: SqliteDatabase) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS revoked_tokens (
+        jti TEXT PRIMARY KEY,
+        expires_at INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS revoked_pubkeys (
+        pubkey TEXT PRIMARY KEY,
+        revoked_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS revoked_tokens_expires_at_idx ON revoked_tokens (expires_at);
+    `);
+  }
+
+  async revokeToken(jti: string, expiresAt: number): Promise<void> {
+    this.db
+      .prepare(`INSERT INTO revoked_tokens (jti, expires_at) VALUES (?, ?)
+        ON CONFLICT (jti) DO UPDATE SET expires_at = max(expires_at, excluded.expires_at)`)
+      .run(jti, expiresAt);
+  }
+
+  async revokePubkey(pubkey: string, revokedAt: number, expiresAt: number): Promise<void> {
+    this.db
+      .prepare(`INSERT INTO revoked_pubkeys (pubkey, revoked_at, expires_at) VALUES (?, ?, ?)
+        ON CONFLICT (pubkey) DO UPDATE SET
+          revoked_at = max(revoked_at, excluded.revoked_at),
+          expires_at = max(expires_at, excluded.expires_at)`)
+      .run(pubkey, revokedAt, expiresAt);
+  }
+
+  async isRevoked(jti: string | undefined, pubkey: string, issuedAt: number): Promise<boolean> {
+    if (jti && this.db.prepare('SELECT 1 FROM revoked_tokens WHERE jti = ?').get(jti)) {
+      return true;
+    }
+    return !!this.db
+      .prepare('SELECT 1 FROM revoked_pubkeys WHERE pubkey = ? AND revoked_at >= ?')
+      .get(pubkey, issuedAt);
+  }
+
+  async expire(now: number = Math.floor(Date.now() / 1000)): Promise<number> {
+    const tokens = this.db.prepare('DELETE FROM revoked_tokens WHERE expires_at < ?').run(now);
+    const pubkeys = this.db.prepare('DELETE FROM revoked_pubkeys WHERE expires_at < ?').run(now);
+    return Number(tokens.changes) + Number(pubkeys.changes);
+  }
+}
+
+/**
+ * Replay store backed by a SQLite `seen_events` table
+ * @class SqliteReplayStore
+ */
+export class SqliteReplayStore implements ReplayStore {
+  /**
+   * Creates a new SqliteReplayStore, creating its table if needed
+   * @param {SqliteDatabase} db - Open database handle
+   */
+  constructor(private readonly db: SqliteDatabase) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS seen_events (
+        id TEXT PRIMARY KEY,
+        expires_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS seen_events_expires_at_idx ON seen_events (expires_at);
+    `);
+  }
+
+  async markSeen(id: string, expiresAt: number): Promise<boolean> {
+    // The primary key makes the insert the atomic check
+    const { changes } = this.db
+      .prepare('INSERT OR IGNORE INTO seen_events (id, expires_at) VALUES (?, ?)')
+      .run(id, expiresAt);
+    return Number(changes) > 0;
+  }
+
+  async expire(now: number = Math.floor(Date.now() / 1000)): Promise<number> {
+    const { changes } = this.db.prepare('DELETE FROM seen_events WHERE expires_at < ?').run(now);
+    return Number(changes);
+  }
+}
+
+interface EnrollmentRow {
+  id: string;
+  pubkey: string;
+  profile: string;
+  challenge: string | null;
+  status: EnrollmentStatus;
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * Enrollment store backed by a SQLite file
+ * @class SqliteEnrollmentStore
+ */
+export class SqliteEnrollmentStore implements EnrollmentStore {
+  /**
+   * Creates a new SqliteEnrollmentStore, creating its table if needed
+   * @param {SqliteDatabase} db - Open database handle
+   */
+  constructor(private readonly db: SqliteDatabase) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS enrollments (
+        pubkey TEXT PRIMARY KEY,
+        id TEXT NOT NULL,
+        profile TEXT NOT NULL,
+        challenge TEXT,
+        status TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+    `);
+  }
+
+  async get(pubkey: string): Promise<NostrEnrollment | null> {
+    const row = this.db.prepare('SELECT * FROM enrollments WHERE pubkey = ?').get(pubkey) as EnrollmentRow | undefined;
+    return row ? toEnrollment(row) : null;
+  }
+
+  async put(enrollment: NostrEnrollment): Promise<void> {
+    this.db
+      .prepare(`INSERT OR REPLACE INTO enrollments (pubkey, id, profile, challenge, status, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)`)
+      .run(
+        enrollment.pubkey,
+        enrollment.id,
+        JSON.stringify(enrollment.profile),
+        enrollment.challenge ?? null,
+        enrollment.status,
+        enrollment.created_at,
+        enrollment.updated_at
+      );
+  }
+
+  async setStatus(pubkey: string, status: EnrollmentStatus, updatedAt: number): Promise<NostrEnrollment | null> {
+    this.db.prepare('UPDATE enrollments SET status = ?, updated_at = ? WHERE pubkey = ?').run(status, updatedAt, pubkey);
+    return this.get(pubkey);
+  }
+}
+
+/**
+ * Converts an enrollments row into a NostrEnrollment
+ * @param {EnrollmentRow} row - Row read from the enrollments table
+ * @returns {NostrEnrollment} The enrollment
+ */
+function toEnrollment(row: EnrollmentRow): NostrEnrollment {
+  return {
+    id: row.id,
+    pubkey: row.pubkey,
+    profile: JSON.parse(row.profile),
+    ...(row.challenge ? { challenge: row.challenge } : {}),
+    status: row.status,
+    created_at: row.created_at,
+    updated_at: row.updated_at
+  };
+}
+
+interface Nip05NameRow {
+  name: string;
+  pubkey: string;
+  relays: string;
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * NIP-05 name store backed by a SQLite file
+ * @class SqliteNip05NameStore
+ */
+export class SqliteNip05NameStore implements Nip05NameStore {
+  /**
+   * Creates a new SqliteNip05NameStore, creating its table if needed
+   * @param {SqliteDatabase} db - Open database handle
+   */
+  constructor(private readonly db: SqliteDatabase) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS nip05_names (
+        name TEXT PRIMARY KEY,
+        pubkey TEXT NOT NULL,
+        relays TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+    `);
+  }
+
+  async get(name: string): Promise<Nip05Name | null> {
+    const row = this.db.prepare('SELECT * FROM nip05_names WHERE name = ?').get(name) as Nip05NameRow | undefined;
+    return row ? { ...row, relays: JSON.parse(row.relays) } : null;
+  }
+
+  async put(record: Nip05Name): Promise<void> {
+    this.db
+      .prepare('INSERT OR REPLACE INTO nip05_names (name, pubkey, relays, created_at, updated_at) VALUES (?, ?, ?, ?, ?)')
+      .run(record.name, record.pubkey, JSON.stringify(record.relays), record.created_at, record.updated_at);
+  }
+
+  async delete(name: string): Promise<boolean> {
+    const { changes } = this.db.prepare('DELETE FROM nip05_names WHERE name = ?').run(name);
+    return Number(changes) > 0;
+  }
+}
+
+interface ApiKeyRow {
+  id: string;
+  key_hash: string;
+  owner: string;
+  scopes: string;
+  created_at: number;
+  expires_at: number | null;
+  last_used_at: number | null;
+  rotated_to: string | null;
+}
+
+/**
+ * API key store backed by a SQLite file
+ * @class SqliteApiKeyStore
+ */
+export class SqliteApiKeyStore implements ApiKeyStore {
+  /**
+   * Creates a new SqliteApiKeyStore, creating its table if needed
+   * @param {SqliteDatabase} db - Open database handle
+   */
+  constructor(private readonly db: SqliteDatabase) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS api_keys (
+        id TEXT PRIMARY KEY,
+        key_hash TEXT NOT NULL UNIQUE,
+        owner TEXT NOT NULL,
+        scopes TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER,
+        last_used_at INTEGER,
+        rotated_to TEXT
+      );
+      CREATE INDEX IF NOT EXISTS api_keys_owner ON api_keys (owner);
+    `);
+  }
+
+  async get(id: string): Promise<ApiKeyRecord | null> {
+    const row = this.db.prepare('SELECT * FROM api_keys WHERE id = ?').get(id) as ApiKeyRow | undefined;
+    return row ? toApiKeyRecord(row) : null;
+  }
+
+  async findByHash(keyHash: string): Promise<ApiKeyRecord | null> {
+    const row = this.db.prepare('SELECT * FROM api_keys WHERE key_hash = ?').get(keyHash) as ApiKeyRow | undefined;
+    return row ? toApiKeyRecord(row) : null;
+  }
+
+  async list(owner?: string): Promise<ApiKeyRecord[]> {
+    const rows = owner === undefined
+      ? this.db.prepare('SELECT * FROM api_keys ORDER BY created_at, rowid').all()
+      : this.db.prepare('SELECT * FROM api_keys WHERE owner = ? ORDER BY created_at, rowid').all(owner);
+    return (rows as ApiKeyRow[]).map(toApiKeyRecord);
+  }
+
+  async put(record: ApiKeyRecord): Promise<void> {
+    this.db
+      .prepare(`INSERT OR REPLACE INTO api_keys (id, key_hash, owner, scopes, created_at, expires_at, last_used_at, rotated_to)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)`)
+      .run(
+        record.id,
+        record.key_hash,
+        record.owner,
+        JSON.stringify(record.scopes),
+        record.created_at,
+        record.expires_at ?? null,
+        record.last_used_at ?? null,
+        record.rotated_to ?? null
+      );
+  }
+
+  async touch(id: string, lastUsedAt: number): Promise<void> {
+    this.db.prepare('UPDATE api_keys SET last_used_at = ? WHERE id = ?').run(lastUsedAt, id);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const { changes } = this.db.prepare('DELETE FROM api_keys WHERE id = ?').run(id);
+    return Number(changes) > 0;
+  }
+}
+
+/**
+ * Converts an api_keys row into an ApiKeyRecord
+ * @param {ApiKeyRow} row - Row read from the api_keys table
+ * @returns {ApiKeyRecord} The key record
+ */
+function toApiKeyRecord(row: ApiKeyRow): ApiKeyRecord {
+  return {
+    id: row.id,
+    key_hash: row.key_hash,
+    owner: row.owner,
+    scopes: JSON.parse(row.scopes),
+    created_at: row.created_at,
+    ...(row.expires_at !== null ? { expires_at: row.expires_at } : {}),
+    ...(row.last_used_at !== null ? { last_used_at: row.last_used_at } : {}),
+    ...(row.rotated_to !== null ? { rotated_to: row.rotated_to } : {})
+  };
+}
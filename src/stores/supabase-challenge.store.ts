@@ -0,0 +1,61 @@
+/**
+ * @fileoverview Supabase-backed challenge store
+ * Persists challenges in the `challenges` table
+ * @module supabase-challenge-store
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ChallengeStore, StoredChallenge } from './challenge.store.js';
+
+/**
+ * Challenge store backed by a Supabase `challenges` table
+ * @class SupabaseChallengeStore
+ */
+export class SupabaseChallengeStore implements ChallengeStore {
+  /**
+   * Creates a new SupabaseChallengeStore
+   * @param {SupabaseClient} supabase - Configured Supabase client
+   */
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  async put(challenge: StoredChallenge): Promise<void> {
+    const { error } = await this.supabase
+      .from('challenges')
+      .insert([challenge]);
+
+    if (error) {
+      throw new Error(`Failed to store challenge: ${error.message}`);
+    }
+  }
+
+  async consume(pubkey: string, challenge: string): Promise<StoredChallenge | null> {
+    // DELETE ... RETURNING is atomic in Postgres: when two verifications race,
+    // only one of them gets the row back
+    const { data, error } = await this.supabase
+      .from('challenges')
+      .delete()
+      .eq('pubkey', pubkey)
+      .eq('challenge', challenge)
+      .select<'*', StoredChallenge>('*');
+
+    if (error) {
+      throw new Error(`Failed to consume challenge: ${error.message}`);
+    }
+
+    return data?.[0] ?? null;
+  }
+
+  async expire(now: number = Math.floor(Date.now() / 1000)): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('challenges')
+      .delete()
+      .lt('expires_at', now)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to expire challenges: ${error.message}`);
+    }
+
+    return data?.length ?? 0;
+  }
+}
@@ -2,6 +2,18 @@
  * Core type definitions for Nostr authentication
  */
 
+import type { ChallengeStore } from './stores/challenge.store.js';
+import type { SessionStore } from './stores/session.store.js';
+import type { RefreshTokenStore } from './stores/refresh-token.store.js';
+import type { RevocationStore } from './stores/revocation.store.js';
+import type { EnrollmentStore } from './stores/enrollment.store.js';
+import type { Nip05NameStore } from './stores/nip05-name.store.js';
+import type { ApiKeyStore } from './stores/api-key.store.js';
+import type { AuditLog } from './services/audit-log.service.js';
+import type { WebSocketFactory } from './services/relay-pool.service.js';
+import type { JsonWebKey } from 'crypto';
+import type { Store } from 'express-rate-limit';
+
 /**
  * Base Nostr event interface
  */
@@ -33,12 +45,39 @@ export interface PublicKeyDetails {
  */
 export type JWTExpiresIn = `${number}h` | `${number}m` | `${number}s` | `${number}d`;
 
+/**
+ * Asymmetric algorithms supported for signing issued tokens
+ */
+export type JWTAsymmetricAlgorithm = 'ES256K' | 'EdDSA' | 'ES256';
+
+/**
+ * Asymmetric key pair used to sign issued tokens
+ */
+export interface JWTSigningKey {
+  /** JWS algorithm: ES256K (secp256k1), EdDSA (Ed25519) or ES256 (P-256) */
+  algorithm: JWTAsymmetricAlgorithm;
+  /** Private key as a PEM-encoded PKCS#8 string or a JWK */
+  privateKey: string | JsonWebKey;
+  /** Key identifier placed in the token header (defaults to the RFC 7638 thumbprint) */
+  kid?: string;
+}
+
+/**
+ * Public key entry published in the JWKS
+ */
+export interface PublicJWK extends JsonWebKey {
+  kid: string;
+  alg: JWTAsymmetricAlgorithm;
+  use: 'sig';
+}
+
 /**
  * Configuration interface for Nostr authentication middleware
  */
 export interface NostrAuthConfig {
   // Required properties
-  jwtSecret: string;
+  /** HS256 secret; required unless jwtSigningKey is set */
+  jwtSecret?: string;
   jwtExpiresIn: JWTExpiresIn;
   eventTimeoutMs: number;
   keyManagementMode: 'development' | 'production';
@@ -59,6 +98,86 @@ export interface NostrAuthConfig {
   jwtExpiry?: number;
   challengeTemplate?: string;
   timeout?: number;
+  /** Custom challenge backend (defaults to Supabase when configured, otherwise in-memory) */
+  challengeStore?: ChallengeStore;
+  /** Optional store recording metadata about issued tokens */
+  sessionStore?: SessionStore;
+  /** Asymmetric key used to sign tokens instead of jwtSecret; its public half is served as a JWKS */
+  jwtSigningKey?: JWTSigningKey;
+  /** Additional public keys accepted and published in the JWKS (e.g. the previous key during rotation) */
+  jwtVerificationKeys?: PublicJWK[];
+  /** Store for rotating refresh tokens; `/verify` only issues refresh tokens when this is set */
+  refreshTokenStore?: RefreshTokenStore;
+  /** Refresh token lifetime (default: '30d') */
+  refreshTokenExpiresIn?: JWTExpiresIn;
+  /** Store for revoked tokens, consulted on every token verification (default: in-memory) */
+  revocationStore?: RevocationStore;
+  /** Store for enrollment records written by `POST /enroll` (default: in-memory) */
+  enrollmentStore?: EnrollmentStore;
+  /** Only issue tokens from `/verify` and `/refresh` to pubkeys with a completed enrollment (default: false) */
+  requireEnrollment?: boolean;
+  /** Only these pubkeys (hex or npub) may log in; replaceable at runtime with `NostrService#setAccessLists` */
+  allowedPubkeys?: string[];
+  /** These pubkeys (hex or npub) may never log in; takes precedence over `allowedPubkeys` */
+  deniedPubkeys?: string[];
+  /** Called after the lists for every login and refresh; return false to refuse the pubkey */
+  accessPolicy?: AccessPolicy;
+  /** Supplies extra claims (e.g. `roles`, `scopes`) for every issued token */
+  claimsResolver?: ClaimsResolver;
+  /** 'auto' completes valid enrollments immediately; 'manual' leaves them pending for an admin (default: 'auto') */
+  enrollmentApproval?: 'auto' | 'manual';
+  /** Names served by the NIP-05 router; defaults to an in-memory store */
+  nip05NameStore?: Nip05NameStore;
+  /** Managed API keys administered through the admin router; defaults to an in-memory store */
+  apiKeyStore?: ApiKeyStore;
+  /** Per-route request limits; routes without an entry are not limited. `keyBy` defaults to the IP on the login routes, the pubkey on `logout` and the pubkey or API key on `refresh` and `profile` */
+  rateLimits?: Partial<Record<RateLimitedRoute, RateLimitOptions>>;
+  /** Creates the counter store of each limited route (default: process-local memory); called once per route */
+  createRateLimitStore?: (route: RateLimitedRoute) => Store;
+  /** Relays queried for kind 0 metadata when no stored profile exists */
+  nostrRelays?: string[];
+  /** How long relay profiles (and misses) are cached, in milliseconds (default: 300000) */
+  profileCacheTtlMs?: number;
+  /** Time to wait for each relay, in milliseconds (default: 5000) */
+  relayTimeoutMs?: number;
+  /** Opens relay connections (default: the global `WebSocket`, available in browsers and Node.js 22+) */
+  createWebSocket?: WebSocketFactory;
+  /** fetch used for NIP-05 lookups (default: the global `fetch`) */
+  nip05Fetch?: typeof fetch;
+  /** Resolves NIP-05 domains; lookups of domains resolving to internal addresses are refused (default: the system resolver) */
+  nip05LookupHost?: (hostname: string) => Promise<string[]>;
+  /** Add the verified `nip05` identifier and its relay hints to issued tokens (default: false) */
+  nip05InToken?: boolean;
+  /** Longest a token waits for its NIP-05 claims before it is issued without them, in milliseconds (default: 2000) */
+  nip05ClaimsTimeoutMs?: number;
+  /** Domains whose identifiers `/challenge` accepts in place of a pubkey (default: none) */
+  nip05Domains?: string[];
+  /** Let `/challenge` resolve identifiers on any domain when `nip05Domains` is not set (default: false) */
+  nip05AnyDomain?: boolean;
+  /** Add the NIP-19 `npub` form of the pubkey to route responses and issued tokens (default: false) */
+  includeNpub?: boolean;
+  /** Hosts (e.g. 'app.example.com') accepted in the signed event's `domain` tag; the tag is required when set */
+  allowedDomains?: string[];
+  /** Origins (e.g. 'https://app.example.com') accepted in the signed event's `origin` tag; the tag is required when set */
+  allowedOrigins?: string[];
+  /** Require NIP-13 proof of work on `/verify` events */
+  proofOfWork?: ProofOfWorkConfig;
+  /** Receives challenge, verification and refresh events; nothing is recorded when omitted */
+  auditLog?: AuditLog;
+}
+
+/**
+ * NIP-13 proof-of-work requirement for login events
+ */
+export interface ProofOfWorkConfig {
+  /** Leading zero bits required of the event id when the service is idle */
+  difficulty: number;
+  /** Upper bound for the difficulty under load (default: difficulty + 8) */
+  maxDifficulty?: number;
+  /** Challenges issued per window that raise the difficulty by one bit (default: 100) */
+  challengesPerStep?: number;
+  /** Window over which issued challenges are counted, in milliseconds (default: 60000) */
+  loadWindowMs?: number;
 }
 
 /**
@@ -73,6 +192,28 @@ export interface NostrChallenge {
   expires_at: number;
 }
 
+/**
+ * Structured challenge returned by `POST /challenge/:pubkey`
+ */
+export interface IssuedChallenge {
+  /** Public key (hex) the challenge was issued to */
+  pubkey: string;
+  /** Value the client must sign in its `challenge` tag */
+  challenge: string;
+  /** Random nonce embedded in the challenge */
+  nonce: string;
+  /** Host the challenge was issued for, when known */
+  domain?: string;
+  /** Origin that requested the challenge, when it is on the allow-list */
+  origin?: string;
+  /** Leading zero bits the signed event's id must have (NIP-13), when proof of work is required */
+  powDifficulty?: number;
+  /** Unix timestamp (seconds) when the challenge was issued */
+  issuedAt: number;
+  /** Unix timestamp (seconds) after which the challenge is rejected */
+  expiresAt: number;
+}
+
 /**
  * Profile interface for Nostr users
  */
@@ -82,10 +223,21 @@ export interface NostrProfile {
   name?: string;
   about?: string;
   picture?: string;
+  /** NIP-05 identifier (name@domain), as claimed in the metadata */
+  nip05?: string;
+  /** True if the `nip05` domain maps the identifier to this pubkey */
+  nip05Verified?: boolean;
+  /** Relay hints published alongside a verified `nip05` identifier */
+  relays?: string[];
   created_at: number;
   updated_at: number;
 }
 
+/**
+ * Lifecycle of an enrollment: `pending` awaits approval, `completed` may log in, `failed` was rejected
+ */
+export type EnrollmentStatus = 'pending' | 'completed' | 'failed';
+
 /**
  * Enrollment interface for Nostr users
  */
@@ -94,21 +246,327 @@ export interface NostrEnrollment {
   pubkey: string;
   profile: NostrProfile;
   challenge?: string;
-  status: 'pending' | 'completed' | 'failed';
+  status: EnrollmentStatus;
   created_at: number;
   updated_at: number;
 }
 
+/**
+ * Decides whether a pubkey may log in
+ * @param {string} pubkey - Authenticated public key (hex)
+ * @param {NostrEvent} [event] - The signed login event; absent when a refresh token is exchanged
+ * @returns {boolean | Promise<boolean>} True to allow the pubkey
+ */
+export type AccessPolicy = (pubkey: string, event?: NostrEvent) => boolean | Promise<boolean>;
+
+/**
+ * Application claims returned by a ClaimsResolver
+ */
+export interface CustomClaims {
+  /** Roles checked by `requireRole()` */
+  roles?: string[];
+  /** Scopes checked by `requireScope()` */
+  scopes?: string[];
+  [claim: string]: unknown;
+}
+
+/**
+ * Supplies application claims for a token
+ * @param {string} pubkey - Public key (hex) the token is issued to
+ * @param {NostrEvent} [event] - The verified login event; absent when a refresh token is exchanged
+ * @returns {CustomClaims | Promise<CustomClaims>} Claims merged into the token; registered and built-in claims are ignored
+ */
+export type ClaimsResolver = (pubkey: string, event?: NostrEvent) => CustomClaims | Promise<CustomClaims>;
+
+/**
+ * Pubkey allow and deny lists
+ */
+export interface AccessLists {
+  /** When set, only these pubkeys may log in */
+  allowedPubkeys?: string[];
+  /** Pubkeys that may never log in */
+  deniedPubkeys?: string[];
+}
+
+/**
+ * Machine-readable reasons an authentication event was rejected
+ */
+export type VerificationErrorCode =
+  | 'INVALID_EVENT'
+  | 'INVALID_SIGNATURE'
+  | 'INVALID_TIMESTAMP'
+  | 'INVALID_KIND'
+  | 'MISSING_CHALLENGE_TAG'
+  | 'EVENT_ID_MISMATCH'
+  | 'CHALLENGE_MISMATCH'
+  | 'RELAY_MISMATCH'
+  | 'DOMAIN_NOT_ALLOWED'
+  | 'ORIGIN_NOT_ALLOWED'
+  | 'CHALLENGE_NOT_FOUND'
+  | 'CHALLENGE_EXPIRED'
+  | 'NOT_ENROLLED'
+  | 'PUBKEY_FORBIDDEN'
+  | 'POW_INSUFFICIENT'
+  | 'INTERNAL_ERROR';
+
 /**
  * Result interface for verification operations
  */
 export interface VerificationResult {
   success: boolean;
   error?: string;
+  /** Set when success is false */
+  code?: VerificationErrorCode;
   pubkey?: string;
   data?: Record<string, unknown>;
 }
 
+/**
+ * Result interface for refresh token rotation
+ */
+export interface TokenRefreshResult {
+  success: boolean;
+  error?: string;
+  pubkey?: string;
+  /** New access token */
+  token?: string;
+  /** Replacement refresh token; the presented one can no longer be used */
+  refreshToken?: string;
+}
+
+/**
+ * A name this service publishes in its `/.well-known/nostr.json`
+ */
+export interface Nip05Name {
+  /** Lowercased local part */
+  name: string;
+  pubkey: string;
+  /** Relays advertised for the pubkey */
+  relays: string[];
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * Result interface for NIP-05 name reservations
+ */
+export interface Nip05NameResult {
+  success: boolean;
+  error?: string;
+  /** Set when success is false */
+  code?: 'INVALID_NAME' | 'NAME_TAKEN';
+  name?: Nip05Name;
+}
+
+/**
+ * Router routes that accept a rate limit
+ */
+export type RateLimitedRoute = 'challenge' | 'verify' | 'enroll' | 'refresh' | 'logout' | 'profile';
+
+/**
+ * Client identities a rate limit can count against
+ * - `pubkey`: the pubkey of a verified token (`req.nostr`)
+ * - `apiKey`: the id of a managed API key (`req.apiKey`)
+ * - `ip`: the client IP, with IPv6 addresses grouped by /56 subnet
+ */
+export type RateLimitKey = 'pubkey' | 'apiKey' | 'ip';
+
+/**
+ * Options for a rate limiter
+ */
+export interface RateLimitOptions {
+  /** Length of the counting window in milliseconds (default: 900000) */
+  windowMs?: number;
+  /** Requests allowed per client and window (default: 100) */
+  limit?: number;
+  /** Identities tried in order; the first one present on the request is counted (default: pubkey, apiKey, ip) */
+  keyBy?: RateLimitKey[];
+  /** Counter store, e.g. one backed by Redis so replicas share counts; must not be shared with another limiter */
+  store?: Store;
+}
+
+/**
+ * A managed API key; only the hash of the key itself is stored
+ */
+export interface ApiKeyRecord {
+  /** Public identifier, safe to log and show to admins */
+  id: string;
+  /** SHA-256 of the key (hex) */
+  key_hash: string;
+  /** Who the key was issued to, e.g. a service name or pubkey */
+  owner: string;
+  scopes: string[];
+  created_at: number;
+  /** The key is refused from this time on; omitted for keys that never expire */
+  expires_at?: number;
+  last_used_at?: number;
+  /** Id of the key that replaced this one when it was rotated */
+  rotated_to?: string;
+}
+
+/**
+ * Options for creating or rotating a managed API key
+ */
+export interface ApiKeyOptions {
+  /** Who the key is issued to; required when creating */
+  owner?: string;
+  /** Scopes granted to the key (default: none) */
+  scopes?: string[];
+  /** Lifetime of the key (default: never expires; rotation keeps the old key's lifetime) */
+  expiresIn?: JWTExpiresIn;
+  /** Rotation only: how long the old key keeps working, in seconds (default: 86400) */
+  gracePeriodSeconds?: number;
+}
+
+/**
+ * Result interface for API key creation and rotation
+ */
+export interface ApiKeyResult {
+  success: boolean;
+  error?: string;
+  /** Set when success is false */
+  code?: 'INVALID_API_KEY_REQUEST' | 'API_KEY_NOT_FOUND' | 'API_KEY_INACTIVE';
+  /** The new key; it is not stored and cannot be retrieved again */
+  key?: string;
+  record?: ApiKeyRecord;
+}
+
+/**
+ * Request details recorded with an audit event
+ */
+export interface AuditContext {
+  /** Client IP address */
+  ip?: string;
+}
+
+/**
+ * The payload of an audit event, keyed by `type`
+ * - `challenge.issued`: a login challenge was handed out
+ * - `verify.succeeded` / `verify.failed`: a signed challenge was checked; failures carry the `code` and `reason` the client was given
+ * - `token.refreshed`: a refresh token was exchanged for new tokens
+ * - `api_key.rejected`: a request to a route behind `requireApiKey` was refused
+ * - `ip.blocked`: `createIpWhitelist` refused a client IP
+ */
+export type AuditEventData = AuditContext & (
+  | { type: 'challenge.issued'; pubkey: string }
+  | { type: 'verify.succeeded'; pubkey: string }
+  | { type: 'verify.failed'; pubkey?: string; code: VerificationErrorCode; reason: string }
+  | { type: 'token.refreshed'; pubkey: string }
+  | { type: 'api_key.rejected'; reason: 'missing' | 'invalid' | 'insufficient_scope'; keyId?: string }
+  | { type: 'ip.blocked' }
+);
+
+/**
+ * An audit event as handed to sinks
+ */
+export type AuditEvent = AuditEventData & {
+  /** Unix timestamp in seconds */
+  created_at: number;
+};
+
+/**
+ * Audit event types
+ */
+export type AuditEventType = AuditEvent['type'];
+
+/**
+ * Options for HashChainAuditSink
+ */
+export interface HashChainAuditConfig {
+  /** Server private key (hex) that signs the checkpoints */
+  privateKey: string;
+  /** Write a checkpoint after this many events (default: 1000) */
+  checkpointEvery?: number;
+  /** Also write one this often, in milliseconds, when events arrived since the last (default: 3600000) */
+  checkpointIntervalMs?: number;
+  /** Called with each signed checkpoint, e.g. to publish it to relays so a truncated log can be detected */
+  onCheckpoint?: (checkpoint: NostrEvent) => void | Promise<void>;
+}
+
+/**
+ * A line of a hash-chained audit log; it carries either an event or a checkpoint
+ */
+export interface ChainedAuditEntry {
+  /** Position in the log, starting at 1 */
+  seq: number;
+  /** Hash of the previous entry; 64 zeros for the first */
+  prev_hash: string;
+  /** SHA-256 over `seq`, `prev_hash` and the payload (hex) */
+  hash: string;
+  event?: AuditEvent;
+  /** Signed Nostr event committing to the `seq` and `hash` of the entry before it */
+  checkpoint?: NostrEvent;
+}
+
+/**
+ * Result of replaying a hash-chained audit log
+ */
+export interface AuditLogVerification {
+  /** True if every entry links to the one before it and every checkpoint is validly signed */
+  valid: boolean;
+  /** Entries read up to the end of the log or the first broken link */
+  entries: number;
+  /** Valid checkpoints among them */
+  checkpoints: number;
+  /** Seq covered by the last valid checkpoint; entries after it are only protected by the chain */
+  lastCheckpointSeq?: number;
+  /** The first broken link; set when valid is false */
+  brokenAt?: {
+    /** Line number in the file, starting at 1 */
+    line: number;
+    seq?: number;
+    reason: string;
+  };
+}
+
+/**
+ * Result interface for enrollment requests
+ */
+export interface EnrollmentResult {
+  success: boolean;
+  error?: string;
+  /** Set when success is false */
+  code?: 'INVALID_ENROLLMENT' | 'ENROLLMENT_REJECTED' | 'INTERNAL_ERROR';
+  enrollment?: NostrEnrollment;
+}
+
+/**
+ * Claims carried by tokens issued from `/verify`
+ */
+export interface NostrTokenClaims {
+  /** Authenticated public key (hex) */
+  pubkey: string;
+  /** Token identifier */
+  jti?: string;
+  /** Issued-at time (Unix seconds) */
+  iat?: number;
+  /** Expiration time (Unix seconds) */
+  exp?: number;
+  /** Verified NIP-05 identifier (with `nip05InToken`) */
+  nip05?: string;
+  /** Relay hints for the NIP-05 identifier (with `nip05InToken`) */
+  relays?: string[];
+  /** NIP-19 form of the pubkey (with `includeNpub`) */
+  npub?: string;
+  /** Roles from `claimsResolver` */
+  roles?: string[];
+  /** Scopes from `claimsResolver` */
+  scopes?: string[];
+  [claim: string]: unknown;
+}
+
+/**
+ * Authentication details attached to `req.nostr` by the token middleware
+ */
+export interface NostrRequestAuth {
+  /** Authenticated public key (hex) */
+  pubkey: string;
+  /** Verified token claims */
+  claims: NostrTokenClaims;
+  /** Signed event that authenticated the request (NIP-98 only) */
+  event?: NostrEvent;
+}
+
 // ─── NIP-46 Types ───────────────────────────────────────────────────────────
 
 /**
@@ -165,6 +623,80 @@ export interface Nip46AuthResult {
   timestamp: number;
 }
 
+// ─── NIP-42 Types ───────────────────────────────────────────────────────────
+
+/**
+ * Configuration for relay-side NIP-42 authentication
+ */
+export interface RelayAuthConfig {
+  /** This relay's public URL, as clients put it in the `relay` tag (e.g. wss://relay.example.com) */
+  relayUrl: string;
+  /** Accepted age of an AUTH event's `created_at`, in seconds (default: 600) */
+  maxAgeSeconds?: number;
+}
+
+/**
+ * Configuration for fetching kind 0 profiles from relays
+ */
+export interface ProfileServiceConfig {
+  /** Relay URLs to query */
+  relays: string[];
+  /** How long profiles (and misses) are cached, in milliseconds (default: 300000) */
+  cacheTtlMs?: number;
+  /** Time to wait for each relay, in milliseconds (default: 5000) */
+  timeoutMs?: number;
+  /** Opens relay connections (default: the global `WebSocket`) */
+  createWebSocket?: WebSocketFactory;
+}
+
+/**
+ * Configuration for NIP-51 list membership checks
+ */
+export interface Nip51MembershipConfig {
+  /** Public key (hex or npub) that signs the list */
+  adminPubkey: string;
+  /** The list's `d` tag */
+  listId: string;
+  /** Relay URLs to fetch the list from; may be empty when only the snapshot is used */
+  relays: string[];
+  /** File holding the newest verified list event; read on first use and rewritten when a newer version arrives */
+  snapshotPath?: string;
+  /** How long the fetched list is used before relays are asked again, in milliseconds (default: 300000) */
+  cacheTtlMs?: number;
+  /** Time to wait for each relay, in milliseconds (default: 5000) */
+  timeoutMs?: number;
+  /** Opens relay connections (default: the global `WebSocket`) */
+  createWebSocket?: WebSocketFactory;
+}
+
+/**
+ * Configuration for NIP-05 lookups
+ */
+export interface Nip05ResolverConfig {
+  /** fetch implementation (default: the global `fetch`) */
+  fetch?: typeof fetch;
+  /** Resolves a domain to its addresses before it is fetched (default: the system resolver) */
+  lookupHost?: (hostname: string) => Promise<string[]>;
+  /** Time to wait for a domain's nostr.json, in milliseconds (default: 5000) */
+  timeoutMs?: number;
+  /** How long resolutions (and misses) are cached, in milliseconds (default: 300000) */
+  cacheTtlMs?: number;
+  /** Most resolutions kept in the cache; the oldest is dropped first (default: 1000) */
+  maxCacheEntries?: number;
+}
+
+/**
+ * A NIP-05 identifier resolved through its domain
+ */
+export interface Nip05Resolution {
+  /** Normalised identifier (`name@domain`, lowercased) */
+  identifier: string;
+  /** Public key (hex) the domain maps the name to */
+  pubkey: string;
+  /** Relay hints the domain publishes for the pubkey */
+  relays: string[];
+}
+
 // Extend Window interface to include Nostr
 declare global {
   interface Window {
@@ -134,6 +134,26 @@ export interface NostrAuthConfig extends SecurityConfig {
   supabaseUrl?: string;
   /** Supabase API key */
   supabaseKey?: string;
+  /** Path to a SQLite database file for challenge and session storage */
+  sqlitePath?: string;
+  /** Serve `/.well-known/nostr.json` for names reserved through the admin API */
+  nip05Provider?: boolean;
+  /** Pubkeys (hex or npub) that may log in; any pubkey when unset */
+  allowedPubkeys?: string[];
+  /** Pubkeys (hex or npub) that may never log in */
+  deniedPubkeys?: string[];
+  /** Admin pubkey (hex or npub) signing the NIP-51 membership list; only its members may log in when set */
+  membershipListAuthor?: string;
+  /** `d` tag of the NIP-51 membership list */
+  membershipListId?: string;
+  /** File used to keep the membership list across offline restarts */
+  membershipSnapshotPath?: string;
+  /** NIP-13 difficulty required on `/verify` events when idle; rises under load. Disabled when unset */
+  powDifficulty?: number;
+  /** File audit events are appended to as JSON lines; auditing is off when unset */
+  auditLogPath?: string;
+  /** Hash-chain the audit log and checkpoint it with events signed by the server key */
+  auditLogChained?: boolean;
   
   /** Secret for JWT signing */
   jwtSecret: string;
@@ -0,0 +1,138 @@
+/**
+ * @fileoverview Hash chaining and verification of audit logs
+ * Shared by HashChainAuditSink and the offline verifier
+ * @module audit-chain-utils
+ */
+
+import crypto from 'crypto';
+import { createReadStream } from 'fs';
+import { createInterface } from 'readline';
+import type { AuditLogVerification, ChainedAuditEntry, NostrEvent } from '../types.js';
+import { generateEventHash, verifySignature } from './crypto.utils.js';
+
+/** Application-specific data (NIP-78); relays keep the latest checkpoint per server key */
+export const AUDIT_CHECKPOINT_KIND = 30078;
+
+/** `d` tag of checkpoint events */
+export const AUDIT_CHECKPOINT_TAG = 'nostr-auth-audit';
+
+/** `prev_hash` of the first entry */
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Computes the hash that links an entry into the chain
+ * @param {Omit<ChainedAuditEntry, 'hash'>} entry - Entry with its seq, previous hash and payload
+ * @returns {string} SHA-256 in hex format
+ */
+export function hashAuditEntry(entry: Omit<ChainedAuditEntry, 'hash'>): string {
+  const payload = entry.event ? ['event', entry.event] : ['checkpoint', entry.checkpoint ?? null];
+  return crypto.createHash('sha256').update(JSON.stringify([entry.seq, entry.prev_hash, ...payload])).digest('hex');
+}
+
+/**
+ * Checks a checkpoint event against the entry it covers
+ * @param {NostrEvent} checkpoint - Signed checkpoint
+ * @param {number} seq - Seq of the entry before the checkpoint
+ * @param {string} hash - Hash of that entry
+ * @param {string} [publicKey] - Key the checkpoint must be signed with
+ * @returns {Promise<string | null>} Why the checkpoint is invalid, or null
+ */
+async function checkCheckpoint(checkpoint: NostrEvent, seq: number, hash: string, publicKey?: string): Promise<string | null> {
+  const tag = (name: string) => checkpoint.tags?.find(t => t[0] === name)?.[1];
+  if (checkpoint.kind !== AUDIT_CHECKPOINT_KIND || tag('d') !== AUDIT_CHECKPOINT_TAG) {
+    return 'Checkpoint is not an audit checkpoint event';
+  }
+  if (tag('seq') !== String(seq) || tag('hash') !== hash) {
+    return 'Checkpoint does not cover the previous entry';
+  }
+  if (publicKey && checkpoint.pubkey !== publicKey) {
+    return 'Checkpoint signed by another key';
+  }
+  try {
+    if (generateEventHash(checkpoint) !== checkpoint.id || !(await verifySignature(checkpoint))) {
+      return 'Invalid checkpoint signature';
+    }
+  } catch {
+    return 'Invalid checkpoint signature';
+  }
+  return null;
+}
+
+/**
+ * Replays a hash-chained audit log written by HashChainAuditSink
+ * @param {string} path - The log file
+ * @param {{ publicKey?: string }} [options] - `publicKey`: server key (hex) every checkpoint must be signed with; defaults to the key of the first checkpoint
+ * @returns {Promise<AuditLogVerification>} Counts, and the first broken link if there is one
+ * @throws {Error} If the file cannot be read
+ * @description
+ * A link is broken when an entry cannot be parsed, skips or repeats a seq,
+ * does not name the previous entry's hash, does not match its own hash, or
+ * is a checkpoint that is not validly signed for the entry before it.
+ * Removing entries from the end of the log cannot be detected from the file
+ * alone; compare `lastCheckpointSeq` with checkpoints kept elsewhere.
+ * @example
+ * const result = await verifyAuditLog('data/audit.jsonl', { publicKey: serverPubkey });
+ * if (!result.valid) console.error(`Audit log broken at line ${result.brokenAt!.line}: ${result.brokenAt!.reason}`);
+ */
+export async function verifyAuditLog(path: string, options: { publicKey?: string } = {}): Promise<AuditLogVerification> {
+  const input = createReadStream(path, { encoding: 'utf8' });
+  const lines = createInterface({ input, crlfDelay: Infinity });
+  const result: AuditLogVerification = { valid: true, entries: 0, checkpoints: 0 };
+  let publicKey = options.publicKey;
+  let prevHash = AUDIT_GENESIS_HASH;
+  let lineNumber = 0;
+
+  const broken = (reason: string, seq?: number): AuditLogVerification => ({
+    ...result,
+    valid: false,
+    brokenAt: { line: lineNumber, ...(seq !== undefined ? { seq } : {}), reason }
+  });
+
+  try {
+    for await (const line of lines) {
+      lineNumber++;
+      if (!line.trim()) {
+        continue;
+      }
+
+      let entry: ChainedAuditEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        return broken('Unparseable entry');
+      }
+
+      const seq = result.entries + 1;
+      if (entry?.seq !== seq) {
+        return broken(`Expected seq ${seq}`, typeof entry?.seq === 'number' ? entry.seq : undefined);
+      }
+      if (entry.prev_hash !== prevHash) {
+        return broken('Previous hash does not match', seq);
+      }
+      if (!entry.event === !entry.checkpoint) {
+        return broken('Entry must carry either an event or a checkpoint', seq);
+      }
+      if (hashAuditEntry(entry) !== entry.hash) {
+        return broken('Entry hash does not match its contents', seq);
+      }
+
+      if (entry.checkpoint) {
+        const reason = await checkCheckpoint(entry.checkpoint, seq - 1, prevHash, publicKey);
+        if (reason) {
+          return broken(reason, seq);
+        }
+        publicKey ??= entry.checkpoint.pubkey;
+        result.checkpoints++;
+        result.lastCheckpointSeq = seq - 1;
+      }
+
+      result.entries++;
+      prevHash = entry.hash;
+    }
+  } finally {
+    lines.close();
+    input.destroy();
+  }
+
+  return result;
+}
@@ -5,7 +5,17 @@
  */
 
 import jwt from 'jsonwebtoken';
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  sign as cryptoSign,
+  verify as cryptoVerify,
+  JsonWebKey,
+  KeyObject
+} from 'crypto';
 import { createLogger } from './logger.js';
+import type { NostrTokenClaims, JWTAsymmetricAlgorithm, JWTSigningKey, PublicJWK } from '../types.js';
 
 const logger = createLogger('JWTUtils');
 
@@ -19,19 +29,130 @@ const logger = createLogger('JWTUtils');
  */
 type JWTExpiresIn = `${number}h` | `${number}m` | `${number}s` | `${number}d`;
 
+const EXPIRES_IN_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400 };
+
+/**
+ * Converts a JWT expiration time to a number of seconds
+ * @param {JWTExpiresIn} expiresIn - Token expiration time (e.g., '24h', '60m')
+ * @returns {number} Lifetime in seconds
+ * @throws {Error} If the format is not recognised
+ * @example
+ * parseExpiresIn('1h'); // 3600
+ */
+export function parseExpiresIn(expiresIn: JWTExpiresIn): number {
+  const match = /^(\d+)([smhd])$/.exec(expiresIn);
+  if (!match) {
+    throw new Error(`Invalid expiresIn format: ${expiresIn}`);
+  }
+  return parseInt(match[1], 10) * EXPIRES_IN_UNITS[match[2]];
+}
+
+/**
+ * Node signing parameters for each asymmetric JWS algorithm
+ * @private
+ */
+const ASYMMETRIC_ALGORITHMS: Record<JWTAsymmetricAlgorithm, { digest: string | null; curve: string }> = {
+  ES256: { digest: 'sha256', curve: 'P-256' },
+  ES256K: { digest: 'sha256', curve: 'secp256k1' },
+  EdDSA: { digest: null, curve: 'Ed25519' }
+};
+
+/**
+ * Loads a private key and checks it matches the declared algorithm
+ * @param {JWTSigningKey} key - Signing key configuration
+ * @returns {KeyObject} The private key object
+ * @throws {Error} If the key cannot be parsed or uses the wrong curve
+ * @private
+ */
+function loadPrivateKey(key: JWTSigningKey): KeyObject {
+  const privateKey = typeof key.privateKey === 'string'
+    ? createPrivateKey(key.privateKey)
+    : createPrivateKey({ key: key.privateKey, format: 'jwk' });
+
+  const { crv } = createPublicKey(privateKey).export({ format: 'jwk' });
+  if (crv !== ASYMMETRIC_ALGORITHMS[key.algorithm].curve) {
+    throw new Error(`Key curve ${crv} does not match algorithm ${key.algorithm}`);
+  }
+  return privateKey;
+}
+
+/**
+ * Computes the RFC 7638 thumbprint of a public JWK
+ * @param {JsonWebKey} jwk - Public key in JWK form
+ * @returns {string} Base64url-encoded SHA-256 thumbprint
+ * @private
+ */
+function jwkThumbprint(jwk: JsonWebKey): string {
+  const members = jwk.kty === 'OKP'
+    ? { crv: jwk.crv, kty: jwk.kty, x: jwk.x }
+    : { crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y };
+  return createHash('sha256').update(JSON.stringify(members)).digest('base64url');
+}
+
+/**
+ * Derives the public JWK for a signing key, as published in the JWKS
+ * @param {JWTSigningKey} key - Signing key configuration
+ * @returns {PublicJWK} Public key with `kid`, `alg` and `use` members
+ * @throws {Error} If the key is invalid for its algorithm
+ * @example
+ * const jwk = getPublicJWK({ algorithm: 'ES256K', privateKey: pem });
+ * console.log(jwk.kid); // RFC 7638 thumbprint unless a kid was configured
+ */
+export function getPublicJWK(key: JWTSigningKey): PublicJWK {
+  const jwk = createPublicKey(loadPrivateKey(key)).export({ format: 'jwk' });
+  return {
+    ...jwk,
+    kid: key.kid || jwkThumbprint(jwk),
+    alg: key.algorithm,
+    use: 'sig'
+  };
+}
+
 /**
  * Generates a JWT token for a given public key
  * @param {string} pubkey - The Nostr public key to encode in the token
- * @param {string} secret - The secret key used to sign the token
+ * @param {string | JWTSigningKey} secret - HS256 secret, or an asymmetric signing key
  * @param {JWTExpiresIn} expiresIn - Token expiration time (e.g., '24h', '60m')
+ * @param {{ jwtid?: string; claims?: Record<string, unknown> }} [options] - Optional token identifier (`jti` claim) and extra claims
  * @returns {string} The generated JWT token
  * @throws {Error} If token generation fails
  * @example
  * const token = generateJWT('npub1...', 'secret123', '24h');
+ * const signed = generateJWT(pubkey, { algorithm: 'EdDSA', privateKey: pem }, '1h');
  */
-export function generateJWT(pubkey: string, secret: string, expiresIn: JWTExpiresIn): string {
+export function generateJWT(
+  pubkey: string,
+  secret: string | JWTSigningKey,
+  expiresIn: JWTExpiresIn,
+  options: { jwtid?: string; claims?: Record<string, unknown> } = {}
+): string {
   try {
-    return jwt.sign({ pubkey }, secret, { expiresIn, algorithm: 'HS256' });
+    if (typeof secret === 'string') {
+      return jwt.sign({ ...options.claims, pubkey }, secret, {
+        expiresIn,
+        algorithm: 'HS256',
+        ...(options.jwtid ? { jwtid: options.jwtid } : {})
+      });
+    }
+
+    // jsonwebtoken does not support ES256K or EdDSA, so asymmetric tokens are
+    // assembled here directly
+    const privateKey = loadPrivateKey(secret);
+    const iat = Math.floor(Date.now() / 1000);
+    const header = { alg: secret.algorithm, typ: 'JWT', kid: getPublicJWK(secret).kid };
+    const payload = {
+      ...options.claims,
+      pubkey,
+      iat,
+      exp: iat + parseExpiresIn(expiresIn),
+      ...(options.jwtid ? { jti: options.jwtid } : {})
+    };
+    const signingInput = `${base64url(JSON.stringify(header))}.${base64url(JSON.stringify(payload))}`;
+    const signature = cryptoSign(ASYMMETRIC_ALGORITHMS[secret.algorithm].digest, Buffer.from(signingInput), {
+      key: privateKey,
+      dsaEncoding: 'ieee-p1363'
+    });
+    return `${signingInput}.${signature.toString('base64url')}`;
   } catch (error) {
     logger.error('Error generating JWT:', error);
     throw error;
@@ -39,11 +160,58 @@ export function generateJWT(pubkey: string, secret: string, expiresIn: JWTExpire
 }
 
 /**
- * Verifies a JWT token and extracts the public key
+ * Verifies an asymmetric JWT against a set of public JWKs
+ * @param {string} token - The JWT token to verify
+ * @param {PublicJWK[]} keys - Accepted public keys
+ * @returns {Record<string, unknown>} The decoded payload
+ * @throws {Error} If the signature, key or expiry checks fail
+ * @private
+ */
+function verifyAsymmetricJWT(token: string, keys: PublicJWK[]): Record<string, unknown> {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new Error('Malformed token');
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = parts;
+  const header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString('utf8'));
+  const key = keys.find(k => k.kid === header.kid);
+  if (!key) {
+    throw new Error(`Unknown key id: ${header.kid}`);
+  }
+  // The algorithm is pinned by the key, never taken from the token header alone
+  if (header.alg !== key.alg) {
+    throw new Error(`Algorithm ${header.alg} does not match key ${key.kid}`);
+  }
+
+  const publicKey = createPublicKey({ key: key as JsonWebKey, format: 'jwk' });
+  const valid = cryptoVerify(
+    ASYMMETRIC_ALGORITHMS[key.alg].digest,
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    { key: publicKey, dsaEncoding: 'ieee-p1363' },
+    Buffer.from(encodedSignature, 'base64url')
+  );
+  if (!valid) {
+    throw new Error('Invalid signature');
+  }
+
+  const payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof payload.exp === 'number' && now >= payload.exp) {
+    throw new jwt.TokenExpiredError('jwt expired', new Date(payload.exp * 1000));
+  }
+  if (typeof payload.nbf === 'number' && now < payload.nbf) {
+    throw new Error('Token not yet valid');
+  }
+  return payload;
+}
+
+/**
+ * Verifies a JWT token and extracts its claims
  * @param {string} token - The JWT token to verify
- * @param {string} secret - The secret key used to verify the token
- * @returns {{ pubkey: string }} Object containing the verified public key
- * @throws {Error} If token verification fails or token is invalid
+ * @param {string | PublicJWK[]} secret - HS256 secret, or the public JWKs accepted for asymmetric tokens
+ * @returns {NostrTokenClaims} The verified claims, including the public key
+ * @throws {Error} 'JWT expired' if the token has expired, 'Invalid JWT' for any other failure
  * @example
  * try {
  *   const { pubkey } = verifyJWT('eyJhbG...', 'secret123');
@@ -52,12 +220,30 @@ export function generateJWT(pubkey: string, secret: string, expiresIn: JWTExpire
  *   console.error('Invalid token');
  * }
  */
-export function verifyJWT(token: string, secret: string): { pubkey: string } {
+export function verifyJWT(token: string, secret: string | PublicJWK[]): NostrTokenClaims {
   try {
-    const decoded = jwt.verify(token, secret, { algorithms: ['HS256'] }) as { pubkey: string };
-    return decoded;
+    const decoded = typeof secret === 'string'
+      ? jwt.verify(token, secret, { algorithms: ['HS256'] })
+      : verifyAsymmetricJWT(token, secret);
+    if (typeof decoded !== 'object' || typeof decoded.pubkey !== 'string') {
+      throw new Error('Token is missing the pubkey claim');
+    }
+    return decoded as NostrTokenClaims;
   } catch (error) {
     logger.error('Error verifying JWT:', { error: error instanceof Error ? error.message : String(error) });
+    if (error instanceof jwt.TokenExpiredError) {
+      throw new Error('JWT expired');
+    }
     throw new Error('Invalid JWT');
   }
 }
+
+/**
+ * Encodes a string as base64url
+ * @param {string} value - Value to encode
+ * @returns {string} Base64url-encoded value
+ * @private
+ */
+function base64url(value: string): string {
+  return Buffer.from(value, 'utf8').toString('base64url');
+}
@@ -0,0 +1,59 @@
+/**
+ * @fileoverview NIP-13 proof of work
+ * Measures the difficulty of event ids and reads the committed target
+ * @module nip13-utils
+ * @see https://github.com/nostr-protocol/nips/blob/master/13.md
+ */
+
+import type { NostrEvent } from '../types.js';
+
+/**
+ * Counts the leading zero bits of a hex string
+ * @param {string} hex - Event id (hex)
+ * @returns {number} Number of leading zero bits
+ * @example
+ * countLeadingZeroBits('000f' + 'f'.repeat(60)); // 12
+ */
+export function countLeadingZeroBits(hex: string): number {
+  let bits = 0;
+  for (const char of hex) {
+    const nibble = parseInt(char, 16);
+    if (Number.isNaN(nibble)) {
+      break;
+    }
+    if (nibble === 0) {
+      bits += 4;
+      continue;
+    }
+    bits += Math.clz32(nibble) - 28;
+    break;
+  }
+  return bits;
+}
+
+/**
+ * Reads the target difficulty an event commits to in its `nonce` tag
+ * @param {NostrEvent} event - Mined event
+ * @returns {number | null} The committed target, or null without a `nonce` tag carrying one
+ */
+export function getCommittedTarget(event: NostrEvent): number | null {
+  const target = event.tags?.find(tag => tag[0] === 'nonce')?.[2];
+  return target !== undefined && /^\d+$/.test(target) ? parseInt(target, 10) : null;
+}
+
+/**
+ * Checks that an event carries at least the required proof of work
+ * @param {NostrEvent} event - Event whose id was already checked against its content
+ * @param {number} difficulty - Required number of leading zero bits
+ * @returns {boolean} True if the id meets the difficulty and the `nonce` tag commits to at least it
+ * @description
+ * Requiring the committed target stops clients from submitting ids that
+ * happened to reach the difficulty while mining for a lower target.
+ */
+export function hasProofOfWork(event: NostrEvent, difficulty: number): boolean {
+  if (difficulty <= 0) {
+    return true;
+  }
+  const target = getCommittedTarget(event);
+  return target !== null && target >= difficulty && countLeadingZeroBits(event.id ?? '') >= difficulty;
+}
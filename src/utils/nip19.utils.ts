@@ -0,0 +1,228 @@
+/**
+ * @fileoverview NIP-19 bech32 encoding of public keys
+ * Converts between hex pubkeys and their `npub` / `nprofile` forms
+ * @module nip19-utils
+ * @see https://github.com/nostr-protocol/nips/blob/master/19.md
+ */
+
+const CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const GENERATOR = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+
+/** NIP-19 lifts bech32's 90 character limit so TLV entities fit */
+const MAX_LENGTH = 5000;
+
+/** nprofile TLV types */
+const TLV_SPECIAL = 0;
+const TLV_RELAY = 1;
+
+/**
+ * A decoded NIP-19 public key entity
+ */
+export type DecodedPubkey =
+  | { type: 'npub'; pubkey: string }
+  | { type: 'nprofile'; pubkey: string; relays: string[] };
+
+/**
+ * Computes the bech32 checksum state over a list of 5-bit values
+ * @param {number[]} values - Expanded prefix followed by data words
+ * @returns {number} Checksum state
+ */
+function polymod(values: number[]): number {
+  let checksum = 1;
+  for (const value of values) {
+    const top = checksum >>> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    for (let i = 0; i < 5; i++) {
+      if ((top >>> i) & 1) {
+        checksum ^= GENERATOR[i];
+      }
+    }
+  }
+  return checksum;
+}
+
+/**
+ * Expands the human-readable prefix for checksumming
+ * @param {string} prefix - Lowercase prefix, e.g. `npub`
+ * @returns {number[]} High bits, a separator and low bits of each character
+ */
+function expandPrefix(prefix: string): number[] {
+  const codes = [...prefix].map(char => char.charCodeAt(0));
+  return [...codes.map(code => code >> 5), 0, ...codes.map(code => code & 31)];
+}
+
+/**
+ * Regroups bits, e.g. bytes into 5-bit words and back
+ * @param {ArrayLike<number>} data - Input groups
+ * @param {number} from - Bits per input group
+ * @param {number} to - Bits per output group
+ * @param {boolean} pad - Pad the last group with zeros instead of rejecting leftover bits
+ * @returns {number[] | null} Output groups, or null if unpadded input has non-zero leftover bits
+ */
+function convertBits(data: ArrayLike<number>, from: number, to: number, pad: boolean): number[] | null {
+  let accumulator = 0;
+  let bits = 0;
+  const result: number[] = [];
+  const max = (1 << to) - 1;
+  for (let i = 0; i < data.length; i++) {
+    accumulator = (accumulator << from) | data[i];
+    bits += from;
+    while (bits >= to) {
+      bits -= to;
+      result.push((accumulator >> bits) & max);
+    }
+  }
+  if (pad) {
+    if (bits > 0) {
+      result.push((accumulator << (to - bits)) & max);
+    }
+  } else if (bits >= from || ((accumulator << (to - bits)) & max)) {
+    return null;
+  }
+  return result;
+}
+
+/**
+ * Encodes bytes as a bech32 string
+ * @param {string} prefix - Human-readable prefix
+ * @param {Uint8Array} bytes - Payload
+ * @returns {string} The bech32 string
+ */
+function bech32Encode(prefix: string, bytes: Uint8Array): string {
+  const words = convertBits(bytes, 8, 5, true)!;
+  const state = polymod([...expandPrefix(prefix), ...words, 0, 0, 0, 0, 0, 0]) ^ 1;
+  const checksum = Array.from({ length: 6 }, (_, i) => (state >>> (5 * (5 - i))) & 31);
+  return `${prefix}1${[...words, ...checksum].map(word => CHARSET[word]).join('')}`;
+}
+
+/**
+ * Decodes a bech32 string
+ * @param {string} value - bech32 string
+ * @returns {{ prefix: string; bytes: Uint8Array }} Prefix and payload
+ * @throws {Error} If the string is malformed or its checksum does not match
+ */
+function bech32Decode(value: string): { prefix: string; bytes: Uint8Array } {
+  if (value.length > MAX_LENGTH || (value !== value.toLowerCase() && value !== value.toUpperCase())) {
+    throw new Error('Invalid bech32 string');
+  }
+
+  const lower = value.toLowerCase();
+  const separator = lower.lastIndexOf('1');
+  if (separator < 1 || separator + 7 > lower.length) {
+    throw new Error('Invalid bech32 string');
+  }
+
+  const prefix = lower.slice(0, separator);
+  const words = [...lower.slice(separator + 1)].map(char => CHARSET.indexOf(char));
+  if (words.includes(-1)) {
+    throw new Error('Invalid bech32 character');
+  }
+  if (polymod([...expandPrefix(prefix), ...words]) !== 1) {
+    throw new Error('Invalid bech32 checksum');
+  }
+
+  const bytes = convertBits(words.slice(0, -6), 5, 8, false);
+  if (!bytes) {
+    throw new Error('Invalid bech32 padding');
+  }
+  return { prefix, bytes: Uint8Array.from(bytes) };
+}
+
+/**
+ * Encodes a hex pubkey as an `npub`
+ * @param {string} pubkey - Public key (hex)
+ * @returns {string} The `npub1...` form
+ * @throws {Error} If the pubkey is not 64 hex characters
+ */
+export function npubEncode(pubkey: string): string {
+  if (!/^[0-9a-f]{64}$/i.test(pubkey)) {
+    throw new Error('Invalid pubkey');
+  }
+  return bech32Encode('npub', Buffer.from(pubkey, 'hex'));
+}
+
+/**
+ * Encodes a hex pubkey and relay hints as an `nprofile`
+ * @param {{ pubkey: string; relays?: string[] }} profile - Public key (hex) and relays
+ * @returns {string} The `nprofile1...` form
+ * @throws {Error} If the pubkey is not 64 hex characters or a relay URL is longer than 255 bytes
+ */
+export function nprofileEncode(profile: { pubkey: string; relays?: string[] }): string {
+  if (!/^[0-9a-f]{64}$/i.test(profile.pubkey)) {
+    throw new Error('Invalid pubkey');
+  }
+
+  const tlv: number[] = [TLV_SPECIAL, 32, ...Buffer.from(profile.pubkey, 'hex')];
+  for (const relay of profile.relays ?? []) {
+    const bytes = Buffer.from(relay, 'utf8');
+    if (bytes.length > 255) {
+      throw new Error('Relay URL too long');
+    }
+    tlv.push(TLV_RELAY, bytes.length, ...bytes);
+  }
+  return bech32Encode('nprofile', Uint8Array.from(tlv));
+}
+
+/**
+ * Decodes an `npub` or `nprofile`
+ * @param {string} value - NIP-19 entity
+ * @returns {DecodedPubkey} The hex pubkey, plus relay hints for `nprofile`
+ * @throws {Error} If the value is not a valid `npub` or `nprofile`
+ */
+export function decodeNip19(value: string): DecodedPubkey {
+  const { prefix, bytes } = bech32Decode(value);
+
+  if (prefix === 'npub') {
+    if (bytes.length !== 32) {
+      throw new Error('Invalid npub length');
+    }
+    return { type: 'npub', pubkey: Buffer.from(bytes).toString('hex') };
+  }
+
+  if (prefix === 'nprofile') {
+    let pubkey: string | undefined;
+    const relays: string[] = [];
+    for (let i = 0; i < bytes.length;) {
+      const type = bytes[i];
+      const length = bytes[i + 1];
+      const entry = bytes.subarray(i + 2, i + 2 + length);
+      if (length === undefined || entry.length !== length) {
+        throw new Error('Invalid nprofile TLV');
+      }
+      if (type === TLV_SPECIAL && length === 32) {
+        pubkey ??= Buffer.from(entry).toString('hex');
+      } else if (type === TLV_RELAY) {
+        relays.push(Buffer.from(entry).toString('utf8'));
+      }
+      i += 2 + length;
+    }
+    if (!pubkey) {
+      throw new Error('nprofile has no pubkey');
+    }
+    return { type: 'nprofile', pubkey, relays };
+  }
+
+  throw new Error(`Unsupported NIP-19 prefix: ${prefix}`);
+}
+
+/**
+ * Converts any accepted pubkey form to lowercase hex
+ * @param {string} value - Hex pubkey, `npub` or `nprofile`
+ * @returns {string | null} The hex pubkey, or null if the value is none of these
+ * @example
+ * normalizePubkey('npub10elfcs4fr0l0r8af98jlmgdh9c8tcxjvz9qkw038js35mp4dma8qzvjptg');
+ * // '7e7e9c42a91bfef19fa929e5fda1b72e0ebc1a4c1141673e2794234d86addf4e'
+ */
+export function normalizePubkey(value: string): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  if (/^[0-9a-f]{64}$/i.test(value)) {
+    return value.toLowerCase();
+  }
+  try {
+    return decodeNip19(value).pubkey;
+  } catch {
+    return null;
+  }
+}
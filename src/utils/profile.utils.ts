@@ -0,0 +1,40 @@
+/**
+ * @fileoverview Profile metadata parsing
+ * Reads kind 0 style profile JSON from event content
+ * @module profile-utils
+ */
+
+import type { NostrEvent, NostrProfile } from '../types.js';
+
+/** Metadata fields copied onto a profile when they are strings */
+const PROFILE_FIELDS = ['name', 'about', 'picture', 'nip05'] as const;
+
+/**
+ * Builds a profile from an event carrying profile JSON, such as kind 0 metadata or an enrollment event
+ * @param {NostrEvent} event - Validated event; content that is not a JSON object yields no profile fields
+ * @returns {NostrProfile} Profile with the string fields that were present
+ */
+export function parseProfileMetadata(event: NostrEvent): NostrProfile {
+  let metadata: Record<string, unknown> = {};
+  try {
+    const parsed = JSON.parse(event.content);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      metadata = parsed;
+    }
+  } catch {
+    // Plain-text content carries no profile fields
+  }
+
+  const profile: NostrProfile = {
+    id: event.id!,
+    pubkey: event.pubkey!,
+    created_at: event.created_at,
+    updated_at: event.created_at
+  };
+  for (const field of PROFILE_FIELDS) {
+    if (typeof metadata[field] === 'string') {
+      profile[field] = metadata[field] as string;
+    }
+  }
+  return profile;
+}
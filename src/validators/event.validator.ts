@@ -13,9 +13,30 @@ import { VerificationResult } from '../types.js';
 
 const logger = createLogger('NostrEventValidator');
 
+/**
+ * Options for validateEvent
+ * @interface EventValidationOptions
+ */
+export interface EventValidationOptions {
+  /** Oldest accepted `created_at`, in seconds before now (default: 300) */
+  maxAgeSeconds?: number;
+  /** Furthest accepted `created_at`, in seconds after now (default: 60) */
+  maxFutureSeconds?: number;
+}
+
+/**
+ * Options for validateAuthEvent
+ * @interface AuthEventValidationOptions
+ */
+export interface AuthEventValidationOptions extends EventValidationOptions {
+  /** Required event kind (default: 22242) */
+  kind?: number;
+}
+
 /**
  * Validates a generic Nostr event
  * @param {NostrEvent} event - The event to validate
+ * @param {EventValidationOptions} [options] - Accepted time window
  * @returns {Promise<VerificationResult>} Result of the validation
  * @description
  * Performs the following checks:
@@ -25,45 +46,47 @@ const logger = createLogger('NostrEventValidator');
  * 4. Verifies the cryptographic signature
  * @security Critical for preventing unauthorized access and ensuring event integrity
  */
-export async function validateEvent(event: NostrEvent): Promise<VerificationResult> {
+export async function validateEvent(event: NostrEvent, options: EventValidationOptions = {}): Promise<VerificationResult> {
+  const { maxAgeSeconds = 300, maxFutureSeconds = 60 } = options;
   try {
-    // Check required fields
-    if (!event.pubkey || !event.content || !event.sig) {
-      return { success: false, error: 'Missing required fields' };
+    // Check required fields (content may be empty, e.g. for NIP-98 events)
+    if (!event.pubkey || typeof event.content !== 'string' || !event.sig) {
+      return { success: false, error: 'Missing required fields', code: 'INVALID_EVENT' };
     }
 
-    // Validate pubkey format
+    // Validate pubkey format; events are signed over the hex pubkey, so NIP-19 forms are not converted
     if (!/^[0-9a-f]{64}$/.test(event.pubkey)) {
-      return { success: false, error: 'Invalid pubkey format' };
+      const hint = /^(npub|nprofile)1/i.test(event.pubkey) ? ': expected 64 hex characters, not an npub/nprofile' : '';
+      return { success: false, error: `Invalid pubkey format${hint}`, code: 'INVALID_EVENT' };
     }
 
     // Validate signature format
     if (!/^[0-9a-f]{128}$/.test(event.sig)) {
-      return { success: false, error: 'Invalid signature format' };
+      return { success: false, error: 'Invalid signature format', code: 'INVALID_SIGNATURE' };
     }
 
     // Verify signature
     const isValid = await verifySignature(event);
     if (!isValid) {
-      return { success: false, error: 'Invalid signature' };
+      return { success: false, error: 'Invalid signature', code: 'INVALID_SIGNATURE' };
     }
 
     // Validate timestamp to prevent replay attacks
     const now = Math.floor(Date.now() / 1000);
     if (!event.created_at || typeof event.created_at !== 'number') {
-      return { success: false, error: 'Missing or invalid created_at timestamp' };
+      return { success: false, error: 'Missing or invalid created_at timestamp', code: 'INVALID_TIMESTAMP' };
     }
-    if (event.created_at < now - 300) {
-      return { success: false, error: 'Event timestamp too old' };
+    if (event.created_at < now - maxAgeSeconds) {
+      return { success: false, error: 'Event timestamp too old', code: 'INVALID_TIMESTAMP' };
     }
-    if (event.created_at > now + 60) {
-      return { success: false, error: 'Event timestamp too far in the future' };
+    if (event.created_at > now + maxFutureSeconds) {
+      return { success: false, error: 'Event timestamp too far in the future', code: 'INVALID_TIMESTAMP' };
     }
 
     return { success: true, pubkey: event.pubkey };
   } catch (error) {
     logger.error('Event validation error:', { error: error instanceof Error ? error.message : String(error) });
-    return { success: false, error: 'Event validation failed' };
+    return { success: false, error: 'Event validation failed', code: 'INVALID_EVENT' };
   }
 }
 
@@ -81,35 +104,54 @@ export async function validateEvent(event: NostrEvent): Promise<VerificationResu
  * @security Critical for preventing replay attacks and ensuring challenge integrity
  */
 export async function validateChallengeEvent(event: NostrEvent): Promise<boolean> {
+  return (await validateAuthEvent(event)).success;
+}
+
+/**
+ * Validates an authentication event, reporting why it was rejected
+ * @param {NostrEvent} event - The signed authentication event
+ * @param {AuthEventValidationOptions} [options] - Required kind and accepted time window
+ * @returns {Promise<VerificationResult>} Result of the validation, with a `code` on failure
+ * @description
+ * Runs the checks of validateChallengeEvent against a configurable kind:
+ * basic event validation, event kind, presence of a challenge tag, event
+ * id recomputation and signature verification.
+ * @security Critical for preventing replay attacks and ensuring challenge integrity
+ */
+export async function validateAuthEvent(
+  event: NostrEvent,
+  options: AuthEventValidationOptions = {}
+): Promise<VerificationResult> {
+  const { kind = 22242, ...window } = options;
   try {
-    const result = await validateEvent(event);
+    const result = await validateEvent(event, window);
     if (!result.success) {
-      return false;
+      return result;
     }
 
-    // Challenge events must be kind 22242
-    if (event.kind !== 22242) {
+    // Authentication events must use the configured kind (22242 by default)
+    if (event.kind !== kind) {
       logger.warn('Invalid event kind for challenge');
-      return false;
+      return { success: false, error: 'Invalid event kind', code: 'INVALID_KIND' };
     }
 
     // Must have a challenge tag
-    const challengeTag = event.tags.find(t => t[0] === 'challenge');
-    if (!challengeTag) {
+    const challengeTag = event.tags?.find(t => t[0] === 'challenge');
+    if (!challengeTag?.[1]) {
       logger.warn('Missing challenge tag');
-      return false;
+      return { success: false, error: 'Missing challenge tag', code: 'MISSING_CHALLENGE_TAG' };
     }
 
     // Basic validation
     if (!validateBasicEventFormat(event)) {
-      return false;
+      return { success: false, error: 'Invalid event format', code: 'INVALID_EVENT' };
     }
 
     // Validate event hash
     const hash = generateEventHash(event);
     if (hash !== event.id) {
       logger.error('Event hash mismatch');
-      return false;
+      return { success: false, error: 'Event hash mismatch', code: 'EVENT_ID_MISMATCH' };
     }
 
     // Verify signature
@@ -117,13 +159,63 @@ export async function validateChallengeEvent(event: NostrEvent): Promise<boolean
 
     if (!signatureValid) {
       logger.error('Invalid signature');
-      return false;
+      return { success: false, error: 'Invalid signature', code: 'INVALID_SIGNATURE' };
     }
 
-    return true;
+    return { success: true, pubkey: event.pubkey };
   } catch (error) {
     logger.error('Challenge event validation failed:', error);
-    return false;
+    return { success: false, error: 'Event validation failed', code: 'INVALID_EVENT' };
+  }
+}
+
+/**
+ * Validates a NIP-42 relay AUTH event against the connection it was sent on
+ * @param {NostrEvent} event - The kind 22242 event from the client's AUTH message
+ * @param {{ relayUrl: string; challenge: string }} expected - URL of this relay and the challenge issued on the connection
+ * @param {EventValidationOptions} [options] - Accepted time window (NIP-42 suggests about 10 minutes)
+ * @returns {Promise<VerificationResult>} Result of the validation
+ * @description
+ * Runs the kind 22242 checks of validateChallengeEvent, then requires the
+ * `challenge` tag to equal the issued challenge and the `relay` tag to name
+ * this relay (compared after URL normalisation).
+ * @security Binds the signature to one connection on one relay, so it cannot be replayed elsewhere
+ */
+export async function validateRelayAuthEvent(
+  event: NostrEvent,
+  expected: { relayUrl: string; challenge: string },
+  options?: EventValidationOptions
+): Promise<VerificationResult> {
+  const result = await validateAuthEvent(event, { ...options, kind: 22242 });
+  if (!result.success) {
+    return result;
+  }
+
+  const challenge = event.tags.find(t => t[0] === 'challenge')?.[1];
+  if (challenge !== expected.challenge) {
+    return { success: false, error: 'Challenge mismatch', code: 'CHALLENGE_MISMATCH' };
+  }
+
+  const relay = event.tags.find(t => t[0] === 'relay')?.[1];
+  if (!relay || normalizeRelayUrl(relay) !== normalizeRelayUrl(expected.relayUrl)) {
+    return { success: false, error: 'Relay mismatch', code: 'RELAY_MISMATCH' };
+  }
+
+  return { success: true, pubkey: event.pubkey };
+}
+
+/**
+ * Normalises a relay URL for comparison (case of scheme and host, trailing slash)
+ * @param {string} url - Relay URL
+ * @returns {string} Normalised URL, or the input unchanged if it cannot be parsed
+ * @private
+ */
+function normalizeRelayUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.protocol}//${parsed.host}${parsed.pathname.replace(/\/+$/, '')}${parsed.search}`;
+  } catch {
+    return url;
   }
 }
 